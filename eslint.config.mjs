@@ -0,0 +1,20 @@
+import eslint from '@eslint/js';
+import tseslint from 'typescript-eslint';
+
+export default tseslint.config(
+  {
+    ignores: ['dist/', 'node_modules/', 'coverage/', 'uploads/', 'logs/']
+  },
+  eslint.configs.recommended,
+  tseslint.configs.recommended,
+  {
+    rules: {
+      // Loosely typed Mongoose results and query filters are still passed around as any
+      '@typescript-eslint/no-explicit-any': 'warn',
+      // Express handlers keep the full (req, res, next) signature
+      '@typescript-eslint/no-unused-vars': ['error', { args: 'none', caughtErrors: 'none' }],
+      // Express request augmentation
+      '@typescript-eslint/no-namespace': ['error', { allowDeclarations: true }]
+    }
+  }
+);
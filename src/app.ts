@@ -14,8 +14,15 @@ import reportRoutes from './routes/reportRoutes';
 import metricsRoutes from './routes/metricsRoutes';
 import dashboardRoutes from './routes/dashboardRoutes';
 import adminDashboardRoutes from './routes/adminDashboardRoutes';
+import founderDashboardRoutes from './routes/founderDashboardRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import mediaRoutes from './routes/mediaRoutes';
+import notesRoutes from './routes/notesRoutes';
+import goalRoutes from './routes/goalRoutes';
+import calendarRoutes from './routes/calendarRoutes';
+import calendarFeedRoutes from './routes/calendarFeedRoutes';
+import { downloadUpload } from './controllers/uploadController';
 import logger from './utils/logger';
-import path from 'path';
 
 
 const app: Express = express();
@@ -55,8 +62,8 @@ app.get('/health', (req: Request, res: Response) => {
 
 
 
-// Serve static files from the uploads directory
-app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
+// Serve files of the local storage driver through signed, expiring URLs
+app.get('/uploads/*key', downloadUpload);
 
 // API Routes
 app.use('/api/v1/auth', authRoutes);
@@ -68,6 +75,13 @@ app.use('/api/v1/reports', reportRoutes);
 app.use('/api/v1/metrics', metricsRoutes);
 app.use('/api/v1/dashboard', dashboardRoutes);
 app.use('/api/v1/admin-dashboard', adminDashboardRoutes);
+app.use('/api/v1/founder-dashboard', founderDashboardRoutes);
+app.use('/api/v1/notifications', notificationRoutes);
+app.use('/api/v1/media', mediaRoutes);
+app.use('/api/v1/founders/:founderId/notes', notesRoutes);
+app.use('/api/v1/founders/:founderId/goals', goalRoutes);
+app.use('/api/v1/calendar', calendarRoutes);
+app.use('/api/v1/founders/:founderId/calendar-feed', calendarFeedRoutes);
 
 
 // Error Handling Middleware
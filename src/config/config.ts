@@ -1,6 +1,8 @@
 import path from 'path';
 import dotenv from 'dotenv';
 import { DurationType } from '../types/common';
+import { StorageDriverName } from '../services/storage/types';
+import { CacheDriverName } from '../services/cache/types';
 
 dotenv.config({ path: path.join(__dirname, '../.env') });
 
@@ -29,6 +31,8 @@ interface Config {
       pass: string;
     };
     from: string;
+    transport: 'smtp' | 'json' | 'stream';
+    digestHour: number;
   };
   cors: {
     origin: string;
@@ -39,8 +43,38 @@ interface Config {
     region: string;
     bucketName: string;
   };
+  storage: {
+    driver: StorageDriverName;
+    localDir: string;
+    publicUrl: string;
+    signingSecret: string;
+    signedUrlExpiresIn: DurationType;
+  };
   passwordReset: {
     expiresIn: DurationType;
+    welcomeExpiresIn: DurationType;
+  };
+  jobs: {
+    enabled: boolean;
+    pollIntervalMs: number;
+    leaseMs: number;
+    batchSize: number;
+    digestIntervalMs: number;
+    mediaGcIntervalMs: number;
+    reportIntervalMs: number;
+  };
+  metrics: {
+    anomalyZScore: number;
+    anomalyPercentChange: number;
+    anomalyHistoryMonths: number;
+    anomalyMinHistory: number;
+  };
+  media: {
+    orphanGracePeriod: DurationType;
+  };
+  cache: {
+    driver: CacheDriverName;
+    dashboardTtl: DurationType;
   };
 }
 
@@ -74,12 +108,55 @@ export const config: Config = {
       user: process.env.EMAIL_USER || '',
       pass: process.env.EMAIL_PASS || '',
     },
-    from: process.env.EMAIL_FROM || 'noreply@blowlin.com'
+    from: process.env.EMAIL_FROM || 'noreply@blowlin.com',
+    // 'json' and 'stream' build messages without sending them (local development and tests)
+    transport: (process.env.EMAIL_TRANSPORT || 'smtp') as 'smtp' | 'json' | 'stream',
+    digestHour: parseInt(process.env.EMAIL_DIGEST_HOUR || '8') // UTC hour daily digests go out
   },
   cors: {
     origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
   },
+  storage: {
+    // 's3' in production; 'local' or 'memory' to run without AWS credentials
+    driver: (process.env.STORAGE_DRIVER || 's3') as StorageDriverName,
+    localDir: process.env.STORAGE_LOCAL_DIR || path.join(__dirname, '../../uploads'),
+    // Base URL the local driver hands out; app.ts serves localDir at /uploads
+    publicUrl: (process.env.STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || 5001}/uploads`).replace(/\/$/, ''),
+    // Signs local driver download URLs
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || 'your-super-secret-storage-key',
+    // Lifetime of the download URLs handed out in API responses
+    signedUrlExpiresIn: (process.env.STORAGE_SIGNED_URL_EXPIRES_IN || '15m') as DurationType
+  },
   passwordReset: {
-    expiresIn: (process.env.PASSWORD_RESET_TOKEN_EXPIRES_IN || '1h') as DurationType
+    expiresIn: (process.env.PASSWORD_RESET_TOKEN_EXPIRES_IN || '1h') as DurationType,
+    welcomeExpiresIn: (process.env.WELCOME_TOKEN_EXPIRES_IN || '24h') as DurationType
+  },
+  jobs: {
+    enabled: process.env.JOBS_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.JOBS_POLL_INTERVAL_MS || '60000'),
+    leaseMs: parseInt(process.env.JOBS_LEASE_MS || '120000'),
+    batchSize: parseInt(process.env.JOBS_BATCH_SIZE || '100'),
+    digestIntervalMs: parseInt(process.env.JOBS_DIGEST_INTERVAL_MS || '3600000'),
+    mediaGcIntervalMs: parseInt(process.env.JOBS_MEDIA_GC_INTERVAL_MS || '3600000'),
+    reportIntervalMs: parseInt(process.env.JOBS_REPORT_INTERVAL_MS || '3600000')
+  },
+  metrics: {
+    // Uploads beyond either threshold need confirming; 0 turns a check off
+    anomalyZScore: parseFloat(process.env.METRICS_ANOMALY_Z_SCORE || '3'),
+    anomalyPercentChange: parseFloat(process.env.METRICS_ANOMALY_PERCENT_CHANGE || '200'),
+    // Months before the uploaded one that make up a founder's trailing history
+    anomalyHistoryMonths: parseInt(process.env.METRICS_ANOMALY_HISTORY_MONTHS || '6'),
+    // Founders with fewer months of history are not checked
+    anomalyMinHistory: parseInt(process.env.METRICS_ANOMALY_MIN_HISTORY || '3')
+  },
+  media: {
+    // How long an image stays in the library after the last post stops using it
+    orphanGracePeriod: (process.env.MEDIA_ORPHAN_GRACE_PERIOD || '7d') as DurationType
+  },
+  cache: {
+    // 'none' turns caching off; a shared Redis cache is set up with setCacheDriver
+    driver: (process.env.CACHE_DRIVER || 'memory') as CacheDriverName,
+    // Upper bound on how stale a dashboard gets when a change is not invalidated explicitly
+    dashboardTtl: (process.env.DASHBOARD_CACHE_TTL || '5m') as DurationType
   }
 };
\ No newline at end of file
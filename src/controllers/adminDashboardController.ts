@@ -1,7 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
-import { AdminDashboardService } from '../services/adminDashboardService';
+import { AdminDashboardService, DEFAULT_UNACKNOWLEDGED_REPORT_DAYS } from '../services/adminDashboardService';
+import { getGraphPeriods } from '../services/dashboardService';
+import { DashboardCacheService } from '../services/dashboardCacheService';
 import { catchAsync } from '../utils/catchAsync';
 import AppError from '../utils/AppError';
+import { pickDateRangeOptions } from '../utils/timeUtils';
 
 export const adminDashboardController = {
   /**
@@ -17,11 +20,20 @@ export const adminDashboardController = {
       return next(new AppError('Only admins can access this endpoint', 403));
     }
 
-    const stats = await AdminDashboardService.getAdminDashboardStats(adminId!);
+    const range = pickDateRangeOptions(req.query);
+
+    const { data: stats, generatedAt, cacheHit } = await DashboardCacheService.getAdmin(
+      adminId!,
+      'stats',
+      () => AdminDashboardService.getAdminDashboardStats(adminId!, range),
+      range
+    );
 
     res.status(200).json({
       success: true,
-      stats
+      stats,
+      generatedAt,
+      cacheHit
     });
   }),
 
@@ -38,11 +50,20 @@ export const adminDashboardController = {
       return next(new AppError('Only admins can access this endpoint', 403));
     }
 
-    const activities = await AdminDashboardService.getAdminRecentActivities(adminId!);
+    const range = pickDateRangeOptions(req.query);
+
+    const { data: activities, generatedAt, cacheHit } = await DashboardCacheService.getAdmin(
+      adminId!,
+      'activities',
+      () => AdminDashboardService.getAdminRecentActivities(adminId!, range),
+      range
+    );
 
     res.status(200).json({
       success: true,
-      activities
+      activities,
+      generatedAt,
+      cacheHit
     });
   }),
 
@@ -59,11 +80,52 @@ export const adminDashboardController = {
       return next(new AppError('Only admins can access this endpoint', 403));
     }
 
-    const graphData = await AdminDashboardService.getAdminGraphData(adminId!);
+    const range = pickDateRangeOptions(req.query);
+
+    const { data: graphData, generatedAt, cacheHit } = await DashboardCacheService.getAdmin(
+      adminId!,
+      'graphs',
+      () => AdminDashboardService.getAdminGraphData(adminId!, range),
+      range,
+      [getGraphPeriods(range)]
+    );
+
+    res.status(200).json({
+      success: true,
+      graphData,
+      generatedAt,
+      cacheHit
+    });
+  }),
+
+  /**
+   * Get reports of assigned founders that are still waiting for the founder's acknowledgement
+   * Accessible by: Admin (own dashboard)
+   */
+  getUnacknowledgedReports: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const adminId = req.userId;
+    const userRole = req.userRole;
+
+    // Only admins can access their own dashboard
+    if (userRole !== 'admin') {
+      return next(new AppError('Only admins can access this endpoint', 403));
+    }
+
+    const olderThanDays = req.query.olderThanDays !== undefined
+      ? Number(req.query.olderThanDays)
+      : DEFAULT_UNACKNOWLEDGED_REPORT_DAYS;
+
+    const { data: unacknowledgedReports, generatedAt, cacheHit } = await DashboardCacheService.getAdmin(
+      adminId!,
+      `unacknowledged-reports:${olderThanDays}`,
+      () => AdminDashboardService.getUnacknowledgedReports(adminId!, olderThanDays)
+    );
 
     res.status(200).json({
       success: true,
-      graphData
+      unacknowledgedReports,
+      generatedAt,
+      cacheHit
     });
   }),
 
@@ -80,11 +142,21 @@ export const adminDashboardController = {
       return next(new AppError('Only admins can access this endpoint', 403));
     }
 
-    const dashboard = await AdminDashboardService.getAdminDashboardAll(adminId!);
+    const range = pickDateRangeOptions(req.query);
+
+    const { data: dashboard, generatedAt, cacheHit } = await DashboardCacheService.getAdmin(
+      adminId!,
+      'all',
+      () => AdminDashboardService.getAdminDashboardAll(adminId!, range),
+      range,
+      [1, getGraphPeriods(range)]
+    );
 
     res.status(200).json({
       success: true,
-      dashboard
+      dashboard,
+      generatedAt,
+      cacheHit
     });
   })
 };
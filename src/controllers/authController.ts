@@ -9,11 +9,8 @@ import jwt, { SignOptions } from 'jsonwebtoken';
 import { config } from '../config/config';
 import { IFounder } from '../models/Founder';
 import { IAdmin } from '../models/Admin';
-import bcrypt from 'bcryptjs';
 
 
-type StringValue = `${number}${string}`;
-
 const createProfileResponse = (role: string, profile: IFounder | IAdmin | null): UserProfile => {
   if (!profile) return {};
   
@@ -99,7 +96,7 @@ export const login = catchAsync(async (req: Request, res: Response) => {
     throw new AppError('Invalid credentials', 401);
   }
 
-  const { user: userWithProfile, profile } = await UserService.getUserProfile(user.id);
+  const { profile } = await UserService.getUserProfile(user.id);
   const token = user.generateAuthToken();
   
   // Generate refresh token with user agent and IP information
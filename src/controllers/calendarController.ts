@@ -0,0 +1,117 @@
+import { Request, Response, NextFunction } from 'express';
+import { CalendarService } from '../services/calendarService';
+import { PostService } from '../services/postService';
+import { ActivityLogService } from '../services/activityLogService';
+import { catchAsync } from '../utils/catchAsync';
+import { PostStatus } from '../models/Post';
+
+export const calendarController = {
+  /**
+   * Get the posts planned in a range of days, grouped by day
+   * Accessible by: Admin (own posts), Super Admin, Founder (only their own)
+   */
+  getCalendar: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { from, to, tz, status, founderId, adminId } = req.query;
+
+    // Same visibility as the post listing
+    const scope = await PostService.getScopeFilters(req.userId!, req.userRole!, {
+      founderId: founderId as string | undefined,
+      adminId: adminId as string | undefined
+    });
+
+    const calendar = await CalendarService.getCalendar(scope, {
+      from: from as string | undefined,
+      to: to as string | undefined,
+      tz: tz as string | undefined,
+      status: status as PostStatus | undefined
+    });
+
+    res.status(200).json({
+      success: true,
+      calendar
+    });
+  }),
+
+  /**
+   * Whether a founder has a calendar feed token, and when it was last used
+   * Accessible by: Admin (only for assigned founders), Super Admin, Founder (only their own)
+   */
+  getFeedToken: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const feedToken = await CalendarService.getFeedTokenStatus(req.params.founderId);
+
+    res.status(200).json({
+      success: true,
+      feedToken
+    });
+  }),
+
+  /**
+   * Create or rotate the calendar feed token of a founder
+   * Accessible by: Admin (only for assigned founders), Super Admin, Founder (only their own)
+   */
+  createFeedToken: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId } = req.params;
+
+    const { token, createdAt } = await CalendarService.createFeedToken(founderId, req.userId!);
+
+    // Log the activity
+    await ActivityLogService.logActivity(
+      req.userId!,
+      req.userRole!,
+      'Created Calendar Feed Token',
+      {
+        founderId,
+        timestamp: new Date()
+      }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Calendar feed token created; it will not be shown again',
+      token,
+      feedUrl: `${req.protocol}://${req.get('host')}/api/v1/calendar/feed/${token}.ics`,
+      createdAt
+    });
+  }),
+
+  /**
+   * Revoke the calendar feed token of a founder
+   * Accessible by: Admin (only for assigned founders), Super Admin, Founder (only their own)
+   */
+  revokeFeedToken: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId } = req.params;
+
+    await CalendarService.revokeFeedToken(founderId);
+
+    // Log the activity
+    await ActivityLogService.logActivity(
+      req.userId!,
+      req.userRole!,
+      'Revoked Calendar Feed Token',
+      {
+        founderId,
+        timestamp: new Date()
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Calendar feed token revoked'
+    });
+  }),
+
+  /**
+   * iCalendar feed of a founder's posts
+   * Accessible by: anyone with the feed token
+   */
+  getFeed: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const calendar = await CalendarService.getFeed(req.params.token);
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="content-calendar.ics"',
+      'Cache-Control': 'private, no-store'
+    });
+    res.status(200).send(calendar);
+  })
+};
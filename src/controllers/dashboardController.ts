@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
-import { DashboardService } from '../services/dashboardService';
+import { DashboardService, getGraphPeriods } from '../services/dashboardService';
+import { DashboardCacheService } from '../services/dashboardCacheService';
 import { catchAsync } from '../utils/catchAsync';
 import AppError from '../utils/AppError';
+import { pickDateRangeOptions } from '../utils/timeUtils';
 
 export const dashboardController = {
   /**
@@ -16,11 +18,19 @@ export const dashboardController = {
       return next(new AppError('Only super admins can access this endpoint', 403));
     }
 
-    const stats = await DashboardService.getMainDashboardStats();
+    const range = pickDateRangeOptions(req.query);
+
+    const { data: stats, generatedAt, cacheHit } = await DashboardCacheService.getPlatform(
+      'stats',
+      () => DashboardService.getMainDashboardStats(range),
+      range
+    );
 
     res.status(200).json({
       success: true,
-      stats
+      stats,
+      generatedAt,
+      cacheHit
     });
   }),
 
@@ -36,11 +46,19 @@ export const dashboardController = {
       return next(new AppError('Only super admins can access this endpoint', 403));
     }
 
-    const activities = await DashboardService.getRecentActivities();
+    const range = pickDateRangeOptions(req.query);
+
+    const { data: activities, generatedAt, cacheHit } = await DashboardCacheService.getPlatform(
+      'activities',
+      () => DashboardService.getRecentActivities(range),
+      range
+    );
 
     res.status(200).json({
       success: true,
-      activities
+      activities,
+      generatedAt,
+      cacheHit
     });
   }),
 
@@ -56,11 +74,20 @@ export const dashboardController = {
       return next(new AppError('Only super admins can access this endpoint', 403));
     }
 
-    const graphData = await DashboardService.getGraphData();
+    const range = pickDateRangeOptions(req.query);
+
+    const { data: graphData, generatedAt, cacheHit } = await DashboardCacheService.getPlatform(
+      'graphs',
+      () => DashboardService.getGraphData(range),
+      range,
+      [getGraphPeriods(range)]
+    );
 
     res.status(200).json({
       success: true,
-      graphData
+      graphData,
+      generatedAt,
+      cacheHit
     });
   }),
 
@@ -76,20 +103,28 @@ export const dashboardController = {
       return next(new AppError('Only super admins can access this endpoint', 403));
     }
 
-    // Get all data in parallel
-    const [mainStats, recentActivities, graphData] = await Promise.all([
-      DashboardService.getMainDashboardStats(),
-      DashboardService.getRecentActivities(),
-      DashboardService.getGraphData()
-    ]);
+    const range = pickDateRangeOptions(req.query);
 
-    res.status(200).json({
-      success: true,
-      dashboard: {
+    const { data: dashboard, generatedAt, cacheHit } = await DashboardCacheService.getPlatform('all', async () => {
+      // Get all data in parallel
+      const [mainStats, recentActivities, graphData] = await Promise.all([
+        DashboardService.getMainDashboardStats(range),
+        DashboardService.getRecentActivities(range),
+        DashboardService.getGraphData(range)
+      ]);
+
+      return {
         mainStats,
         recentActivities,
         graphData
-      }
+      };
+    }, range, [1, getGraphPeriods(range)]);
+
+    res.status(200).json({
+      success: true,
+      dashboard,
+      generatedAt,
+      cacheHit
     });
   })
 };
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { FounderDashboardService } from '../services/founderDashboardService';
+import { catchAsync } from '../utils/catchAsync';
+import AppError from '../utils/AppError';
+import { pickDateRangeOptions } from '../utils/timeUtils';
+
+export const founderDashboardController = {
+  /**
+   * Get the dashboard of the logged-in founder
+   * Accessible by: Founder (own dashboard)
+   */
+  getFounderDashboard: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const founderId = req.userId;
+    const userRole = req.userRole;
+
+    // Only founders can access their own dashboard
+    if (userRole !== 'founder') {
+      return next(new AppError('Only founders can access this endpoint', 403));
+    }
+
+    const dashboard = await FounderDashboardService.getFounderDashboard(founderId!, pickDateRangeOptions(req.query));
+
+    res.status(200).json({
+      success: true,
+      dashboard
+    });
+  })
+};
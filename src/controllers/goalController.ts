@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction } from 'express';
+import { GoalService } from '../services/goalService';
+import { ActivityLogService } from '../services/activityLogService';
+import { catchAsync } from '../utils/catchAsync';
+import { formatMonth } from '../utils/timeUtils';
+
+export const goalController = {
+  /**
+   * List the goals of a founder, optionally only those that apply to a month
+   * Accessible by: Admin (only for assigned founders), Super Admin, Founder (only their own)
+   */
+  getGoals: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const goals = await GoalService.getGoals(req.params.founderId, req.query.month as string | undefined);
+
+    res.status(200).json({
+      success: true,
+      goals
+    });
+  }),
+
+  /**
+   * Set monthly or quarterly targets for a founder
+   * Accessible by: Admin (only for assigned founders), Super Admin
+   */
+  setGoals: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId } = req.params;
+    const { period, startMonth, endMonth, targets, notes } = req.body;
+
+    const goals = await GoalService.setGoals(founderId, req.userId!, {
+      period,
+      startMonth,
+      endMonth,
+      targets,
+      notes
+    });
+
+    // Log the activity
+    await ActivityLogService.logActivity(
+      req.userId!,
+      req.userRole!,
+      'Set Founder Goals',
+      {
+        founderId,
+        period,
+        startMonth,
+        targets,
+        timestamp: new Date()
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Goals saved successfully',
+      goals
+    });
+  }),
+
+  /**
+   * Change the target, end month or notes of a goal
+   * Accessible by: Admin (only for assigned founders), Super Admin
+   */
+  updateGoal: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId, goalId } = req.params;
+    const { target, endMonth, notes } = req.body;
+
+    const goal = await GoalService.updateGoal(founderId, goalId, req.userId!, { target, endMonth, notes });
+
+    res.status(200).json({
+      success: true,
+      message: 'Goal updated successfully',
+      goal
+    });
+  }),
+
+  /**
+   * Delete a goal
+   * Accessible by: Admin (only for assigned founders), Super Admin
+   */
+  deleteGoal: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId, goalId } = req.params;
+
+    const goal = await GoalService.deleteGoal(founderId, goalId);
+
+    // Log the activity
+    await ActivityLogService.logActivity(
+      req.userId!,
+      req.userRole!,
+      'Deleted Founder Goal',
+      {
+        goalId,
+        founderId,
+        metric: goal.metric,
+        period: goal.period,
+        timestamp: new Date()
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Goal deleted successfully'
+    });
+  }),
+
+  /**
+   * Get a founder's progress towards the goals of a month, the current month by default
+   * Accessible by: Admin (only for assigned founders), Super Admin, Founder (only their own)
+   */
+  getProgress: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId } = req.params;
+    const month = (req.query.month as string | undefined) || formatMonth(new Date());
+
+    const [progress] = await GoalService.getProgress([founderId], month);
+
+    res.status(200).json({
+      success: true,
+      progress: progress || { founderId, month, goals: [], attainment: null, behindTarget: false }
+    });
+  })
+};
@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { MediaService } from '../services/mediaService';
+import { catchAsync } from '../utils/catchAsync';
+import AppError from '../utils/AppError';
+
+export const mediaController = {
+  /**
+   * Browse a founder's media library
+   * Accessible by: Admin (only for assigned founders), Super Admin, Founder (only their own)
+   */
+  getFounderMedia: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId } = req.params;
+    const { search, unused, limit = 20, offset = 0 } = req.query;
+
+    const { assets, total } = await MediaService.getFounderMedia(founderId, {
+      search: search as string | undefined,
+      unused: unused === 'true',
+      limit: Number(limit),
+      offset: Number(offset)
+    });
+
+    res.status(200).json({
+      success: true,
+      media: await Promise.all(assets.map(asset => MediaService.withSignedUrls(asset))),
+      total,
+      limit: Number(limit),
+      offset: Number(offset)
+    });
+  }),
+
+  /**
+   * Get a single asset of a founder's media library
+   * Accessible by: Admin (only for assigned founders), Super Admin, Founder (only their own)
+   */
+  getMediaAsset: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId, assetId } = req.params;
+
+    const asset = await MediaService.getAsset(assetId);
+
+    if (asset.founderId.toString() !== founderId) {
+      return next(new AppError('Media asset not found', 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      media: await MediaService.withSignedUrls(asset)
+    });
+  })
+};
@@ -1,61 +1,230 @@
 import { Request, Response, NextFunction } from 'express';
 import { MetricsService } from '../services/metricsService';
+import { MetricsImportService } from '../services/metricsImportService';
+import { MetricsAnomalyService } from '../services/metricsAnomalyService';
+import { MetricsExportService, MetricsExportFormat } from '../services/metricsExportService';
+import { ActivityLogService } from '../services/activityLogService';
 import { AssignmentService } from '../services/assignmentService';
+import { NotificationService } from '../services/notificationService';
 import { catchAsync } from '../utils/catchAsync';
 import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { UserRole } from '../models/User';
+
+/**
+ * Get the founders whose metrics a user may see
+ * @param userId ID of the requesting user
+ * @param userRole Role of the requesting user
+ * @returns User IDs of the founders, or null for super admins, who see every founder
+ */
+const getFounderScope = async (userId: string, userRole: UserRole): Promise<string[] | null> => {
+  if (userRole === 'super-admin') {
+    return null;
+  }
+  if (userRole === 'founder') {
+    return [userId];
+  }
+
+  const assignments = await AssignmentService.getAssignedFounders(userId);
+  return assignments.map(assignment => assignment.founderId.toString());
+};
+
+const isInScope = (scope: string[] | null, founderId: string): boolean => scope === null || scope.includes(founderId);
 
 export const metricsController = {
   /**
    * Upload metrics for a founder
+   * Values far off the founder's trailing history are only saved when resubmitted with confirm=true
    * Accessible by: Admin (for assigned founders), Super Admin
    */
   uploadMetrics: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
     const { founderId } = req.params;
-    const { month, totalPosts, totalImpressions, totalCommentOutreach, notes } = req.body;
+    const {
+      month,
+      totalPosts,
+      totalImpressions,
+      totalCommentOutreach,
+      engagementRate,
+      comments,
+      reactions,
+      followerGrowth,
+      notes,
+      confirm
+    } = req.body;
     const userId = req.userId;
     const userRole = req.userRole;
 
-    // Validate required fields
-    if (!month || totalPosts === undefined || totalImpressions === undefined || totalCommentOutreach === undefined) {
-      return next(new AppError('Please provide month, totalPosts, totalImpressions, and totalCommentOutreach', 400));
+    // Admins can only upload metrics for founders assigned to them
+    if (!isInScope(await getFounderScope(userId!, userRole!), founderId)) {
+      return next(new AppError('You can only upload metrics for founders assigned to you', 403));
     }
 
-    // Validate month format (YYYY-MM)
-    if (!/^\d{4}-\d{2}$/.test(month)) {
-      return next(new AppError('Month must be in format YYYY-MM', 400));
-    }
+    const data = {
+      totalPosts: Number(totalPosts),
+      totalImpressions: Number(totalImpressions),
+      totalCommentOutreach: Number(totalCommentOutreach),
+      engagementRate: engagementRate !== undefined ? Number(engagementRate) : undefined,
+      comments: comments !== undefined ? Number(comments) : undefined,
+      reactions: reactions !== undefined ? Number(reactions) : undefined,
+      followerGrowth: followerGrowth !== undefined ? Number(followerGrowth) : undefined,
+      notes
+    };
 
-    // Check permissions for admin users
-    if (userRole === 'admin') {
-      // Get all founders assigned to this admin
-      const assignments = await AssignmentService.getAssignedFounders(userId!);
-      const assignedFounderIds = assignments.map(assignment => assignment.founderId.toString());
-      
-      // Check if the founder is assigned to this admin
-      if (!assignedFounderIds.includes(founderId)) {
-        return next(new AppError('You can only upload metrics for founders assigned to you', 403));
-      }
+    // Outliers are usually typos, so they need an explicit second submission
+    const [anomalies] = await MetricsAnomalyService.detectAnomalies([{ founderId, month, data }]);
+
+    if (anomalies.length > 0 && String(confirm) !== 'true') {
+      return res.status(409).json({
+        success: false,
+        requiresConfirmation: true,
+        message: 'Some values are far off this founder\'s recent history. Check them and resubmit with confirm: true to save.',
+        anomalies
+      });
     }
 
     // Upload metrics
-    const metrics = await MetricsService.uploadMetrics(
-      founderId,
-      userId!,
-      month,
-      {
-        totalPosts: Number(totalPosts),
-        totalImpressions: Number(totalImpressions),
-        totalCommentOutreach: Number(totalCommentOutreach),
-        notes
-      }
-    );
+    const metrics = await MetricsService.uploadMetrics(founderId, userId!, month, data);
+
+    if (anomalies.length > 0) {
+      await ActivityLogService.logActivity(
+        userId!,
+        userRole!,
+        'Accepted Metrics Outlier',
+        {
+          founderId,
+          month,
+          metricsId: metrics._id,
+          anomalies,
+          timestamp: new Date()
+        }
+      );
+    }
+
+    await NotificationService.notifyMetricsUploaded(metrics, userId!);
 
     res.status(200).json({
       success: true,
-      metrics
+      metrics,
+      anomalies
     });
   }),
 
+  /**
+   * Import metrics of many founders and months from a CSV or XLSX file
+   * With dryRun=true nothing is saved and the report previews every row
+   * Accessible by: Admin (for assigned founders), Super Admin
+   */
+  importMetrics: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.file) {
+      return next(new AppError('Please upload a CSV or XLSX file', 400));
+    }
+
+    const dryRun = req.query.dryRun === 'true';
+    const confirm = req.query.confirm === 'true';
+
+    const report = await MetricsImportService.importMetrics(req.file, req.userId!, req.userRole!, dryRun, confirm);
+
+    if (report.applied) {
+      // Log the activity
+      await ActivityLogService.logActivity(
+        req.userId!,
+        req.userRole!,
+        'Imported Metrics',
+        {
+          fileName: req.file.originalname,
+          rows: report.totalRows,
+          created: report.created,
+          updated: report.updated,
+          timestamp: new Date()
+        }
+      );
+
+      for (const row of report.rows.filter(row => row.anomalies.length > 0)) {
+        await ActivityLogService.logActivity(
+          req.userId!,
+          req.userRole!,
+          'Accepted Metrics Outlier',
+          {
+            founderId: row.founderId,
+            month: row.month,
+            fileName: req.file.originalname,
+            row: row.row,
+            anomalies: row.anomalies,
+            timestamp: new Date()
+          }
+        );
+      }
+    }
+
+    // A real import with failing or unconfirmed rows applies nothing
+    const failed = !dryRun && !report.applied;
+    const unconfirmed = failed && report.validRows === report.totalRows && report.requiresConfirmation;
+
+    res.status(unconfirmed ? 409 : failed ? 422 : 200).json({
+      success: !failed,
+      message: dryRun
+        ? 'Import preview generated'
+        : unconfirmed
+          ? `No metrics were imported because ${report.anomalyRows} rows have values far off the founder's recent history. Check them and import again with confirm=true.`
+          : failed
+            ? 'No metrics were imported because some rows have errors'
+            : `Imported ${report.totalRows} metrics rows`,
+      report
+    });
+  }),
+
+  /**
+   * Download metrics as CSV, XLSX or JSON, optionally for one founder and a month range
+   * Accessible by: Admin (for assigned founders), Super Admin, Founder (own metrics)
+   */
+  exportMetrics: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const format = (req.query.format as MetricsExportFormat) || 'csv';
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const founderId = req.query.founderId as string | undefined;
+
+    let founderIds = await getFounderScope(req.userId!, req.userRole!);
+
+    if (founderId) {
+      if (!isInScope(founderIds, founderId)) {
+        return next(new AppError('You can only export metrics for founders assigned to you', 403));
+      }
+      founderIds = [founderId];
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', MetricsExportService.getContentType(format));
+    res.setHeader('Content-Disposition', `attachment; filename="${MetricsExportService.getFileName(format, { from, to })}"`);
+
+    let rows: number;
+    try {
+      rows = await MetricsExportService.exportMetrics(res, format, { founderIds, from, to });
+    } catch (error) {
+      // Once streaming has started the error handler can no longer send a response
+      if (!res.headersSent) {
+        throw error;
+      }
+      logger.error('Metrics export failed while streaming', { error, userId: req.userId });
+      res.destroy(error as Error);
+      return;
+    }
+
+    // Log the activity
+    await ActivityLogService.logActivity(
+      req.userId!,
+      req.userRole!,
+      'Exported Metrics',
+      {
+        format,
+        from,
+        to,
+        founderId,
+        rows,
+        timestamp: new Date()
+      }
+    );
+  }),
+
   /**
    * Get metrics for a specific founder
    * Accessible by: Admin (for assigned founders), Super Admin, Founder (own metrics)
@@ -65,21 +234,14 @@ export const metricsController = {
     const userId = req.userId;
     const userRole = req.userRole;
 
-    // Check permissions
-    if (userRole === 'founder') {
-      // Founders can only view their own metrics
-      const founder = await AssignmentService.getFounderByUserId(userId!);
-      if (!founder || founder.userId.toString() !== founderId) {
-        return next(new AppError('You can only view your own metrics', 403));
-      }
-    } else if (userRole === 'admin') {
-      // Admins can only view metrics for founders assigned to them
-      const assignments = await AssignmentService.getAssignedFounders(userId!);
-      const assignedFounderIds = assignments.map(assignment => assignment.founderId.toString());
-      
-      if (!assignedFounderIds.includes(founderId)) {
-        return next(new AppError('You can only view metrics for founders assigned to you', 403));
-      }
+    // Founders can only view their own metrics, admins those of founders assigned to them
+    if (!isInScope(await getFounderScope(userId!, userRole!), founderId)) {
+      return next(new AppError(
+        userRole === 'founder'
+          ? 'You can only view your own metrics'
+          : 'You can only view metrics for founders assigned to you',
+        403
+      ));
     }
 
     const metrics = await MetricsService.getFounderMetrics(founderId);
@@ -104,21 +266,14 @@ export const metricsController = {
       return next(new AppError('Month must be in format YYYY-MM', 400));
     }
 
-    // Check permissions
-    if (userRole === 'founder') {
-      // Founders can only view their own metrics
-      const founder = await AssignmentService.getFounderByUserId(userId!);
-      if (!founder || founder._id.toString() !== founderId) {
-        return next(new AppError('You can only view your own metrics', 403));
-      }
-    } else if (userRole === 'admin') {
-      // Admins can only view metrics for founders assigned to them
-      const assignments = await AssignmentService.getAssignedFounders(userId!);
-      const assignedFounderIds = assignments.map(assignment => assignment.founderId.toString());
-      
-      if (!assignedFounderIds.includes(founderId)) {
-        return next(new AppError('You can only view metrics for founders assigned to you', 403));
-      }
+    // Founders can only view their own metrics, admins those of founders assigned to them
+    if (!isInScope(await getFounderScope(userId!, userRole!), founderId)) {
+      return next(new AppError(
+        userRole === 'founder'
+          ? 'You can only view your own metrics'
+          : 'You can only view metrics for founders assigned to you',
+        403
+      ));
     }
 
     const metrics = await MetricsService.getFounderMonthlyMetrics(founderId, month);
@@ -147,10 +302,9 @@ export const metricsController = {
     }
 
     // Get all founders assigned to this admin
-    const assignments = await AssignmentService.getAssignedFounders(adminId!);
-    const founderIds = assignments.map(assignment => assignment.founderId.toString());
+    const founderIds = await getFounderScope(adminId!, userRole);
 
-    const metrics = await MetricsService.getAdminMetrics(adminId!, founderIds);
+    const metrics = await MetricsService.getAdminMetrics(adminId!, founderIds!);
 
     res.status(200).json({
       success: true,
@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from 'express';
+import { NotesService } from '../services/notesService';
+import { ActivityLogService } from '../services/activityLogService';
+import { catchAsync } from '../utils/catchAsync';
+
+export const notesController = {
+  /**
+   * Add a note to a founder
+   * Accessible by: Admin (only for assigned founders), Super Admin
+   */
+  createNote: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId } = req.params;
+    const { content, tags, pinned, visibility } = req.body;
+
+    const note = await NotesService.createNote(founderId, req.userId!, {
+      content,
+      tags,
+      pinned,
+      visibility
+    });
+
+    // Log the activity
+    await ActivityLogService.logActivity(
+      req.userId!,
+      req.userRole!,
+      'Added Founder Note',
+      {
+        noteId: note.id,
+        founderId,
+        visibility: note.visibility,
+        timestamp: new Date()
+      }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Note added successfully',
+      note
+    });
+  }),
+
+  /**
+   * List and search the notes of a founder
+   * Accessible by: Admin (only for assigned founders), Super Admin, Founder (only shared notes)
+   */
+  getNotes: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId } = req.params;
+    const { search, tag, pinned, visibility, limit = 20, offset = 0 } = req.query;
+
+    const { notes, total } = await NotesService.getNotes(founderId, req.userRole!, {
+      search: search as string | undefined,
+      tag: tag as string | undefined,
+      pinned: pinned === undefined ? undefined : pinned === 'true',
+      visibility: visibility as any,
+      limit: Number(limit),
+      offset: Number(offset)
+    });
+
+    res.status(200).json({
+      success: true,
+      notes,
+      total,
+      limit: Number(limit),
+      offset: Number(offset)
+    });
+  }),
+
+  /**
+   * Get the tags used on a founder's notes
+   * Accessible by: Admin (only for assigned founders), Super Admin, Founder (only shared notes)
+   */
+  getNoteTags: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const tags = await NotesService.getTags(req.params.founderId, req.userRole!);
+
+    res.status(200).json({
+      success: true,
+      tags
+    });
+  }),
+
+  /**
+   * Get a single note of a founder
+   * Accessible by: Admin (only for assigned founders), Super Admin, Founder (only shared notes)
+   */
+  getNote: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId, noteId } = req.params;
+
+    const note = await NotesService.getNote(founderId, noteId, req.userRole!);
+
+    res.status(200).json({
+      success: true,
+      note
+    });
+  }),
+
+  /**
+   * Edit a note
+   * Accessible by: Admin (only their own notes), Super Admin
+   */
+  updateNote: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId, noteId } = req.params;
+    const { content, tags, visibility } = req.body;
+
+    const note = await NotesService.updateNote(founderId, noteId, req.userId!, req.userRole!, {
+      content,
+      tags,
+      visibility
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Note updated successfully',
+      note
+    });
+  }),
+
+  /**
+   * Pin a note to the top of the founder's notes
+   * Accessible by: Admin (only for assigned founders), Super Admin
+   */
+  pinNote: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId, noteId } = req.params;
+
+    const note = await NotesService.setPinned(founderId, noteId, req.userRole!, true);
+
+    res.status(200).json({
+      success: true,
+      message: 'Note pinned successfully',
+      note
+    });
+  }),
+
+  /**
+   * Unpin a note
+   * Accessible by: Admin (only for assigned founders), Super Admin
+   */
+  unpinNote: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId, noteId } = req.params;
+
+    const note = await NotesService.setPinned(founderId, noteId, req.userRole!, false);
+
+    res.status(200).json({
+      success: true,
+      message: 'Note unpinned successfully',
+      note
+    });
+  }),
+
+  /**
+   * Delete a note
+   * Accessible by: Admin (only their own notes), Super Admin
+   */
+  deleteNote: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId, noteId } = req.params;
+
+    await NotesService.deleteNote(founderId, noteId, req.userId!, req.userRole!);
+
+    // Log the activity
+    await ActivityLogService.logActivity(
+      req.userId!,
+      req.userRole!,
+      'Deleted Founder Note',
+      {
+        noteId,
+        founderId,
+        timestamp: new Date()
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Note deleted successfully'
+    });
+  })
+};
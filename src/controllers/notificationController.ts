@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from 'express';
+import { NotificationService } from '../services/notificationService';
+import { catchAsync } from '../utils/catchAsync';
+
+export const notificationController = {
+  /**
+   * Get notifications of the logged-in user
+   * Accessible by: All authenticated users (own notifications)
+   */
+  getNotifications: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { unread, limit = 20, offset = 0 } = req.query;
+
+    const { notifications, total } = await NotificationService.getNotifications(
+      req.userId!,
+      unread === 'true',
+      Number(limit),
+      Number(offset)
+    );
+
+    res.status(200).json({
+      success: true,
+      notifications,
+      total,
+      limit: Number(limit),
+      offset: Number(offset)
+    });
+  }),
+
+  /**
+   * Get the number of unread notifications
+   * Accessible by: All authenticated users (own notifications)
+   */
+  getUnreadCount: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const count = await NotificationService.getUnreadCount(req.userId!);
+
+    res.status(200).json({
+      success: true,
+      count
+    });
+  }),
+
+  /**
+   * Mark a notification as read
+   * Accessible by: All authenticated users (own notifications)
+   */
+  markAsRead: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const notification = await NotificationService.markAsRead(req.userId!, req.params.notificationId);
+
+    res.status(200).json({
+      success: true,
+      notification
+    });
+  }),
+
+  /**
+   * Mark all notifications as read
+   * Accessible by: All authenticated users (own notifications)
+   */
+  markAllAsRead: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const updated = await NotificationService.markAllAsRead(req.userId!);
+
+    res.status(200).json({
+      success: true,
+      updated
+    });
+  }),
+
+  /**
+   * Get notification preferences
+   * Accessible by: All authenticated users (own preferences)
+   */
+  getPreferences: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const preferences = await NotificationService.getPreferences(req.userId!);
+
+    res.status(200).json({
+      success: true,
+      preferences
+    });
+  }),
+
+  /**
+   * Update notification preferences
+   * Accessible by: All authenticated users (own preferences)
+   */
+  updatePreferences: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { mutedTypes, emailDelivery, emailMutedTypes } = req.body;
+
+    const preferences = await NotificationService.updatePreferences(req.userId!, {
+      mutedTypes,
+      emailDelivery,
+      emailMutedTypes
+    });
+
+    res.status(200).json({
+      success: true,
+      preferences
+    });
+  })
+};
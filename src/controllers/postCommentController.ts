@@ -0,0 +1,146 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '../utils/catchAsync';
+import { PostService } from '../services/postService';
+import { PostCommentService } from '../services/postCommentService';
+import { ActivityLogService } from '../services/activityLogService';
+
+/**
+ * Get comment threads of a post
+ * GET /posts/:id/comments
+ */
+export const getPostComments = catchAsync(async (req: Request, res: Response) => {
+  const post = await PostService.getAccessiblePost(req.params.id, req.userId!, req.userRole!);
+
+  const { resolved } = req.query;
+  const threads = await PostCommentService.getThreads(
+    post.id,
+    resolved === undefined ? undefined : resolved === 'true'
+  );
+
+  res.status(200).json({
+    success: true,
+    comments: threads
+  });
+});
+
+/**
+ * Add a comment or reply to a post
+ * POST /posts/:id/comments
+ */
+export const addPostComment = catchAsync(async (req: Request, res: Response) => {
+  const post = await PostService.getAccessiblePost(req.params.id, req.userId!, req.userRole!);
+  const { body, imageIndex, parentId } = req.body;
+
+  const comment = await PostCommentService.addComment(
+    post,
+    req.userId!,
+    req.userRole!,
+    {
+      body,
+      imageIndex: imageIndex !== undefined ? Number(imageIndex) : undefined,
+      parentId
+    }
+  );
+
+  // Log the activity
+  await ActivityLogService.logActivity(
+    req.userId!,
+    req.userRole!,
+    parentId ? 'Replied to Post Comment' : 'Commented on Post',
+    {
+      postId: post.id,
+      commentId: comment.id,
+      founderId: post.founderId,
+      timestamp: new Date()
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: 'Comment added successfully',
+    comment
+  });
+});
+
+/**
+ * Edit a comment
+ * PATCH /posts/:id/comments/:commentId
+ */
+export const editPostComment = catchAsync(async (req: Request, res: Response) => {
+  const post = await PostService.getAccessiblePost(req.params.id, req.userId!, req.userRole!);
+
+  const comment = await PostCommentService.editComment(
+    post.id,
+    req.params.commentId,
+    req.userId!,
+    req.body.body
+  );
+
+  res.status(200).json({
+    success: true,
+    message: 'Comment updated successfully',
+    comment
+  });
+});
+
+/**
+ * Resolve a comment thread
+ * PATCH /posts/:id/comments/:commentId/resolve
+ */
+export const resolvePostComment = catchAsync(async (req: Request, res: Response) => {
+  const post = await PostService.getAccessiblePost(req.params.id, req.userId!, req.userRole!);
+
+  const comment = await PostCommentService.setResolved(
+    post.id,
+    req.params.commentId,
+    req.userId!,
+    true
+  );
+
+  res.status(200).json({
+    success: true,
+    message: 'Comment resolved successfully',
+    comment
+  });
+});
+
+/**
+ * Reopen a resolved comment thread
+ * PATCH /posts/:id/comments/:commentId/unresolve
+ */
+export const unresolvePostComment = catchAsync(async (req: Request, res: Response) => {
+  const post = await PostService.getAccessiblePost(req.params.id, req.userId!, req.userRole!);
+
+  const comment = await PostCommentService.setResolved(
+    post.id,
+    req.params.commentId,
+    req.userId!,
+    false
+  );
+
+  res.status(200).json({
+    success: true,
+    message: 'Comment reopened successfully',
+    comment
+  });
+});
+
+/**
+ * Delete a comment and its replies
+ * DELETE /posts/:id/comments/:commentId
+ */
+export const deletePostComment = catchAsync(async (req: Request, res: Response) => {
+  const post = await PostService.getAccessiblePost(req.params.id, req.userId!, req.userRole!);
+
+  await PostCommentService.deleteComment(
+    post.id,
+    req.params.commentId,
+    req.userId!,
+    req.userRole!
+  );
+
+  res.status(200).json({
+    success: true,
+    message: 'Comment deleted successfully'
+  });
+});
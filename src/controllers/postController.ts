@@ -5,6 +5,11 @@ import AppError from '../utils/AppError';
 import { ActivityLogService } from '../services/activityLogService';
 import { AssignmentService } from '../services/assignmentService';
 import { FounderService } from '../services/founderService';
+import { PostCommentService } from '../services/postCommentService';
+import { PostRevisionService } from '../services/postRevisionService';
+import { NotificationService } from '../services/notificationService';
+import { CalendarService } from '../services/calendarService';
+import { formatDayInTimeZone } from '../utils/timeUtils';
 
 /**
  * Get posts with optional filtering
@@ -21,54 +26,11 @@ export const getPosts = catchAsync(async (req: Request, res: Response) => {
     offset = 0
   } = req.query;
 
-  const filters: any = {};
-  
-  // Handle different user roles
-  if (req.userRole === 'admin') {
-    // If founderId is provided, check if admin is assigned to this founder
-    if (founderId) {
-      const isAssigned = await AssignmentService.isAdminAssignedToFounder(
-        req.userId!,
-        founderId as string
-      );
-      
-      if (!isAssigned) {
-        throw new AppError('You are not assigned to this founder', 403);
-      }
-      filters.founderId = founderId;
-    }
-    
-    // For admins, only show posts they created or for founders assigned to them
-    if (adminId) {
-      // Admin can only filter by their own adminId
-      if (adminId !== req.userId) {
-        throw new AppError('You can only filter by your own admin ID', 403);
-      }
-      filters.adminId = adminId;
-    } else {
-      // If no adminId provided, default to current admin
-      filters.adminId = req.userId;
-    }
-  } else if (req.userRole === 'founder') {
-    // Founders can only see their own posts
-    const founder = await FounderService.getFounderByUserId(req.userId!);
-    
-    if (!founder) {
-      throw new AppError('Founder profile not found', 404);
-    }
-    
-    // Set filter to only show posts for this founder
-    filters.founderId = founder.userId;
-    
-    // If specific founderId was requested, verify it matches the logged-in founder
-    if (founderId && founder.userId.toString() !== founderId) {
-      throw new AppError('You can only view your own posts', 403);
-    }
-  } else if (req.userRole === 'super-admin') {
-    // Super admins can see all posts or filter by specific founder/admin
-    if (founderId) filters.founderId = founderId;
-    if (adminId) filters.adminId = adminId;
-  }
+  // Limit the listing to what the user's role may see
+  const filters: any = await PostService.getScopeFilters(req.userId!, req.userRole!, {
+    founderId: founderId as string | undefined,
+    adminId: adminId as string | undefined
+  });
   
   // Apply status filter if provided
   if (status) {
@@ -93,7 +55,7 @@ export const getPosts = catchAsync(async (req: Request, res: Response) => {
 
   res.status(200).json({
     success: true,
-    posts,
+    posts: await Promise.all(posts.map(post => PostService.withSignedImages(post))),
     total,
     limit: Number(limit),
     offset: Number(offset)
@@ -119,20 +81,17 @@ export const createPost = catchAsync(async (req: Request, res: Response) => {
     }
   }
   
-  // Determine initial status based on scheduled date
-  const status = scheduledDate ? 'scheduled' : 'pending';
-  
-  // Create the post
+  // Create the post - new posts always start as pending until the founder approves them
   const post = await PostService.createPost({
     founderId,
     adminId: req.userId!,
+    createdByRole: req.userRole!,
     caption,
     images: images || [], // Default to empty array if not provided
-    scheduledDate,
-    status
+    scheduledDate
   });
   
-  console.log(`Post created with ID: ${post._id}, status: ${status}${scheduledDate ? ', scheduled for: ' + new Date(scheduledDate).toISOString() : ''}`);
+  console.log(`Post created with ID: ${post._id}, status: ${post.status}${scheduledDate ? ', scheduled for: ' + new Date(scheduledDate).toISOString() : ''}`);
 
   
   // Log the activity
@@ -147,10 +106,13 @@ export const createPost = catchAsync(async (req: Request, res: Response) => {
     }
   );
   
+  // Let the founder know a new draft is waiting
+  await NotificationService.notifyPostCreated(post, req.userId!);
+  
   res.status(201).json({
     success: true,
     message: 'Post created successfully',
-    post
+    post: await PostService.withSignedImages(post)
   });
 });
 
@@ -186,7 +148,7 @@ export const getPostById = catchAsync(async (req: Request, res: Response) => {
   
   res.status(200).json({
     success: true,
-    post
+    post: await PostService.withSignedImages(post)
   });
 });
 
@@ -213,20 +175,24 @@ export const updatePost = catchAsync(async (req: Request, res: Response) => {
     if (existingPost.adminId.toString() !== req.userId) {
       throw new AppError('You are not authorized to update this post', 403);
     }
-    
-    // Admins can't change status to approved or rejected
-    if (updateData.status && ['approved', 'rejected'].includes(updateData.status)) {
-      throw new AppError('Admins cannot approve or reject posts', 403);
-    }
   }
   
-  // If scheduledDate is provided, set status to scheduled
-  if (updateData.scheduledDate && updateData.status !== 'rejected') {
-    updateData.status = 'scheduled';
-  }
+  // Status changes must go through the post lifecycle
+  const { status, ...contentData } = updateData;
+  
+  // Setting a date on an approved post schedules it
+  const targetStatus = status
+    || (contentData.scheduledDate && existingPost.status === 'approved' ? 'scheduled' : undefined);
   
-  // Update the post
-  const updatedPost = await PostService.updatePost(id, updateData);
+  const updatedPost = targetStatus && targetStatus !== existingPost.status
+    ? await PostService.transitionStatus(
+        id,
+        targetStatus,
+        { userId: req.userId!, role: req.userRole! },
+        undefined,
+        contentData
+      )
+    : await PostService.updatePost(id, contentData, { userId: req.userId!, role: req.userRole! });
   
   // Log the activity
   await ActivityLogService.logActivity(
@@ -243,7 +209,7 @@ export const updatePost = catchAsync(async (req: Request, res: Response) => {
   res.status(200).json({
     success: true,
     message: 'Post updated successfully',
-    post: updatedPost
+    post: await PostService.withSignedImages(updatedPost)
   });
 });
 
@@ -269,8 +235,10 @@ export const deletePost = catchAsync(async (req: Request, res: Response) => {
     }
   }
   
-  // Delete the post
+  // Delete the post with its comments and revisions
   await PostService.deletePost(id);
+  await PostCommentService.deletePostComments(id);
+  await PostRevisionService.deletePostRevisions(id);
   
   // Log the activity
   await ActivityLogService.logActivity(
@@ -296,12 +264,7 @@ export const deletePost = catchAsync(async (req: Request, res: Response) => {
  */
 export const updatePostStatus = catchAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { status, feedback } = req.body;
-  
-  // Validate status
-  if (!['approved', 'rejected', 'posted'].includes(status)) {
-    throw new AppError('Invalid status. Must be approved, rejected, or posted', 400);
-  }
+  const { status, feedback, reason, scheduledDate } = req.body;
   
   // If status is rejected, feedback is required
   if (status === 'rejected' && !feedback) {
@@ -315,7 +278,8 @@ export const updatePostStatus = catchAsync(async (req: Request, res: Response) =
     throw new AppError('Post not found', 404);
   }
   
-  // Check if founder is authorized to update this post's status
+  // Check if the user is authorized to update this post's status.
+  // Which role may perform which transition is enforced by PostService.
   if (req.userRole === 'founder') {
     // Founder can only update posts assigned to them
     const founder = await FounderService.getFounderByUserId(req.userId!);
@@ -328,18 +292,34 @@ export const updatePostStatus = catchAsync(async (req: Request, res: Response) =
     if (existingPost.founderId.toString() !== founder.userId.toString()) {
       throw new AppError('You are not authorized to update this post', 403);
     }
-  } else if (req.userRole !== 'super-admin') {
-    // Only founders and super-admins can update post status
-    throw new AppError('Only founders can approve or reject posts', 403);
+  } else if (req.userRole === 'admin') {
+    // Admin can only update posts they created
+    if (existingPost.adminId.toString() !== req.userId) {
+      throw new AppError('You are not authorized to update this post', 403);
+    }
   }
   
-  // Update the post status and feedback if provided
-  const updateData: any = { status };
+  // Update the post status and feedback/date if provided
+  const updateData: any = {};
   if (feedback) {
     updateData.feedback = feedback;
   }
+  if (scheduledDate) {
+    updateData.scheduledDate = scheduledDate;
+  }
+  
+  const updatedPost = await PostService.transitionStatus(
+    id,
+    status,
+    { userId: req.userId!, role: req.userRole! },
+    reason || feedback,
+    updateData
+  );
   
-  const updatedPost = await PostService.updatePost(id, updateData);
+  // Keep the feedback in the post's conversation
+  if (feedback) {
+    await PostCommentService.addComment(existingPost, req.userId!, req.userRole!, { body: feedback });
+  }
   
   // Log the activity
   await ActivityLogService.logActivity(
@@ -349,14 +329,99 @@ export const updatePostStatus = catchAsync(async (req: Request, res: Response) =
     {
       postId: id,
       founderId: existingPost.founderId,
+      from: existingPost.status,
       timestamp: new Date()
     }
   );
   
+  await NotificationService.notifyPostStatusChanged(existingPost, status, req.userId!, feedback);
+  
   res.status(200).json({
     success: true,
     message: `Post ${status} successfully`,
-    post: updatedPost
+    post: await PostService.withSignedImages(updatedPost)
+  });
+});
+
+/**
+ * Move a post to a new date, e.g. by dragging it in the content calendar
+ * PATCH /posts/:id/schedule
+ */
+export const reschedulePost = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { scheduledDate, tz = 'UTC' } = req.body;
+  
+  // Get the post to check permissions
+  const existingPost = await PostService.getPostById(id);
+  
+  if (!existingPost) {
+    throw new AppError('Post not found', 404);
+  }
+  
+  // Check if admin is authorized to reschedule this post
+  if (req.userRole === 'admin') {
+    // Admin can only reschedule posts they created
+    if (existingPost.adminId.toString() !== req.userId) {
+      throw new AppError('You are not authorized to update this post', 403);
+    }
+  }
+  
+  const updatedPost = await PostService.reschedulePost(
+    id,
+    scheduledDate,
+    { userId: req.userId!, role: req.userRole! }
+  );
+  
+  // Other posts of the founder on the same day are reported, not blocked
+  const conflicts = await CalendarService.findConflicts(
+    existingPost.founderId.toString(),
+    new Date(scheduledDate),
+    tz,
+    id
+  );
+  const warnings = conflicts.length > 0
+    ? [`${conflicts.length} other post${conflicts.length === 1 ? ' is' : 's are'} planned for this founder on ${formatDayInTimeZone(new Date(scheduledDate), tz)}`]
+    : [];
+  
+  // Log the activity
+  await ActivityLogService.logActivity(
+    req.userId!,
+    req.userRole!,
+    'Rescheduled Post',
+    {
+      postId: id,
+      founderId: existingPost.founderId,
+      from: existingPost.scheduledDate,
+      to: updatedPost.scheduledDate,
+      conflicts: conflicts.length,
+      timestamp: new Date()
+    }
+  );
+  
+  res.status(200).json({
+    success: true,
+    message: 'Post rescheduled successfully',
+    post: await PostService.withSignedImages(updatedPost),
+    conflicts,
+    warnings
+  });
+});
+
+/**
+ * Get the status history of a post
+ * GET /posts/:id/history
+ */
+export const getPostHistory = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  
+  const post = await PostService.getAccessiblePost(id, req.userId!, req.userRole!);
+  
+  const history = await PostService.getStatusHistory(id);
+  
+  res.status(200).json({
+    success: true,
+    status: post.status,
+    history
   });
 });
 
@@ -394,8 +459,9 @@ export const addPostFeedback = catchAsync(async (req: Request, res: Response) =>
     }
   }
   
-  // Update the post with the feedback
+  // Update the post with the latest feedback and add it to the conversation
   const updatedPost = await PostService.updatePost(id, { feedback });
+  await PostCommentService.addComment(existingPost, req.userId!, req.userRole!, { body: feedback });
   
   // Log the activity
   await ActivityLogService.logActivity(
@@ -409,10 +475,12 @@ export const addPostFeedback = catchAsync(async (req: Request, res: Response) =>
     }
   );
   
+  await NotificationService.notifyPostFeedback(existingPost, feedback, req.userId!);
+  
   res.status(200).json({
     success: true,
     message: 'Feedback added successfully',
-    post: updatedPost
+    post: await PostService.withSignedImages(updatedPost)
   });
 });
 
@@ -461,7 +529,11 @@ export const updatePostImages = catchAsync(async (req: Request, res: Response) =
   }
   
   // Update the post with the new images
-  const updatedPost = await PostService.updatePost(id, { images });
+  const updatedPost = await PostService.updatePost(
+    id,
+    { images },
+    { userId: req.userId!, role: req.userRole! }
+  );
   
   // Log the activity
   await ActivityLogService.logActivity(
@@ -478,6 +550,6 @@ export const updatePostImages = catchAsync(async (req: Request, res: Response) =
   res.status(200).json({
     success: true,
     message: 'Post images updated successfully',
-    post: updatedPost
+    post: await PostService.withSignedImages(updatedPost)
   });
 });
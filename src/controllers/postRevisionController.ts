@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '../utils/catchAsync';
+import AppError from '../utils/AppError';
+import { PostService } from '../services/postService';
+import { PostRevisionService } from '../services/postRevisionService';
+import { ActivityLogService } from '../services/activityLogService';
+import { StorageService } from '../services/storageService';
+
+/**
+ * Get all revisions of a post
+ * GET /posts/:id/revisions
+ */
+export const getPostRevisions = catchAsync(async (req: Request, res: Response) => {
+  const post = await PostService.getAccessiblePost(req.params.id, req.userId!, req.userRole!);
+
+  const revisions = await PostRevisionService.getRevisions(post.id);
+
+  res.status(200).json({
+    success: true,
+    revisions: await Promise.all(revisions.map(revision => PostService.withSignedImages(revision)))
+  });
+});
+
+/**
+ * Get a word-level diff between two revisions of a post
+ * GET /posts/:id/revisions/diff?from=1&to=2
+ */
+export const getPostRevisionDiff = catchAsync(async (req: Request, res: Response) => {
+  const post = await PostService.getAccessiblePost(req.params.id, req.userId!, req.userRole!);
+
+  const diff = await PostRevisionService.diffRevisions(
+    post.id,
+    Number(req.query.from),
+    Number(req.query.to)
+  );
+
+  res.status(200).json({
+    success: true,
+    diff: {
+      ...diff,
+      images: {
+        added: await StorageService.getSignedUrls(diff.images.added),
+        removed: await StorageService.getSignedUrls(diff.images.removed)
+      }
+    }
+  });
+});
+
+/**
+ * Get a specific revision of a post
+ * GET /posts/:id/revisions/:rev
+ */
+export const getPostRevision = catchAsync(async (req: Request, res: Response) => {
+  const post = await PostService.getAccessiblePost(req.params.id, req.userId!, req.userRole!);
+
+  const revision = await PostRevisionService.getRevision(post.id, Number(req.params.rev));
+
+  res.status(200).json({
+    success: true,
+    revision: await PostService.withSignedImages(revision)
+  });
+});
+
+/**
+ * Restore the content of a post from a revision
+ * POST /posts/:id/revisions/:rev/restore
+ */
+export const restorePostRevision = catchAsync(async (req: Request, res: Response) => {
+  const { id, rev } = req.params;
+
+  const existingPost = await PostService.getPostById(id);
+
+  if (!existingPost) {
+    throw new AppError('Post not found', 404);
+  }
+
+  // Same rules as editing a post: admins can only restore posts they created
+  if (req.userRole === 'admin') {
+    if (existingPost.adminId.toString() !== req.userId) {
+      throw new AppError('You are not authorized to update this post', 403);
+    }
+  } else if (req.userRole !== 'super-admin') {
+    throw new AppError('Only admins can restore post revisions', 403);
+  }
+
+  const post = await PostService.restoreRevision(
+    id,
+    Number(rev),
+    { userId: req.userId!, role: req.userRole! }
+  );
+
+  // Log the activity
+  await ActivityLogService.logActivity(
+    req.userId!,
+    req.userRole!,
+    'Restored Post Revision',
+    {
+      postId: id,
+      founderId: existingPost.founderId,
+      revision: Number(rev),
+      timestamp: new Date()
+    }
+  );
+
+  res.status(200).json({
+    success: true,
+    message: `Post restored to revision ${rev}`,
+    post: await PostService.withSignedImages(post)
+  });
+});
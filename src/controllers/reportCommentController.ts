@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '../utils/catchAsync';
+import { ReportService } from '../services/reportService';
+import { ReportCommentService } from '../services/reportCommentService';
+import { NotificationService } from '../services/notificationService';
+import { ActivityLogService } from '../services/activityLogService';
+
+/**
+ * Get the discussion threads of a report
+ * GET /reports/:reportId/comments
+ */
+export const getReportComments = catchAsync(async (req: Request, res: Response) => {
+  const report = await ReportService.getAccessibleReport(req.params.reportId, req.userId!, req.userRole!);
+
+  const { resolved } = req.query;
+  const threads = await ReportCommentService.getThreads(
+    report.id,
+    resolved === undefined ? undefined : resolved === 'true'
+  );
+
+  res.status(200).json({
+    success: true,
+    comments: threads
+  });
+});
+
+/**
+ * Ask a question about a report, or reply in a thread
+ * POST /reports/:reportId/comments
+ */
+export const addReportComment = catchAsync(async (req: Request, res: Response) => {
+  const report = await ReportService.getAccessibleReport(req.params.reportId, req.userId!, req.userRole!);
+  const { body, parentId } = req.body;
+
+  const comment = await ReportCommentService.addComment(
+    report,
+    req.userId!,
+    req.userRole!,
+    { body, parentId }
+  );
+
+  // Founders' questions go to the admins behind the report, everyone else's answers to the founder
+  const recipientIds = req.userRole === 'founder'
+    ? await ReportService.getReportAdminIds(report)
+    : [report.founderId.toString()];
+  await NotificationService.notifyReportComment(report, recipientIds, comment.body, req.userId!);
+
+  // Log the activity
+  await ActivityLogService.logActivity(
+    req.userId!,
+    req.userRole!,
+    parentId ? 'Replied to Report Comment' : 'Commented on Report',
+    {
+      reportId: report.id,
+      commentId: comment.id,
+      founderId: report.founderId.toString(),
+      month: report.month,
+      timestamp: new Date()
+    }
+  );
+
+  res.status(201).json({
+    success: true,
+    message: 'Comment added successfully',
+    comment
+  });
+});
+
+/**
+ * Edit a comment
+ * PATCH /reports/:reportId/comments/:commentId
+ */
+export const editReportComment = catchAsync(async (req: Request, res: Response) => {
+  const report = await ReportService.getAccessibleReport(req.params.reportId, req.userId!, req.userRole!);
+
+  const comment = await ReportCommentService.editComment(
+    report.id,
+    req.params.commentId,
+    req.userId!,
+    req.body.body
+  );
+
+  res.status(200).json({
+    success: true,
+    message: 'Comment updated successfully',
+    comment
+  });
+});
+
+/**
+ * Mark a question thread as answered
+ * PATCH /reports/:reportId/comments/:commentId/resolve
+ */
+export const resolveReportComment = catchAsync(async (req: Request, res: Response) => {
+  const report = await ReportService.getAccessibleReport(req.params.reportId, req.userId!, req.userRole!);
+
+  const comment = await ReportCommentService.setResolved(
+    report.id,
+    req.params.commentId,
+    req.userId!,
+    true
+  );
+
+  res.status(200).json({
+    success: true,
+    message: 'Comment resolved successfully',
+    comment
+  });
+});
+
+/**
+ * Reopen a resolved question thread
+ * PATCH /reports/:reportId/comments/:commentId/unresolve
+ */
+export const unresolveReportComment = catchAsync(async (req: Request, res: Response) => {
+  const report = await ReportService.getAccessibleReport(req.params.reportId, req.userId!, req.userRole!);
+
+  const comment = await ReportCommentService.setResolved(
+    report.id,
+    req.params.commentId,
+    req.userId!,
+    false
+  );
+
+  res.status(200).json({
+    success: true,
+    message: 'Comment reopened successfully',
+    comment
+  });
+});
+
+/**
+ * Delete a comment and its replies
+ * DELETE /reports/:reportId/comments/:commentId
+ */
+export const deleteReportComment = catchAsync(async (req: Request, res: Response) => {
+  const report = await ReportService.getAccessibleReport(req.params.reportId, req.userId!, req.userRole!);
+
+  await ReportCommentService.deleteComment(
+    report.id,
+    req.params.commentId,
+    req.userId!,
+    req.userRole!
+  );
+
+  res.status(200).json({
+    success: true,
+    message: 'Comment deleted successfully'
+  });
+});
@@ -1,21 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import { ReportService } from '../services/reportService';
+import { ReportGenerationService } from '../services/reportGenerationService';
 import { AssignmentService } from '../services/assignmentService';
+import { NotificationService } from '../services/notificationService';
+import { ActivityLogService } from '../services/activityLogService';
 import { catchAsync } from '../utils/catchAsync';
 import AppError from '../utils/AppError';
-import path from 'path';
-import mongoose from 'mongoose';
 import { Report } from '../models/Report';
-import { Founder } from '../models/Founder';
 import { User } from '../models/User';
 
-// Define an interface for the populated user details
-interface IPopulatedUser {
-  _id: mongoose.Types.ObjectId;
-  name: string;
-  email: string;
-}
-
 // The auth middleware already extends Express.Request with userId and userRole
 // No need to redeclare here as it's already done in auth.ts
 
@@ -25,7 +18,7 @@ export const reportController = {
    * Accessible by: Admin (only for assigned founders)
    */
   uploadReport: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
-    const { month } = req.body;
+    const { month, changeNote } = req.body;
     const founderId = req.params.founderId;
     const adminId = req.userId;
     const file = req.file;
@@ -40,11 +33,46 @@ export const reportController = {
       return next(new AppError('You are not authorized to upload reports for this founder', 403));
     }
 
-    const report = await ReportService.uploadReport(file, founderId, adminId!, month);
+    const report = await ReportService.uploadReport(
+      file,
+      founderId,
+      adminId!,
+      month,
+      typeof changeNote === 'string' ? changeNote.trim() : undefined
+    );
+
+    await NotificationService.notifyReportUploaded(report, adminId!);
 
     res.status(201).json({
       success: true,
-      report
+      report: await ReportService.withSignedUrl(report)
+    });
+  }),
+
+  /**
+   * Generate a founder's monthly report from their metrics and published posts
+   * An existing report for the month gets the PDF as its new version
+   * Accessible by: Admin (only for assigned founders), Super Admin
+   */
+  generateReport: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { founderId, month } = req.params;
+    const userId = req.userId;
+
+    if (req.userRole === 'admin') {
+      // Verify admin is assigned to this founder
+      const isAssigned = await AssignmentService.isAdminAssignedToFounder(userId!, founderId);
+      if (!isAssigned) {
+        return next(new AppError('You are not authorized to generate reports for this founder', 403));
+      }
+    }
+
+    const report = await ReportGenerationService.generateReport(founderId, month, userId!, req.body?.changeNote);
+
+    await NotificationService.notifyReportUploaded(report, userId!);
+
+    res.status(201).json({
+      success: true,
+      report: await ReportService.withSignedUrl(report)
     });
   }),
 
@@ -74,7 +102,7 @@ export const reportController = {
 
     res.status(200).json({
       success: true,
-      reports
+      reports: await Promise.all(reports.map(report => ReportService.withSignedUrl(report)))
     });
   }),
 
@@ -106,9 +134,14 @@ export const reportController = {
       return next(new AppError('Report not found', 404));
     }
 
+    // Opening the report counts as the founder's read receipt
+    if (userRole === 'founder') {
+      await ReportService.recordView(report);
+    }
+
     res.status(200).json({
       success: true,
-      report
+      report: await ReportService.withSignedUrl(report)
     });
   }),
 
@@ -150,10 +183,10 @@ export const reportController = {
     });
   
     // 5. Add founderName to each report
-    const enrichedReports = reports.map(report => ({
-      ...report,
+    const enrichedReports = await Promise.all(reports.map(async report => ({
+      ...await ReportService.withSignedUrl(report),
       founderName: report.founderId ? userIdToNameMap[report.founderId.toString()] || null : null
-    }));
+    })));
   
     // 6. Send response
     res.status(200).json({
@@ -190,10 +223,10 @@ export const reportController = {
     });
   
     // 4. Add founderName to each report
-    const enrichedReports = reports.map(report => ({
-      ...report,
+    const enrichedReports = await Promise.all(reports.map(async report => ({
+      ...await ReportService.withSignedUrl(report),
       founderName: report.founderId ? userIdToNameMap[report.founderId.toString()] || null : null
-    }));
+    })));
   
     // 5. Send response
     res.status(200).json({
@@ -220,7 +253,7 @@ export const reportController = {
     }
     
     // Check permissions
-    if (userRole === 'admin' && report.uploadedBy._id.toString() !== userId) {
+    if (userRole === 'admin' && report.uploadedBy?._id.toString() !== userId) {
       return next(new AppError('You can only delete reports that you uploaded', 403));
     }
 
@@ -230,5 +263,142 @@ export const reportController = {
       success: true,
       ...result
     });
+  }),
+
+  /**
+   * Get every stored version of a report, newest first
+   * Accessible by: Admin (only for assigned founders), Super Admin
+   */
+  getReportVersions: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { reportId } = req.params;
+    const userId = req.userId;
+
+    const report = await Report.findById(reportId).select('founderId').lean();
+
+    if (!report) {
+      return next(new AppError('Report not found', 404));
+    }
+
+    if (req.userRole === 'admin') {
+      // Verify admin is assigned to this founder; reports without a founder are for super admins only
+      const isAssigned = report.founderId
+        ? await AssignmentService.isAdminAssignedToFounder(userId!, report.founderId.toString())
+        : false;
+      if (!isAssigned) {
+        return next(new AppError('You are not authorized to view reports for this founder', 403));
+      }
+    }
+
+    const versions = await ReportService.getReportVersions(reportId);
+
+    res.status(200).json({
+      success: true,
+      versions
+    });
+  }),
+
+  /**
+   * Show an earlier version of a report again
+   * Accessible by: Super Admin
+   */
+  restoreReportVersion: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { reportId } = req.params;
+    const version = Number(req.params.version);
+
+    const report = await ReportService.restoreReportVersion(reportId, version);
+
+    await ActivityLogService.logActivity(
+      req.userId!,
+      req.userRole!,
+      'Restored Report Version',
+      {
+        reportId,
+        founderId: report.founderId.toString(),
+        month: report.month,
+        version,
+        timestamp: new Date()
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      report: await ReportService.withSignedUrl(report)
+    });
+  }),
+
+  /**
+   * Permanently delete an earlier version of a report
+   * Accessible by: Super Admin
+   */
+  purgeReportVersion: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const { reportId } = req.params;
+    const version = Number(req.params.version);
+
+    const purged = await ReportService.purgeReportVersion(reportId, version);
+
+    await ActivityLogService.logActivity(
+      req.userId!,
+      req.userRole!,
+      'Purged Report Version',
+      {
+        reportId,
+        version,
+        key: purged.key,
+        timestamp: new Date()
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `Version ${version} of the report was purged`
+    });
+  }),
+
+  /**
+   * Record that the founder opened a report, for clients that open it from the list
+   * Accessible by: Founder (only their own)
+   */
+  viewReport: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const report = await ReportService.getAccessibleReport(req.params.reportId, req.userId!, req.userRole!);
+
+    await ReportService.recordView(report);
+
+    res.status(200).json({
+      success: true,
+      report: await ReportService.withSignedUrl(report)
+    });
+  }),
+
+  /**
+   * Confirm the founder has read a report
+   * Acknowledging again changes nothing
+   * Accessible by: Founder (only their own)
+   */
+  acknowledgeReport: catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    const report = await ReportService.getAccessibleReport(req.params.reportId, req.userId!, req.userRole!);
+
+    const acknowledged = await ReportService.acknowledgeReport(report);
+
+    if (acknowledged) {
+      const adminIds = await ReportService.getReportAdminIds(report);
+      await NotificationService.notifyReportAcknowledged(report, adminIds, req.userId!);
+
+      await ActivityLogService.logActivity(
+        req.userId!,
+        req.userRole!,
+        'Acknowledged Report',
+        {
+          reportId: report.id,
+          month: report.month,
+          version: report.currentVersion,
+          timestamp: new Date()
+        }
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      report: await ReportService.withSignedUrl(report)
+    });
   })
 };
@@ -5,6 +5,9 @@ import { catchAsync } from '../utils/catchAsync';
 import { User } from '../models/User';
 import AppError from '../utils/AppError';
 import { Types } from 'mongoose';
+import { EmailService, EMAIL_TEMPLATES } from '../services/emailService';
+import { PostService } from '../services/postService';
+import { StorageService } from '../services/storageService';
 
 // Get all founders with their post statistics
 export const getAllFoundersWithStats = catchAsync(async (req: Request, res: Response) => {
@@ -92,11 +95,6 @@ export const getPostDetails = catchAsync(async (req: Request, res: Response) =>
     email: string;
   }
 
-  interface PopulatedPost extends Omit<typeof Post, 'founderId' | 'adminId'> {
-    founderId: PopulatedUser;
-    adminId?: PopulatedUser;
-  }
-
   const post = await Post.findById(postId)
     .populate<{ founderId: PopulatedUser }>({
       path: 'founderId',
@@ -120,7 +118,7 @@ export const getPostDetails = catchAsync(async (req: Request, res: Response) =>
   const response = {
     _id: post._id,
     caption: post.caption,
-    images: post.images,
+    images: await StorageService.getSignedUrls(post.images),
     status: post.status,
     scheduledDate: post.scheduledDate,
     feedback: post.feedback,
@@ -142,9 +140,7 @@ export const getPostDetails = catchAsync(async (req: Request, res: Response) =>
       actionDate: post.updatedAt
     } : null,
 
-    // Note: If you want to implement history, you'll need to create a new model
-    // for tracking post changes and query it here
-    history: []
+    history: post.statusHistory
   };
 
   res.status(200).json({
@@ -188,9 +184,39 @@ export const getSuperAdminPosts = catchAsync(async (req: Request, res: Response)
 
   res.status(200).json({
     success: true,
-    posts,
+    posts: await Promise.all(posts.map(post => PostService.withSignedImages(post))),
     total,
     limit: Number(limit),
     offset: Number(offset)
   });
 });
+
+// List the available email templates
+export const getEmailTemplates = catchAsync(async (req: Request, res: Response) => {
+  res.status(200).json({
+    success: true,
+    templates: Object.keys(EMAIL_TEMPLATES)
+  });
+});
+
+// Render an email template with sample data, without sending it
+export const previewEmailTemplate = catchAsync(async (req: Request, res: Response) => {
+  const preview = EmailService.previewTemplate(req.params.name);
+
+  // ?format=html or ?format=text returns the body alone for viewing in a browser
+  if (req.query.format === 'html') {
+    res.status(200).type('html').send(preview.html);
+    return;
+  }
+
+  if (req.query.format === 'text') {
+    res.status(200).type('text').send(preview.text);
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    template: req.params.name,
+    ...preview
+  });
+});
@@ -2,11 +2,16 @@ import { Request, Response } from 'express';
 import { catchAsync } from '../utils/catchAsync';
 import AppError from '../utils/AppError';
 import { ActivityLogService } from '../services/activityLogService';
-import { S3Service } from '../services/s3Service';
+import { AssignmentService } from '../services/assignmentService';
+import { StorageService } from '../services/storageService';
+import { ImageService, ImagePlatform } from '../services/imageService';
+import { MediaService } from '../services/mediaService';
+import { getStorageDriver, LocalStorageDriver } from '../services/storage';
 
 /**
  * Upload images
  * POST /uploads/images
+ * Accessible by: Admin (only for assigned founders), Super Admin
  */
 export const uploadImages = catchAsync(async (req: Request, res: Response) => {
   // Check if files were uploaded
@@ -17,22 +22,48 @@ export const uploadImages = catchAsync(async (req: Request, res: Response) => {
   // Get the uploaded files
   const files = Array.isArray(req.files) ? req.files : Object.values(req.files).flat();
   
-  // Get founderId and optional postId from query or body
-  const founderId = req.query.founderId as string || req.body.founderId;
-  const postId = req.query.postId as string || req.body.postId;
+  // Get founderId and optional postId from the query, where the route validated them
+  const founderId = req.query.founderId as string;
+  const postId = req.query.postId as string | undefined;
   
   if (!founderId) {
     throw new AppError('Founder ID is required for image uploads', 400);
   }
+
+  if (req.userRole === 'admin') {
+    // Verify admin is assigned to this founder
+    const isAssigned = await AssignmentService.isAdminAssignedToFounder(req.userId!, founderId);
+    if (!isAssigned) {
+      throw new AppError('You are not authorized to upload images for this founder', 403);
+    }
+  }
   
   // Generate the folder path for this founder's images
   // If postId is provided, organize images by post, otherwise use the general folder
   const folder = postId
-    ? S3Service.getPostImageFolder(founderId, req.userId!, postId)
-    : S3Service.getFounderImageFolder(founderId, req.userId!);
+    ? StorageService.getPostImageFolder(founderId, req.userId!, postId)
+    : StorageService.getFounderImageFolder(founderId, req.userId!);
   
-  // Upload files to S3
-  const imageUrls = await S3Service.uploadMultipleFiles(files, folder);
+  // Validate, strip metadata and store each image with its renditions
+  const platform = (req.query.platform as ImagePlatform) || 'linkedin';
+  const processed = await ImageService.processUploads(files, folder, platform);
+
+  // Every upload goes into the founder's media library
+  const assets = await MediaService.recordUploads(processed, files, founderId, req.userId!);
+
+  // Posts store the keys; the signed URLs are for previewing
+  const images = await Promise.all(processed.map(async (image, index) => ({
+    assetId: assets[index].id,
+    key: image.key,
+    original: await StorageService.getSignedUrl(image.key),
+    thumbnail: await StorageService.getSignedUrl(image.thumbnailKey),
+    rendition: await StorageService.getSignedUrl(image.renditionKey),
+    platform: image.platform,
+    mimeType: image.mimeType,
+    width: image.width,
+    height: image.height,
+    bytes: image.bytes
+  })));
 
   // Log the activity
   await ActivityLogService.logActivity(
@@ -40,7 +71,7 @@ export const uploadImages = catchAsync(async (req: Request, res: Response) => {
     req.userRole!,
     'Uploaded Images',
     {
-      count: imageUrls.length,
+      count: images.length,
       founderId,
       timestamp: new Date()
     }
@@ -49,6 +80,35 @@ export const uploadImages = catchAsync(async (req: Request, res: Response) => {
   res.status(200).json({
     success: true,
     message: 'Images uploaded successfully',
-    imageUrls
+    images
   });
 });
+
+/**
+ * Download a file stored by the local storage driver
+ * GET /uploads/*key?expires=&signature=
+ */
+export const downloadUpload = catchAsync(async (req: Request, res: Response) => {
+  const driver = getStorageDriver();
+
+  // S3 and memory storage hand out their own URLs
+  if (!(driver instanceof LocalStorageDriver)) {
+    throw new AppError('Not found', 404);
+  }
+
+  const key = (req.params.key as unknown as string[]).join('/');
+  const expires = Number(req.query.expires);
+  const signature = typeof req.query.signature === 'string' ? req.query.signature : '';
+
+  if (!driver.verifySignature(key, expires, signature)) {
+    throw new AppError('This link is invalid or has expired', 403);
+  }
+
+  const file = await driver.get(key);
+  if (!file) {
+    throw new AppError('File not found', 404);
+  }
+
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.type(key.split('.').pop() || 'application/octet-stream').send(file);
+});
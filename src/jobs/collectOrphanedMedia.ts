@@ -0,0 +1,56 @@
+import { MediaAsset } from '../models/MediaAsset';
+import { PostRevision } from '../models/PostRevision';
+import { getStorageDriver } from '../services/storage';
+import { config } from '../config/config';
+import { parseDuration } from '../utils/timeUtils';
+import logger from '../utils/logger';
+
+/**
+ * Delete media assets no post has used for longer than the grace period
+ * Assets still listed in a post revision are kept so the revision can be restored
+ */
+export const collectOrphanedMedia = async (): Promise<void> => {
+  const cutoff = new Date(Date.now() - parseDuration(config.media.orphanGracePeriod));
+
+  const orphans = await MediaAsset.find({
+    postIds: { $size: 0 },
+    unreferencedSince: { $ne: null, $lte: cutoff }
+  })
+    .sort({ unreferencedSince: 1 })
+    .limit(config.jobs.batchSize)
+    .select('_id key thumbnailKey renditionKey')
+    .lean();
+
+  const driver = getStorageDriver();
+  let deleted = 0;
+
+  for (const orphan of orphans) {
+    // Look again after another grace period; the revisions go away with their post
+    if (await PostRevision.exists({ images: orphan.key })) {
+      await MediaAsset.updateOne({ _id: orphan._id }, { $set: { unreferencedSince: new Date() } });
+      continue;
+    }
+
+    // Only delete while still unreferenced, in case a post picked the asset up meanwhile
+    const claimed = await MediaAsset.findOneAndDelete({ _id: orphan._id, postIds: { $size: 0 } });
+    if (!claimed) {
+      continue;
+    }
+
+    const keys = [orphan.key, orphan.thumbnailKey, orphan.renditionKey].filter(Boolean) as string[];
+    try {
+      await Promise.all(keys.map(key => driver.delete(key)));
+      deleted++;
+    } catch (error: any) {
+      logger.error({
+        message: `Failed to delete files of media asset ${orphan._id}`,
+        error: error.message,
+        keys
+      });
+    }
+  }
+
+  if (deleted > 0) {
+    logger.info(`Deleted ${deleted} orphaned media asset(s)`);
+  }
+};
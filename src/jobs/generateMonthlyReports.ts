@@ -0,0 +1,47 @@
+import { FounderMetrics } from '../models/FounderMetrics';
+import { Report } from '../models/Report';
+import { ReportGenerationService } from '../services/reportGenerationService';
+import { NotificationService } from '../services/notificationService';
+import { config } from '../config/config';
+import { formatMonth, shiftMonth } from '../utils/timeUtils';
+import logger from '../utils/logger';
+
+/**
+ * Generate last month's (UTC) report for every founder with metrics for that
+ * month and no report yet
+ * Reports admins uploaded themselves are never replaced, and founders that
+ * already got a report are skipped, so every run is safe and one missed on the
+ * first of the month is caught up by the next
+ */
+export const generateMonthlyReports = async (now: Date = new Date()): Promise<void> => {
+  const month = shiftMonth(formatMonth(now), -1);
+
+  const founderIds = await FounderMetrics.distinct('founderId', { month });
+  const reported = new Set(
+    (await Report.distinct('founderId', { month, founderId: { $in: founderIds } })).map(id => id.toString())
+  );
+
+  const pending = founderIds
+    .filter(founderId => !reported.has(founderId.toString()))
+    .slice(0, config.jobs.batchSize);
+
+  let generated = 0;
+
+  for (const founderId of pending) {
+    try {
+      const report = await ReportGenerationService.generateReport(founderId.toString(), month, null);
+      await NotificationService.notifyReportUploaded(report);
+      generated++;
+    } catch (error: any) {
+      // The next run tries again
+      logger.error({
+        message: `Failed to generate the ${month} report of founder ${founderId}`,
+        error: error.message
+      });
+    }
+  }
+
+  if (generated > 0) {
+    logger.info(`Generated ${generated} monthly report(s) for ${month}`);
+  }
+};
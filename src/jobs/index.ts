@@ -0,0 +1,41 @@
+import { JobRunner } from './jobRunner';
+import { publishScheduledPosts } from './publishScheduledPosts';
+import { sendEmailDigests } from './sendEmailDigests';
+import { collectOrphanedMedia } from './collectOrphanedMedia';
+import { generateMonthlyReports } from './generateMonthlyReports';
+import { config } from '../config/config';
+
+/**
+ * Register all background jobs and start the runner
+ */
+export const startJobs = (): void => {
+  JobRunner.register({
+    name: 'publish-scheduled-posts',
+    intervalMs: config.jobs.pollIntervalMs,
+    run: publishScheduledPosts
+  });
+
+  JobRunner.register({
+    name: 'send-email-digests',
+    intervalMs: config.jobs.digestIntervalMs,
+    run: sendEmailDigests
+  });
+
+  JobRunner.register({
+    name: 'collect-orphaned-media',
+    intervalMs: config.jobs.mediaGcIntervalMs,
+    run: collectOrphanedMedia
+  });
+
+  JobRunner.register({
+    name: 'generate-monthly-reports',
+    intervalMs: config.jobs.reportIntervalMs,
+    run: generateMonthlyReports
+  });
+
+  JobRunner.start();
+};
+
+export const stopJobs = (): void => {
+  JobRunner.stop();
+};
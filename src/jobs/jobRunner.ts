@@ -0,0 +1,143 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { JobLease } from '../models/JobLease';
+import { config } from '../config/config';
+import logger from '../utils/logger';
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+/**
+ * In-process job runner
+ * Each job runs on its own interval, but only the instance holding the job's
+ * lease in Mongo executes it, so restarts and multiple instances are safe.
+ */
+export class JobRunner {
+  static readonly instanceId = `${os.hostname()}-${process.pid}-${uuidv4()}`;
+
+  private static jobs: ScheduledJob[] = [];
+  private static timers: NodeJS.Timeout[] = [];
+  private static running = new Set<string>();
+
+  /**
+   * Register a job to be run once the runner is started
+   * @param job Job definition
+   */
+  static register(job: ScheduledJob): void {
+    if (this.jobs.some(existing => existing.name === job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+    this.jobs.push(job);
+  }
+
+  /**
+   * Start all registered jobs
+   */
+  static start(): void {
+    if (!config.jobs.enabled) {
+      logger.info('Background jobs are disabled');
+      return;
+    }
+
+    for (const job of this.jobs) {
+      const timer = setInterval(() => this.tick(job), job.intervalMs);
+      timer.unref();
+      this.timers.push(timer);
+
+      // Run once on startup so nothing waits a full interval after a restart
+      this.tick(job);
+    }
+
+    logger.info(`Job runner ${this.instanceId} started with ${this.jobs.length} job(s)`);
+  }
+
+  /**
+   * Stop all timers; jobs already in progress are left to finish
+   */
+  static stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+  }
+
+  /**
+   * Try to acquire the lease for a job
+   * @param name Name of the job
+   * @param leaseMs How long the lease is held before another instance may take over
+   * @returns Whether this instance now holds the lease
+   */
+  static async acquireLease(name: string, leaseMs: number = config.jobs.leaseMs): Promise<boolean> {
+    const now = new Date();
+
+    try {
+      const lease = await JobLease.findOneAndUpdate(
+        {
+          name,
+          $or: [
+            { lockedUntil: { $lte: now } },
+            { owner: this.instanceId }
+          ]
+        },
+        {
+          $set: {
+            owner: this.instanceId,
+            lockedUntil: new Date(now.getTime() + leaseMs)
+          }
+        },
+        { upsert: true, new: true }
+      );
+
+      return !!lease && lease.owner === this.instanceId;
+    } catch (error: any) {
+      // Duplicate key means another instance holds an unexpired lease
+      if (error.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Release a lease held by this instance
+   * @param name Name of the job
+   */
+  static async releaseLease(name: string): Promise<void> {
+    const now = new Date();
+    await JobLease.updateOne(
+      { name, owner: this.instanceId },
+      { $set: { lockedUntil: now, lastRunAt: now } }
+    );
+  }
+
+  private static async tick(job: ScheduledJob): Promise<void> {
+    // Skip if the previous run on this instance hasn't finished yet
+    if (this.running.has(job.name)) {
+      return;
+    }
+
+    this.running.add(job.name);
+
+    try {
+      const acquired = await this.acquireLease(job.name);
+      if (!acquired) {
+        return;
+      }
+
+      try {
+        await job.run();
+      } finally {
+        await this.releaseLease(job.name);
+      }
+    } catch (error: any) {
+      logger.error({
+        message: `Job ${job.name} failed`,
+        error: error.message,
+        stack: error.stack
+      });
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { Post } from '../models/Post';
+import { PostService } from '../services/postService';
+import { ActivityLogService } from '../services/activityLogService';
+import { NotificationService } from '../services/notificationService';
+import AppError from '../utils/AppError';
+import { config } from '../config/config';
+import logger from '../utils/logger';
+
+/**
+ * Move scheduled posts whose scheduledDate has passed to 'posted'
+ * Uses the { status: 1, scheduledDate: 1 } index on Post
+ */
+export const publishScheduledPosts = async (): Promise<void> => {
+  const now = new Date();
+
+  const duePosts = await Post.find({
+    status: 'scheduled',
+    scheduledDate: { $lte: now }
+  })
+    .sort({ scheduledDate: 1 })
+    .limit(config.jobs.batchSize)
+    .select('_id founderId adminId caption scheduledDate')
+    .lean();
+
+  let published = 0;
+
+  for (const duePost of duePosts) {
+    // The transition only applies while the post is still scheduled, so a post
+    // is published once even if another instance picked it up after a lease expired
+    let post;
+    try {
+      post = await PostService.transitionStatus(
+        duePost._id.toString(),
+        'posted',
+        { role: 'system' },
+        'Scheduled date reached'
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        logger.warn(`Skipped publishing post ${duePost._id}: ${error.message}`);
+        continue;
+      }
+      throw error;
+    }
+
+    await ActivityLogService.logSystemActivity(
+      'Post Posted',
+      {
+        postId: post.id,
+        founderId: duePost.founderId,
+        adminId: duePost.adminId,
+        scheduledDate: post.scheduledDate,
+        timestamp: new Date()
+      }
+    );
+
+    await NotificationService.notifyPostStatusChanged(duePost, 'posted');
+
+    published++;
+  }
+
+  if (published > 0) {
+    logger.info(`Published ${published} scheduled post(s)`);
+  }
+};
@@ -0,0 +1,68 @@
+import { EmailDigestItem } from '../models/EmailDigestItem';
+import { User } from '../models/User';
+import { EmailService } from '../services/emailService';
+import { config } from '../config/config';
+import logger from '../utils/logger';
+
+/**
+ * Most recent daily digest time (config.email.digestHour, UTC) at or before now
+ * @param now Current time
+ * @returns Items queued before this time belong in the digest
+ */
+export const getDigestCutoff = (now: Date = new Date()): Date => {
+  const cutoff = new Date(Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate(),
+    config.email.digestHour
+  ));
+
+  if (cutoff > now) {
+    cutoff.setUTCDate(cutoff.getUTCDate() - 1);
+  }
+
+  return cutoff;
+};
+
+/**
+ * Send one digest email per user with everything queued before the last digest time
+ * Items are removed once their digest is sent, so running this again is a no-op
+ */
+export const sendEmailDigests = async (): Promise<void> => {
+  const cutoff = getDigestCutoff();
+
+  const userIds = await EmailDigestItem.distinct('userId', { createdAt: { $lt: cutoff } });
+
+  let sent = 0;
+
+  for (const userId of userIds) {
+    const items = await EmailDigestItem.find({ userId, createdAt: { $lt: cutoff } })
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const itemIds = items.map(item => item._id);
+    const user = await User.findById(userId).select('name email');
+
+    // Drop queued items of users that no longer exist
+    if (!user) {
+      await EmailDigestItem.deleteMany({ _id: { $in: itemIds } });
+      continue;
+    }
+
+    try {
+      await EmailService.sendDigestEmail(user.email, user.name, items);
+      await EmailDigestItem.deleteMany({ _id: { $in: itemIds } });
+      sent++;
+    } catch (error: any) {
+      // Leave the items queued so the next run retries
+      logger.error({
+        message: `Failed to send email digest to user ${userId}`,
+        error: error.message
+      });
+    }
+  }
+
+  if (sent > 0) {
+    logger.info(`Sent ${sent} email digest(s)`);
+  }
+};
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { UserRole } from '../models/User';
 import AppError from '../utils/AppError';
 import { Assignment } from '../models/Assignment';
+import { AssignmentService } from '../services/assignmentService';
 
 type PermissionHandler = (req: Request, userId: string, userRole: UserRole) => Promise<boolean>;
 
@@ -11,11 +12,8 @@ const permissions: Record<string, PermissionHandler> = {
     if (userRole === 'super-admin') return true;
     if (userRole === 'founder') return req.params.founderId === userId;
     if (userRole === 'admin') {
-      const assignment = await Assignment.findOne({
-        founderId: req.params.founderId,
-        adminId: userId
-      });
-      return !!assignment;
+      // founderId is the founder's User ID, assignments point at the Founder document
+      return AssignmentService.isAdminAssignedToFounder(userId, req.params.founderId);
     }
     return false;
   },
@@ -1,9 +1,12 @@
 import mongoose, { Document } from 'mongoose';
 import { UserRole } from './User';
 
+// Background jobs log under the 'system' role with no user attached
+export type ActivityRole = UserRole | 'system';
+
 export interface IActivityLogs extends Document {
-  userId: mongoose.Types.ObjectId;
-  role: UserRole;
+  userId?: mongoose.Types.ObjectId;
+  role: ActivityRole;
   action: string;
   meta: Record<string, any>;
   timestamp: Date;
@@ -13,11 +16,13 @@ const activityLogsSchema = new mongoose.Schema({
   userId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
-    required: true
+    required: function(this: IActivityLogs) {
+      return this.role !== 'system';
+    }
   },
   role: {
     type: String,
-    enum: ['super-admin', 'admin', 'founder'],
+    enum: ['super-admin', 'admin', 'founder', 'system'],
     required: true
   },
   action: {
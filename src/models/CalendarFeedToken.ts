@@ -0,0 +1,38 @@
+import mongoose, { Document } from 'mongoose';
+
+export interface ICalendarFeedToken extends Document {
+  founderId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  createdBy: mongoose.Types.ObjectId;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const calendarFeedTokenSchema = new mongoose.Schema({
+  // User ID of the founder, one feed per founder
+  founderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  // Only the SHA-256 hash is stored; the token itself is shown once when it is created
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  lastUsedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+export const CalendarFeedToken = mongoose.model<ICalendarFeedToken>('CalendarFeedToken', calendarFeedTokenSchema);
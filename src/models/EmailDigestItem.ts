@@ -0,0 +1,43 @@
+import mongoose, { Document } from 'mongoose';
+import { NotificationType, NOTIFICATION_TYPES } from './Notification';
+
+export interface IEmailDigestItem extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Record<string, any>;
+  createdAt: Date;
+}
+
+const emailDigestItemSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  data: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Index for collecting pending items per user
+emailDigestItemSchema.index({ createdAt: 1, userId: 1 });
+
+export const EmailDigestItem = mongoose.model<IEmailDigestItem>('EmailDigestItem', emailDigestItemSchema);
@@ -0,0 +1,99 @@
+import mongoose, { Document } from 'mongoose';
+
+export type GoalMetric =
+  | 'totalPosts'
+  | 'totalImpressions'
+  | 'totalCommentOutreach'
+  | 'engagementRate'
+  | 'comments'
+  | 'reactions'
+  | 'followerGrowth';
+
+export const GOAL_METRICS: GoalMetric[] = [
+  'totalPosts',
+  'totalImpressions',
+  'totalCommentOutreach',
+  'engagementRate',
+  'comments',
+  'reactions',
+  'followerGrowth'
+];
+
+export type GoalPeriod = 'monthly' | 'quarterly';
+
+export const GOAL_PERIODS: GoalPeriod[] = ['monthly', 'quarterly'];
+
+export interface IFounderGoal extends Document {
+  founderId: mongoose.Types.ObjectId;
+  metric: GoalMetric;
+  period: GoalPeriod;
+  target: number;
+  startMonth: string;
+  endMonth?: string | null;
+  notes?: string;
+  setBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const monthValidator = {
+  validator: function(v: string | null) {
+    return v === null || v === undefined || /^\d{4}-(0[1-9]|1[0-2])$/.test(v);
+  },
+  message: (props: any) => `${props.value} is not a valid month format (YYYY-MM)!`
+};
+
+const founderGoalSchema = new mongoose.Schema({
+  // User ID of the founder, same as FounderMetrics.founderId
+  founderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  metric: {
+    type: String,
+    enum: GOAL_METRICS,
+    required: true
+  },
+  // Monthly targets apply to each month, quarterly ones to each calendar quarter
+  period: {
+    type: String,
+    enum: GOAL_PERIODS,
+    required: true
+  },
+  // Engagement rate targets are a percentage, every other target a count
+  target: {
+    type: Number,
+    required: true,
+    min: [0, 'Target cannot be negative']
+  },
+  // First month the goal applies to; a later goal for the same metric and period takes over from its start
+  startMonth: {
+    type: String,
+    required: true,
+    validate: monthValidator
+  },
+  // Last month the goal applies to, or null while it is open-ended
+  endMonth: {
+    type: String,
+    default: null,
+    validate: monthValidator
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot be more than 500 characters']
+  },
+  setBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// One goal per founder, metric and period starting in a given month
+founderGoalSchema.index({ founderId: 1, metric: 1, period: 1, startMonth: 1 }, { unique: true });
+
+export const FounderGoal = mongoose.model<IFounderGoal>('FounderGoal', founderGoalSchema);
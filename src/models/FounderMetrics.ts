@@ -7,6 +7,10 @@ export interface IFounderMetrics extends Document {
   totalPosts: number;
   totalImpressions: number;
   totalCommentOutreach: number;
+  engagementRate?: number;
+  comments?: number;
+  reactions?: number;
+  followerGrowth?: number;
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -43,6 +47,24 @@ const founderMetricsSchema = new mongoose.Schema({
     required: [true, 'Total comment outreach is required'],
     min: [0, 'Total comment outreach cannot be negative']
   },
+  // Engagement fields are optional; older uploads only have the three totals above
+  engagementRate: {
+    type: Number,
+    min: [0, 'Engagement rate cannot be negative'],
+    max: [100, 'Engagement rate cannot exceed 100']
+  },
+  comments: {
+    type: Number,
+    min: [0, 'Comments cannot be negative']
+  },
+  reactions: {
+    type: Number,
+    min: [0, 'Reactions cannot be negative']
+  },
+  // Net followers gained in the month, negative when followers were lost
+  followerGrowth: {
+    type: Number
+  },
   notes: {
     type: String,
     trim: true
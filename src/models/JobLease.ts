@@ -0,0 +1,34 @@
+import mongoose, { Document } from 'mongoose';
+
+export interface IJobLease extends Document {
+  name: string;
+  owner: string;
+  lockedUntil: Date;
+  lastRunAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobLeaseSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  owner: {
+    type: String,
+    required: true
+  },
+  lockedUntil: {
+    type: Date,
+    required: true
+  },
+  lastRunAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+export const JobLease = mongoose.model<IJobLease>('JobLease', jobLeaseSchema);
@@ -0,0 +1,85 @@
+import mongoose, { Document } from 'mongoose';
+
+export interface IMediaAsset extends Document {
+  founderId: mongoose.Types.ObjectId;
+  uploadedBy: mongoose.Types.ObjectId;
+  key: string;
+  thumbnailKey?: string;
+  renditionKey?: string;
+  originalName: string;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  bytes: number;
+  postIds: mongoose.Types.ObjectId[];
+  unreferencedSince: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const mediaAssetSchema = new mongoose.Schema({
+  // User ID of the founder the asset belongs to, same as Post.founderId
+  founderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  uploadedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  thumbnailKey: {
+    type: String
+  },
+  renditionKey: {
+    type: String
+  },
+  originalName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  width: {
+    type: Number
+  },
+  height: {
+    type: Number
+  },
+  bytes: {
+    type: Number,
+    required: true
+  },
+  // Posts whose images currently include this asset
+  postIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Post'
+  }],
+  // When the last post stopped using the asset; the garbage collector counts the grace period from here
+  unreferencedSince: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Index for browsing a founder's library, newest first
+mediaAssetSchema.index({ founderId: 1, createdAt: -1 });
+
+// Index for finding the assets a post uses
+mediaAssetSchema.index({ postIds: 1 });
+
+// Index for the garbage collector
+mediaAssetSchema.index({ unreferencedSince: 1 });
+
+export const MediaAsset = mongoose.model<IMediaAsset>('MediaAsset', mediaAssetSchema);
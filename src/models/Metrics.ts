@@ -1,5 +1,11 @@
 import mongoose, { Document } from 'mongoose';
 
+/**
+ * Legacy engagement metrics
+ * The engagement fields now live on FounderMetrics; this model is only kept so
+ * `npm run migrate-engagement-metrics` can move existing documents over
+ */
+
 export interface IMetrics extends Document {
   founderId: mongoose.Types.ObjectId;
   month: string;
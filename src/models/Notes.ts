@@ -1,17 +1,27 @@
 import mongoose, { Document } from 'mongoose';
+import { IUser } from './User';
+
+export type NoteVisibility = 'internal' | 'shared';
+
+export const NOTE_VISIBILITIES: NoteVisibility[] = ['internal', 'shared'];
 
 export interface INotes extends Document {
   founderId: mongoose.Types.ObjectId;
   content: string;
-  createdBy: mongoose.Types.ObjectId;
+  // The author, populated when the note is loaded through NotesService
+  createdBy: mongoose.Types.ObjectId | IUser;
+  tags: string[];
+  pinned: boolean;
+  visibility: NoteVisibility;
   createdAt: Date;
   updatedAt: Date;
 }
 
 const notesSchema = new mongoose.Schema({
+  // User ID of the founder the note is about, same as Post.founderId
   founderId: {
     type: mongoose.Schema.Types.ObjectId,
-    ref: 'Founder',
+    ref: 'User',
     required: true
   },
   content: {
@@ -23,6 +33,21 @@ const notesSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
     required: true
+  },
+  tags: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  pinned: {
+    type: Boolean,
+    default: false
+  },
+  // Internal notes are only visible to admins, shared notes also to the founder
+  visibility: {
+    type: String,
+    enum: NOTE_VISIBILITIES,
+    default: 'internal'
   }
 }, {
   timestamps: true
@@ -32,4 +57,10 @@ const notesSchema = new mongoose.Schema({
 notesSchema.index({ founderId: 1, createdAt: -1 });
 notesSchema.index({ createdBy: 1, createdAt: -1 });
 
-export const Notes = mongoose.model<INotes>('Notes', notesSchema);
\ No newline at end of file
+// Index for listing pinned notes first
+notesSchema.index({ founderId: 1, pinned: -1, createdAt: -1 });
+
+// Index for full-text search
+notesSchema.index({ content: 'text', tags: 'text' });
+
+export const Notes = mongoose.model<INotes>('Notes', notesSchema);
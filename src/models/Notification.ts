@@ -0,0 +1,93 @@
+import mongoose, { Document } from 'mongoose';
+
+export type NotificationType =
+  | 'post_created'
+  | 'post_approved'
+  | 'post_rejected'
+  | 'post_scheduled'
+  | 'post_posted'
+  | 'post_feedback'
+  | 'report_uploaded'
+  | 'report_acknowledged'
+  | 'report_comment'
+  | 'metrics_uploaded';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'post_created',
+  'post_approved',
+  'post_rejected',
+  'post_scheduled',
+  'post_posted',
+  'post_feedback',
+  'report_uploaded',
+  'report_acknowledged',
+  'report_comment',
+  'metrics_uploaded'
+];
+
+// Notification types that can also be delivered by email
+export const EMAIL_NOTIFICATION_TYPES: NotificationType[] = [
+  'post_created',
+  'post_rejected',
+  'report_uploaded',
+  'metrics_uploaded'
+];
+
+export interface INotification extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Record<string, any>;
+  actorId?: mongoose.Types.ObjectId;
+  read: boolean;
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  message: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  data: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  actorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  read: {
+    type: Boolean,
+    default: false
+  },
+  readAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster lookups
+notificationSchema.index({ userId: 1, createdAt: -1 });
+notificationSchema.index({ userId: 1, read: 1 });
+
+export const Notification = mongoose.model<INotification>('Notification', notificationSchema);
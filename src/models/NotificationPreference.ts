@@ -0,0 +1,44 @@
+import mongoose, { Document } from 'mongoose';
+import { NotificationType, NOTIFICATION_TYPES } from './Notification';
+
+export type EmailDelivery = 'immediate' | 'digest' | 'off';
+
+export const EMAIL_DELIVERY_OPTIONS: EmailDelivery[] = ['immediate', 'digest', 'off'];
+
+export interface INotificationPreference extends Document {
+  userId: mongoose.Types.ObjectId;
+  mutedTypes: NotificationType[];
+  emailDelivery: EmailDelivery;
+  emailMutedTypes: NotificationType[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationPreferenceSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  mutedTypes: [{
+    type: String,
+    enum: NOTIFICATION_TYPES
+  }],
+  emailDelivery: {
+    type: String,
+    enum: EMAIL_DELIVERY_OPTIONS,
+    default: 'immediate'
+  },
+  emailMutedTypes: [{
+    type: String,
+    enum: NOTIFICATION_TYPES
+  }]
+}, {
+  timestamps: true
+});
+
+export const NotificationPreference = mongoose.model<INotificationPreference>(
+  'NotificationPreference',
+  notificationPreferenceSchema
+);
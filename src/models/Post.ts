@@ -1,7 +1,19 @@
 import mongoose, { Document } from 'mongoose';
+import { ActivityRole } from './ActivityLogs';
 
 export type PostStatus = 'pending' | 'approved' | 'rejected' | 'scheduled' | 'posted';
 
+export const POST_STATUSES: PostStatus[] = ['pending', 'approved', 'rejected', 'scheduled', 'posted'];
+
+export interface IPostStatusChange {
+  from: PostStatus | null;
+  to: PostStatus;
+  changedBy?: mongoose.Types.ObjectId;
+  role: ActivityRole;
+  reason?: string;
+  changedAt: Date;
+}
+
 export interface IPost extends Document {
   founderId: mongoose.Types.ObjectId;
   adminId: mongoose.Types.ObjectId;
@@ -10,10 +22,43 @@ export interface IPost extends Document {
   status: PostStatus;
   feedback?: string;
   scheduledDate?: Date;
+  statusHistory: IPostStatusChange[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const postStatusChangeSchema = new mongoose.Schema({
+  from: {
+    type: String,
+    enum: [...POST_STATUSES, null],
+    default: null
+  },
+  to: {
+    type: String,
+    enum: POST_STATUSES,
+    required: true
+  },
+  changedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  role: {
+    type: String,
+    enum: ['super-admin', 'admin', 'founder', 'system'],
+    required: true
+  },
+  reason: {
+    type: String,
+    trim: true
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
 const postSchema = new mongoose.Schema({
   founderId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -35,7 +80,7 @@ const postSchema = new mongoose.Schema({
   },
   status: {
     type: String,
-    enum: ['pending', 'approved', 'rejected', 'scheduled', 'posted'],
+    enum: POST_STATUSES,
     default: 'pending'
   },
   feedback: {
@@ -44,6 +89,10 @@ const postSchema = new mongoose.Schema({
   },
   scheduledDate: {
     type: Date
+  },
+  statusHistory: {
+    type: [postStatusChangeSchema],
+    default: []
   }
 }, {
   timestamps: true
@@ -0,0 +1,98 @@
+import mongoose, { Document } from 'mongoose';
+import { ActivityRole } from './ActivityLogs';
+
+export interface IPostCommentEdit {
+  body: string;
+  editedAt: Date;
+}
+
+export interface IPostComment extends Document {
+  postId: mongoose.Types.ObjectId;
+  // Not set for system comments, such as migrated feedback whose author is unknown
+  authorId?: mongoose.Types.ObjectId;
+  authorRole: ActivityRole;
+  body: string;
+  imageIndex?: number;
+  parentId?: mongoose.Types.ObjectId | null;
+  edits: IPostCommentEdit[];
+  editedAt?: Date;
+  resolved: boolean;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const postCommentEditSchema = new mongoose.Schema({
+  body: {
+    type: String,
+    required: true
+  },
+  editedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
+const postCommentSchema = new mongoose.Schema({
+  postId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Post',
+    required: true
+  },
+  authorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: function(this: IPostComment) {
+      return this.authorRole !== 'system';
+    }
+  },
+  authorRole: {
+    type: String,
+    enum: ['super-admin', 'admin', 'founder', 'system'],
+    required: true
+  },
+  body: {
+    type: String,
+    required: [true, 'Comment body is required'],
+    trim: true,
+    maxlength: [2000, 'Comment cannot be more than 2000 characters']
+  },
+  imageIndex: {
+    type: Number,
+    min: [0, 'Image index cannot be negative']
+  },
+  parentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PostComment',
+    default: null
+  },
+  edits: {
+    type: [postCommentEditSchema],
+    default: []
+  },
+  editedAt: {
+    type: Date
+  },
+  resolved: {
+    type: Boolean,
+    default: false
+  },
+  resolvedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  resolvedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster lookups
+postCommentSchema.index({ postId: 1, createdAt: 1 });
+postCommentSchema.index({ parentId: 1 });
+
+export const PostComment = mongoose.model<IPostComment>('PostComment', postCommentSchema);
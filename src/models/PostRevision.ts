@@ -0,0 +1,59 @@
+import mongoose, { Document } from 'mongoose';
+import { ActivityRole } from './ActivityLogs';
+
+export interface IPostRevision extends Document {
+  postId: mongoose.Types.ObjectId;
+  revision: number;
+  caption: string;
+  images: string[];
+  scheduledDate?: Date;
+  createdBy?: mongoose.Types.ObjectId;
+  createdByRole: ActivityRole;
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+const postRevisionSchema = new mongoose.Schema({
+  postId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Post',
+    required: true
+  },
+  revision: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  caption: {
+    type: String,
+    required: true
+  },
+  images: [{
+    type: String
+  }],
+  scheduledDate: {
+    type: Date
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdByRole: {
+    type: String,
+    enum: ['super-admin', 'admin', 'founder', 'system'],
+    required: true
+  },
+  restoredFrom: {
+    type: Number
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Compound index to keep revision numbers unique per post
+postRevisionSchema.index({ postId: 1, revision: 1 }, { unique: true });
+
+// Index for checking whether any revision still uses an image
+postRevisionSchema.index({ images: 1 });
+
+export const PostRevision = mongoose.model<IPostRevision>('PostRevision', postRevisionSchema);
@@ -1,13 +1,67 @@
 import mongoose, { Document } from 'mongoose';
 
+export type ReportSource = 'upload' | 'generated';
+
+export interface IReportVersion {
+  version: number;
+  key: string;
+  source: ReportSource;
+  uploadedBy?: mongoose.Types.ObjectId | null;
+  uploadedAt: Date;
+  // Size in bytes and SHA-256 of the PDF; unknown for versions from before versioning
+  size?: number | null;
+  checksum?: string | null;
+  changeNote?: string | null;
+}
+
 export interface IReport extends Document {
   founderId: mongoose.Types.ObjectId;
   month: string;
-  url: string;
-  uploadedBy: mongoose.Types.ObjectId;
+  key: string;
+  source: ReportSource;
+  uploadedBy?: mongoose.Types.ObjectId | null;
+  uploadedAt?: Date;
+  currentVersion: number;
+  viewedAt?: Date | null;
+  acknowledgedAt?: Date | null;
+  versions: mongoose.Types.DocumentArray<IReportVersion & mongoose.Types.Subdocument>;
   createdAt: Date;
+  updatedAt: Date;
 }
 
+const reportVersionSchema = new mongoose.Schema({
+  version: {
+    type: Number,
+    required: true
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  source: {
+    type: String,
+    enum: ['upload', 'generated'],
+    default: 'upload'
+  },
+  uploadedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now
+  },
+  size: Number,
+  checksum: String,
+  changeNote: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  }
+}, {
+  _id: false
+});
+
 const reportSchema = new mongoose.Schema({
   founderId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -24,14 +78,51 @@ const reportSchema = new mongoose.Schema({
       message: (props: any) => `${props.value} is not a valid month format (YYYY-MM)!`
     }
   },
-  url: {
+  // key, source, uploadedBy and uploadedAt mirror the current version, so the current
+  // report is shown by default without loading the version history
+
+  // Storage key of the PDF; download URLs are signed per request
+  key: {
     type: String,
     required: true
   },
+  // Uploaded by an admin, or generated from metrics and posts
+  source: {
+    type: String,
+    enum: ['upload', 'generated'],
+    default: 'upload'
+  },
+  // Who uploaded or generated the report; empty for reports of the monthly job
   uploadedBy: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
-    required: true
+    required: function(this: IReport) {
+      return this.source !== 'generated';
+    }
+  },
+  // When the current version was stored; empty for reports from before versioning
+  uploadedAt: {
+    type: Date
+  },
+  // Number of the version currently shown
+  currentVersion: {
+    type: Number,
+    default: 1
+  },
+  // When the founder first opened the current version
+  viewedAt: {
+    type: Date,
+    default: null
+  },
+  // When the founder confirmed they read the current version
+  acknowledgedAt: {
+    type: Date,
+    default: null
+  },
+  // Every PDF stored for this founder-month, oldest first; only selected on request
+  versions: {
+    type: [reportVersionSchema],
+    select: false
   }
 }, {
   timestamps: true
@@ -42,5 +133,6 @@ reportSchema.index({ founderId: 1, month: 1 }, { unique: true });
 
 // Index for faster lookups
 reportSchema.index({ founderId: 1, createdAt: -1 });
+reportSchema.index({ founderId: 1, acknowledgedAt: 1 });
 
 export const Report = mongoose.model<IReport>('Report', reportSchema);
\ No newline at end of file
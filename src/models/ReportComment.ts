@@ -0,0 +1,92 @@
+import mongoose, { Document } from 'mongoose';
+import { UserRole } from './User';
+
+export interface IReportCommentEdit {
+  body: string;
+  editedAt: Date;
+}
+
+export interface IReportComment extends Document {
+  reportId: mongoose.Types.ObjectId;
+  authorId: mongoose.Types.ObjectId;
+  authorRole: UserRole;
+  body: string;
+  parentId?: mongoose.Types.ObjectId | null;
+  edits: IReportCommentEdit[];
+  editedAt?: Date;
+  resolved: boolean;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reportCommentEditSchema = new mongoose.Schema({
+  body: {
+    type: String,
+    required: true
+  },
+  editedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
+const reportCommentSchema = new mongoose.Schema({
+  reportId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Report',
+    required: true
+  },
+  authorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  authorRole: {
+    type: String,
+    enum: ['super-admin', 'admin', 'founder'],
+    required: true
+  },
+  body: {
+    type: String,
+    required: [true, 'Comment body is required'],
+    trim: true,
+    maxlength: [2000, 'Comment cannot be more than 2000 characters']
+  },
+  // Top-level comment of the thread this reply belongs to
+  parentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ReportComment',
+    default: null
+  },
+  edits: {
+    type: [reportCommentEditSchema],
+    default: []
+  },
+  editedAt: {
+    type: Date
+  },
+  // A resolved thread is a question that has been answered
+  resolved: {
+    type: Boolean,
+    default: false
+  },
+  resolvedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  resolvedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster lookups
+reportCommentSchema.index({ reportId: 1, createdAt: 1 });
+reportCommentSchema.index({ parentId: 1 });
+
+export const ReportComment = mongoose.model<IReportComment>('ReportComment', reportCommentSchema);
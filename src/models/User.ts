@@ -31,7 +31,7 @@ const userSchema = new mongoose.Schema({
     required: [true, 'Please add an email'],
     unique: true,
     match: [
-      /^\w+([\.-]?\w+)*@\w+([\.-]?\w+)*(\.\w{2,3})+$/,
+      /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/,
       'Please add a valid email'
     ]
   },
@@ -67,7 +67,7 @@ userSchema.pre('save', async function(next) {
 
 // Sign JWT and return
 userSchema.methods.generateAuthToken = function(): string {
-  // @ts-ignore
+  // @ts-expect-error config.jwt.expiresIn is a plain string, jsonwebtoken expects its StringValue type
   return jwt.sign(
     { 
       id: this._id,
@@ -2,15 +2,19 @@ import express from 'express';
 import { adminDashboardController } from '../controllers/adminDashboardController';
 import { protect } from '../middlewares/auth';
 import { authorize } from '../middlewares/authorize';
+import { validate } from '../middlewares/validate';
+import { unacknowledgedReportsValidation } from '../validators/adminDashboardValidators';
+import { dashboardRangeValidation } from '../validators/dashboardValidators';
 
 const router = express.Router();
 
 // Get main dashboard statistics for an admin
-// GET /api/v1/admin-dashboard/stats
+// GET /api/v1/admin-dashboard/stats?from=2025-01&to=2025-06&granularity=month&tz=Europe/Berlin
 router.get(
   '/stats',
   protect,
   authorize('admin'),
+  validate(dashboardRangeValidation),
   adminDashboardController.getAdminDashboardStats
 );
 
@@ -20,6 +24,7 @@ router.get(
   '/activities',
   protect,
   authorize('admin'),
+  validate(dashboardRangeValidation),
   adminDashboardController.getAdminRecentActivities
 );
 
@@ -29,15 +34,27 @@ router.get(
   '/graphs',
   protect,
   authorize('admin'),
+  validate(dashboardRangeValidation),
   adminDashboardController.getAdminGraphData
 );
 
+// Get reports the founders have not acknowledged yet
+// GET /api/v1/admin-dashboard/unacknowledged-reports?olderThanDays=7
+router.get(
+  '/unacknowledged-reports',
+  protect,
+  authorize('admin'),
+  validate(unacknowledgedReportsValidation),
+  adminDashboardController.getUnacknowledgedReports
+);
+
 // Get all dashboard data for an admin in a single request
 // GET /api/v1/admin-dashboard/all
 router.get(
   '/all',
   protect,
   authorize('admin'),
+  validate(dashboardRangeValidation),
   adminDashboardController.getAdminDashboardAll
 );
 
@@ -0,0 +1,41 @@
+import express from 'express';
+import { calendarController } from '../controllers/calendarController';
+import { protect } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import { checkPermission } from '../middlewares/permissions';
+import { calendarFeedTokenValidation } from '../validators/calendarValidators';
+
+// Mounted under /api/v1/founders/:founderId/calendar-feed
+const router = express.Router({ mergeParams: true });
+
+// All routes require authentication and access to the founder
+router.use(protect);
+
+// Whether the founder has a feed token
+// GET /api/v1/founders/:founderId/calendar-feed
+router.get(
+  '/',
+  validate(calendarFeedTokenValidation),
+  checkPermission('canAccessFounderContent'),
+  calendarController.getFeedToken
+);
+
+// Create a feed token, revoking the previous one
+// POST /api/v1/founders/:founderId/calendar-feed
+router.post(
+  '/',
+  validate(calendarFeedTokenValidation),
+  checkPermission('canAccessFounderContent'),
+  calendarController.createFeedToken
+);
+
+// Revoke the feed token
+// DELETE /api/v1/founders/:founderId/calendar-feed
+router.delete(
+  '/',
+  validate(calendarFeedTokenValidation),
+  checkPermission('canAccessFounderContent'),
+  calendarController.revokeFeedToken
+);
+
+export default router;
@@ -0,0 +1,25 @@
+import express from 'express';
+import { calendarController } from '../controllers/calendarController';
+import { protect } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import { getCalendarValidation } from '../validators/calendarValidators';
+
+const router = express.Router();
+
+// iCalendar feed of a founder's posts; the token in the URL is the only credential
+// GET /api/v1/calendar/feed/:token.ics
+router.get(
+  '/feed/:token.ics',
+  calendarController.getFeed
+);
+
+// Posts planned in a range of days, grouped by day
+// GET /api/v1/calendar?from=2025-06-01&to=2025-06-30&tz=Europe/Berlin
+router.get(
+  '/',
+  protect,
+  validate(getCalendarValidation),
+  calendarController.getCalendar
+);
+
+export default router;
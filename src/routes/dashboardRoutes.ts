@@ -1,16 +1,18 @@
 import express from 'express';
 import { dashboardController } from '../controllers/dashboardController';
 import { authenticate } from '../middlewares/authenticate';
+import { validate } from '../middlewares/validate';
+import { dashboardRangeValidation } from '../validators/dashboardValidators';
 
 const router = express.Router();
 
 // Apply authentication middleware to all dashboard routes
 router.use(authenticate);
 
-// Dashboard routes
-router.get('/stats', dashboardController.getMainDashboardStats);
-router.get('/activities', dashboardController.getRecentActivities);
-router.get('/graphs', dashboardController.getGraphData);
-router.get('/all', dashboardController.getAllDashboardData);
+// Dashboard routes, all taking ?from=YYYY-MM&to=YYYY-MM&granularity=month|quarter|year&tz=Europe/Berlin
+router.get('/stats', validate(dashboardRangeValidation), dashboardController.getMainDashboardStats);
+router.get('/activities', validate(dashboardRangeValidation), dashboardController.getRecentActivities);
+router.get('/graphs', validate(dashboardRangeValidation), dashboardController.getGraphData);
+router.get('/all', validate(dashboardRangeValidation), dashboardController.getAllDashboardData);
 
 export default router;
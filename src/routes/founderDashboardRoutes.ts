@@ -0,0 +1,20 @@
+import express from 'express';
+import { founderDashboardController } from '../controllers/founderDashboardController';
+import { protect } from '../middlewares/auth';
+import { authorize } from '../middlewares/authorize';
+import { validate } from '../middlewares/validate';
+import { dashboardRangeValidation } from '../validators/dashboardValidators';
+
+const router = express.Router();
+
+// Get the dashboard of the logged-in founder
+// GET /api/v1/founder-dashboard?granularity=month&tz=Europe/Berlin
+router.get(
+  '/',
+  protect,
+  authorize('founder'),
+  validate(dashboardRangeValidation),
+  founderDashboardController.getFounderDashboard
+);
+
+export default router;
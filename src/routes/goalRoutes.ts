@@ -0,0 +1,68 @@
+import express from 'express';
+import { goalController } from '../controllers/goalController';
+import { protect, authorize } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import { checkPermission } from '../middlewares/permissions';
+import {
+  getGoalsValidation,
+  setGoalsValidation,
+  updateGoalValidation,
+  goalIdValidation,
+  goalProgressValidation
+} from '../validators/goalValidators';
+
+// Mounted under /api/v1/founders/:founderId/goals
+const router = express.Router({ mergeParams: true });
+
+// All routes require authentication and access to the founder
+router.use(protect);
+
+// List goals, optionally only those that apply to a month
+// GET /api/v1/founders/:founderId/goals
+router.get(
+  '/',
+  validate(getGoalsValidation),
+  checkPermission('canAccessFounderContent'),
+  goalController.getGoals
+);
+
+// Set targets from a month on
+// PUT /api/v1/founders/:founderId/goals
+router.put(
+  '/',
+  authorize('admin', 'super-admin'),
+  validate(setGoalsValidation),
+  checkPermission('canAccessFounderContent'),
+  goalController.setGoals
+);
+
+// Progress towards the goals of a month
+// GET /api/v1/founders/:founderId/goals/progress
+router.get(
+  '/progress',
+  validate(goalProgressValidation),
+  checkPermission('canAccessFounderContent'),
+  goalController.getProgress
+);
+
+// Change a goal
+// PATCH /api/v1/founders/:founderId/goals/:goalId
+router.patch(
+  '/:goalId',
+  authorize('admin', 'super-admin'),
+  validate(updateGoalValidation),
+  checkPermission('canAccessFounderContent'),
+  goalController.updateGoal
+);
+
+// Delete a goal
+// DELETE /api/v1/founders/:founderId/goals/:goalId
+router.delete(
+  '/:goalId',
+  authorize('admin', 'super-admin'),
+  validate(goalIdValidation),
+  checkPermission('canAccessFounderContent'),
+  goalController.deleteGoal
+);
+
+export default router;
@@ -0,0 +1,31 @@
+import express from 'express';
+import { mediaController } from '../controllers/mediaController';
+import { protect } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import { checkPermission } from '../middlewares/permissions';
+import { getFounderMediaValidation, getMediaAssetValidation } from '../validators/mediaValidators';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+// Browse and search a founder's media library
+// GET /api/v1/media/founders/:founderId
+router.get(
+  '/founders/:founderId',
+  validate(getFounderMediaValidation),
+  checkPermission('canAccessFounderContent'),
+  mediaController.getFounderMedia
+);
+
+// Get a single asset with signed URLs
+// GET /api/v1/media/founders/:founderId/:assetId
+router.get(
+  '/founders/:founderId/:assetId',
+  validate(getMediaAssetValidation),
+  checkPermission('canAccessFounderContent'),
+  mediaController.getMediaAsset
+);
+
+export default router;
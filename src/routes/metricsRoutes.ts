@@ -1,18 +1,62 @@
 import express from 'express';
+import multer from 'multer';
+import path from 'path';
 import { metricsController } from '../controllers/metricsController';
 import { protect, authorize } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import {
+  uploadMetricsValidation,
+  importMetricsValidation,
+  exportMetricsValidation
+} from '../validators/metricsValidators';
+import { IMPORT_FILE_EXTENSIONS } from '../services/metricsImportService';
+import AppError from '../utils/AppError';
 
 const router = express.Router();
 
+// Import files are small and parsed straight from memory
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (IMPORT_FILE_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new AppError(`Only ${IMPORT_FILE_EXTENSIONS.join(' and ')} files can be imported`, 400));
+    }
+  },
+  limits: { fileSize: 2 * 1024 * 1024 } // 2MB max file size
+});
+
+// Import metrics of many founders from a CSV or XLSX file
+// POST /api/v1/metrics/import?dryRun=true
+router.post(
+  '/import',
+  protect,
+  authorize('admin', 'super-admin'),
+  validate(importMetricsValidation),
+  importUpload.single('file'),
+  metricsController.importMetrics
+);
+
 // Upload metrics for a founder
 // POST /api/v1/metrics/founders/:founderId
 router.post(
   '/founders/:founderId',
   protect,
   authorize('admin', 'super-admin'),
+  validate(uploadMetricsValidation),
   metricsController.uploadMetrics
 );
 
+// Download metrics as CSV, XLSX or JSON, scoped to the founders the user may see
+// GET /api/v1/metrics/export?format=csv&from=YYYY-MM&to=YYYY-MM&founderId=...
+router.get(
+  '/export',
+  protect,
+  validate(exportMetricsValidation),
+  metricsController.exportMetrics
+);
+
 // Get all metrics for a specific founder
 // GET /api/v1/metrics/founders/:founderId
 router.get(
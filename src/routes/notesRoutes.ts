@@ -0,0 +1,96 @@
+import express from 'express';
+import { notesController } from '../controllers/notesController';
+import { protect, authorize } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import { checkPermission } from '../middlewares/permissions';
+import {
+  getNotesValidation,
+  createNoteValidation,
+  updateNoteValidation,
+  founderNotesValidation,
+  noteIdValidation
+} from '../validators/notesValidators';
+
+// Mounted under /api/v1/founders/:founderId/notes
+const router = express.Router({ mergeParams: true });
+
+// All routes require authentication and access to the founder
+router.use(protect);
+
+// List and search notes; founders only see shared notes
+// GET /api/v1/founders/:founderId/notes
+router.get(
+  '/',
+  validate(getNotesValidation),
+  checkPermission('canAccessFounderContent'),
+  notesController.getNotes
+);
+
+// Add a note
+// POST /api/v1/founders/:founderId/notes
+router.post(
+  '/',
+  authorize('admin', 'super-admin'),
+  validate(createNoteValidation),
+  checkPermission('canAccessFounderContent'),
+  notesController.createNote
+);
+
+// Tags used on the founder's notes
+// GET /api/v1/founders/:founderId/notes/tags
+router.get(
+  '/tags',
+  validate(founderNotesValidation),
+  checkPermission('canAccessFounderContent'),
+  notesController.getNoteTags
+);
+
+// Get a single note
+// GET /api/v1/founders/:founderId/notes/:noteId
+router.get(
+  '/:noteId',
+  validate(noteIdValidation),
+  checkPermission('canAccessFounderContent'),
+  notesController.getNote
+);
+
+// Edit a note (author or super admin)
+// PATCH /api/v1/founders/:founderId/notes/:noteId
+router.patch(
+  '/:noteId',
+  authorize('admin', 'super-admin'),
+  validate(updateNoteValidation),
+  checkPermission('canAccessFounderContent'),
+  notesController.updateNote
+);
+
+// Pin or unpin a note
+// PATCH /api/v1/founders/:founderId/notes/:noteId/pin
+router.patch(
+  '/:noteId/pin',
+  authorize('admin', 'super-admin'),
+  validate(noteIdValidation),
+  checkPermission('canAccessFounderContent'),
+  notesController.pinNote
+);
+
+// PATCH /api/v1/founders/:founderId/notes/:noteId/unpin
+router.patch(
+  '/:noteId/unpin',
+  authorize('admin', 'super-admin'),
+  validate(noteIdValidation),
+  checkPermission('canAccessFounderContent'),
+  notesController.unpinNote
+);
+
+// Delete a note (author or super admin)
+// DELETE /api/v1/founders/:founderId/notes/:noteId
+router.delete(
+  '/:noteId',
+  authorize('admin', 'super-admin'),
+  validate(noteIdValidation),
+  checkPermission('canAccessFounderContent'),
+  notesController.deleteNote
+);
+
+export default router;
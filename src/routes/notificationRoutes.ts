@@ -0,0 +1,52 @@
+import express from 'express';
+import { notificationController } from '../controllers/notificationController';
+import { protect } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import {
+  getNotificationsValidation,
+  markAsReadValidation,
+  updatePreferencesValidation
+} from '../validators/notificationValidators';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+// Get notifications of the logged-in user
+// GET /api/v1/notifications
+router.get(
+  '/',
+  validate(getNotificationsValidation),
+  notificationController.getNotifications
+);
+
+// Get the number of unread notifications
+// GET /api/v1/notifications/unread-count
+router.get('/unread-count', notificationController.getUnreadCount);
+
+// Get notification preferences
+// GET /api/v1/notifications/preferences
+router.get('/preferences', notificationController.getPreferences);
+
+// Update notification preferences
+// PUT /api/v1/notifications/preferences
+router.put(
+  '/preferences',
+  validate(updatePreferencesValidation),
+  notificationController.updatePreferences
+);
+
+// Mark all notifications as read
+// PATCH /api/v1/notifications/read-all
+router.patch('/read-all', notificationController.markAllAsRead);
+
+// Mark a notification as read
+// PATCH /api/v1/notifications/:notificationId/read
+router.patch(
+  '/:notificationId/read',
+  validate(markAsReadValidation),
+  notificationController.markAsRead
+);
+
+export default router;
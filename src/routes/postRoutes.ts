@@ -7,10 +7,25 @@ import {
   deletePost,
   updatePostStatus,
   addPostFeedback,
-  updatePostImages
+  updatePostImages,
+  getPostHistory,
+  reschedulePost
 } from '../controllers/postController';
-import { protect } from '../middlewares/auth';
-import { checkPermission } from '../middlewares/permissions';
+import {
+  getPostComments,
+  addPostComment,
+  editPostComment,
+  resolvePostComment,
+  unresolvePostComment,
+  deletePostComment
+} from '../controllers/postCommentController';
+import {
+  getPostRevisions,
+  getPostRevisionDiff,
+  getPostRevision,
+  restorePostRevision
+} from '../controllers/postRevisionController';
+import { protect, authorize } from '../middlewares/auth';
 import { validate } from '../middlewares/validate';
 import { 
   createPostValidation,
@@ -18,8 +33,18 @@ import {
   getPostsValidation,
   updatePostStatusValidation,
   addPostFeedbackValidation,
-  updatePostImagesValidation
+  updatePostImagesValidation,
+  postIdValidation,
+  postRevisionValidation,
+  postRevisionDiffValidation,
+  reschedulePostValidation
 } from '../validators/postValidators';
+import {
+  getPostCommentsValidation,
+  addPostCommentValidation,
+  editPostCommentValidation,
+  postCommentIdValidation
+} from '../validators/postCommentValidators';
 
 const router = express.Router();
 
@@ -59,13 +84,28 @@ router.delete(
   deletePost
 );
 
-// Update post status (approve/reject/post)
+// Get post status history
+router.get(
+  '/:id/history',
+  validate(postIdValidation),
+  getPostHistory
+);
+
+// Update post status (approve/reject/schedule/post)
 router.patch(
   '/:id/status',
   validate(updatePostStatusValidation),
   updatePostStatus
 );
 
+// Move a post to a new date, warning about other posts on that day
+router.patch(
+  '/:id/schedule',
+  authorize('admin', 'super-admin'),
+  validate(reschedulePostValidation),
+  reschedulePost
+);
+
 // Add feedback to a post
 router.post(
   '/:id/feedback',
@@ -80,4 +120,74 @@ router.patch(
   updatePostImages
 );
 
+// Get all revisions of a post
+router.get(
+  '/:id/revisions',
+  validate(postIdValidation),
+  getPostRevisions
+);
+
+// Compare two revisions of a post
+router.get(
+  '/:id/revisions/diff',
+  validate(postRevisionDiffValidation),
+  getPostRevisionDiff
+);
+
+// Get a specific revision of a post
+router.get(
+  '/:id/revisions/:rev',
+  validate(postRevisionValidation),
+  getPostRevision
+);
+
+// Restore a post from a revision
+router.post(
+  '/:id/revisions/:rev/restore',
+  validate(postRevisionValidation),
+  restorePostRevision
+);
+
+// Get comment threads of a post
+router.get(
+  '/:id/comments',
+  validate(getPostCommentsValidation),
+  getPostComments
+);
+
+// Add a comment or reply to a post
+router.post(
+  '/:id/comments',
+  validate(addPostCommentValidation),
+  addPostComment
+);
+
+// Edit a comment
+router.patch(
+  '/:id/comments/:commentId',
+  validate(editPostCommentValidation),
+  editPostComment
+);
+
+// Resolve a comment thread
+router.patch(
+  '/:id/comments/:commentId/resolve',
+  validate(postCommentIdValidation),
+  resolvePostComment
+);
+
+// Reopen a resolved comment thread
+router.patch(
+  '/:id/comments/:commentId/unresolve',
+  validate(postCommentIdValidation),
+  unresolvePostComment
+);
+
+// Delete a comment and its replies
+router.delete(
+  '/:id/comments/:commentId',
+  validate(postCommentIdValidation),
+  deletePostComment
+);
+
 export default router;
@@ -1,7 +1,27 @@
 import express from 'express';
 import { reportController } from '../controllers/reportController';
+import {
+  getReportComments,
+  addReportComment,
+  editReportComment,
+  resolveReportComment,
+  unresolveReportComment,
+  deleteReportComment
+} from '../controllers/reportCommentController';
 import { protect } from '../middlewares/auth';
 import { authorize } from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import {
+  generateReportValidation,
+  reportIdValidation,
+  reportVersionValidation
+} from '../validators/reportValidators';
+import {
+  getReportCommentsValidation,
+  addReportCommentValidation,
+  editReportCommentValidation,
+  reportCommentIdValidation
+} from '../validators/reportCommentValidators';
 import multer from 'multer';
 import path from 'path';
 
@@ -44,6 +64,16 @@ router.post(
   reportController.uploadReport
 );
 
+// Generate a founder's monthly report from metrics and posts (Admin, Super Admin)
+// POST /api/v1/reports/founders/:founderId/:month/generate
+router.post(
+  '/founders/:founderId/:month/generate',
+  protect,
+  authorize('admin', 'super-admin'),
+  validate(generateReportValidation),
+  reportController.generateReport
+);
+
 // Get all reports for a specific founder (Admin, Super Admin, Founder)
 router.get(
   '/founders/:founderId',
@@ -76,6 +106,116 @@ router.get(
   reportController.getAllReports
 );
 
+// List every stored version of a report (Admin for assigned founders, Super Admin)
+// GET /api/v1/reports/:reportId/versions
+router.get(
+  '/:reportId/versions',
+  protect,
+  authorize('admin', 'super-admin'),
+  validate(reportIdValidation),
+  reportController.getReportVersions
+);
+
+// Show an earlier version of a report again (Super Admin only)
+// POST /api/v1/reports/:reportId/versions/:version/restore
+router.post(
+  '/:reportId/versions/:version/restore',
+  protect,
+  authorize('super-admin'),
+  validate(reportVersionValidation),
+  reportController.restoreReportVersion
+);
+
+// Permanently delete an earlier version of a report (Super Admin only)
+// DELETE /api/v1/reports/:reportId/versions/:version
+router.delete(
+  '/:reportId/versions/:version',
+  protect,
+  authorize('super-admin'),
+  validate(reportVersionValidation),
+  reportController.purgeReportVersion
+);
+
+// Record that the founder opened a report (Founder only)
+// POST /api/v1/reports/:reportId/view
+router.post(
+  '/:reportId/view',
+  protect,
+  authorize('founder'),
+  validate(reportIdValidation),
+  reportController.viewReport
+);
+
+// Confirm the founder has read a report (Founder only)
+// POST /api/v1/reports/:reportId/acknowledge
+router.post(
+  '/:reportId/acknowledge',
+  protect,
+  authorize('founder'),
+  validate(reportIdValidation),
+  reportController.acknowledgeReport
+);
+
+// Get the discussion threads of a report (Admin for assigned founders, Super Admin, Founder)
+// GET /api/v1/reports/:reportId/comments
+router.get(
+  '/:reportId/comments',
+  protect,
+  authorize('admin', 'super-admin', 'founder'),
+  validate(getReportCommentsValidation),
+  getReportComments
+);
+
+// Ask a question about a report or reply in a thread
+// POST /api/v1/reports/:reportId/comments
+router.post(
+  '/:reportId/comments',
+  protect,
+  authorize('admin', 'super-admin', 'founder'),
+  validate(addReportCommentValidation),
+  addReportComment
+);
+
+// Edit a comment
+// PATCH /api/v1/reports/:reportId/comments/:commentId
+router.patch(
+  '/:reportId/comments/:commentId',
+  protect,
+  authorize('admin', 'super-admin', 'founder'),
+  validate(editReportCommentValidation),
+  editReportComment
+);
+
+// Mark a question thread as answered
+// PATCH /api/v1/reports/:reportId/comments/:commentId/resolve
+router.patch(
+  '/:reportId/comments/:commentId/resolve',
+  protect,
+  authorize('admin', 'super-admin', 'founder'),
+  validate(reportCommentIdValidation),
+  resolveReportComment
+);
+
+// Reopen a resolved question thread
+// PATCH /api/v1/reports/:reportId/comments/:commentId/unresolve
+router.patch(
+  '/:reportId/comments/:commentId/unresolve',
+  protect,
+  authorize('admin', 'super-admin', 'founder'),
+  validate(reportCommentIdValidation),
+  unresolveReportComment
+);
+
+// Delete a comment and its replies
+// DELETE /api/v1/reports/:reportId/comments/:commentId
+router.delete(
+  '/:reportId/comments/:commentId',
+  protect,
+  authorize('admin', 'super-admin', 'founder'),
+  validate(reportCommentIdValidation),
+  deleteReportComment
+);
+
 // Delete a report (Admin who uploaded it, Super Admin)
 router.delete(
   '/:reportId',
@@ -2,8 +2,15 @@ import express from 'express';
 import { protect } from '../middlewares/auth';
 import { authorize } from '../middlewares/auth';
 import { validate } from '../middlewares/validate';
-import { getAllFoundersWithStats, getSuperAdminPosts, getPostDetails } from '../controllers/superAdminController';
+import {
+  getAllFoundersWithStats,
+  getSuperAdminPosts,
+  getPostDetails,
+  getEmailTemplates,
+  previewEmailTemplate
+} from '../controllers/superAdminController';
 import { getPostsValidation } from '../validators/postValidators';
+import { previewEmailTemplateValidation } from '../validators/emailTemplateValidators';
 
 const router = express.Router();
 
@@ -24,4 +31,14 @@ router.get(
 // Get detailed post information
 router.get('/posts/:postId', getPostDetails);
 
+// List email templates
+router.get('/email-templates', getEmailTemplates);
+
+// Preview an email template with sample data
+router.get(
+  '/email-templates/:name/preview',
+  validate(previewEmailTemplateValidation),
+  previewEmailTemplate
+);
+
 export default router;
@@ -1,8 +1,9 @@
 import express from 'express';
 import { uploadImages } from '../controllers/uploadController';
-import { protect } from '../middlewares/auth';
+import { IMAGE_PLATFORMS } from '../services/imageService';
+import { protect, authorize } from '../middlewares/auth';
 import { validate } from '../middlewares/validate';
-import { body, query } from 'express-validator';
+import { query } from 'express-validator';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
@@ -28,6 +29,7 @@ const storage = multer.diskStorage({
 });
 
 // File filter to only allow image files
+// This only trusts the client's mimetype; ImageService checks the actual contents
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   // Accept only image files
   if (file.mimetype.startsWith('image/')) {
@@ -54,12 +56,23 @@ const uploadImageValidation = [
     .notEmpty()
     .withMessage('Founder ID is required')
     .isMongoId()
-    .withMessage('Invalid founder ID format')
+    .withMessage('Invalid founder ID format'),
+
+  query('postId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid post ID format'),
+
+  query('platform')
+    .optional()
+    .isIn(IMAGE_PLATFORMS)
+    .withMessage(`Platform must be one of ${IMAGE_PLATFORMS.join(', ')}`)
 ];
 
-// Upload images endpoint
+// Upload images endpoint (Admin, Super Admin)
 router.post(
   '/images',
+  authorize('admin', 'super-admin'),
   validate(uploadImageValidation),
   upload.array('images', 20), // Allow up to 20 images
   uploadImages
@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import { Metrics } from '../models/Metrics';
+import { FounderMetrics } from '../models/FounderMetrics';
+import { Founder } from '../models/Founder';
+import { config } from '../config/config';
+
+const ENGAGEMENT_FIELDS = ['engagementRate', 'comments', 'reactions', 'followerGrowth'] as const;
+
+/**
+ * Move the legacy `Metrics` documents into `FounderMetrics`, which is the only
+ * collection the API and dashboards read. Engagement fields are copied onto the
+ * founder's metrics of the same month without overwriting values that were
+ * already uploaded there. Months that only exist in `Metrics` become new
+ * FounderMetrics with zero posts and comment outreach. The script can be run
+ * more than once; the `Metrics` collection is left untouched.
+ */
+const migrateEngagementMetrics = async () => {
+  try {
+    // Connect to MongoDB
+    await mongoose.connect(config.mongoose.url!);
+    console.log('Connected to MongoDB');
+
+    const legacyMetrics = await Metrics.find().lean();
+
+    let created = 0;
+    let merged = 0;
+
+    for (const legacy of legacyMetrics) {
+      // FounderMetrics use the founder's User ID; legacy documents may point at the Founder document
+      const founder = await Founder.findById(legacy.founderId).select('userId').lean();
+      const founderId = founder ? founder.userId : legacy.founderId;
+
+      const existing = await FounderMetrics.findOne({ founderId, month: legacy.month });
+
+      if (!existing) {
+        await FounderMetrics.create({
+          founderId,
+          uploadedBy: legacy.submittedBy,
+          month: legacy.month,
+          totalPosts: 0,
+          totalImpressions: legacy.impressions,
+          totalCommentOutreach: 0,
+          engagementRate: legacy.engagementRate,
+          comments: legacy.comments,
+          reactions: legacy.reactions,
+          followerGrowth: legacy.followerGrowth
+        });
+        created++;
+        continue;
+      }
+
+      const missing = ENGAGEMENT_FIELDS.filter(field => existing[field] === undefined || existing[field] === null);
+      if (missing.length === 0) {
+        continue;
+      }
+
+      for (const field of missing) {
+        existing[field] = legacy[field];
+      }
+      await existing.save();
+      merged++;
+    }
+
+    console.log(
+      `Migrated ${legacyMetrics.length} legacy metrics: ${created} created, ${merged} merged, ` +
+      `${legacyMetrics.length - created - merged} already up to date`
+    );
+  } catch (error) {
+    console.error('Error migrating engagement metrics:', error);
+  } finally {
+    await mongoose.disconnect();
+    process.exit(0);
+  }
+};
+
+migrateEngagementMetrics();
@@ -0,0 +1,60 @@
+import mongoose from 'mongoose';
+import { Founder } from '../models/Founder';
+import { Notes } from '../models/Notes';
+import { User } from '../models/User';
+import { config } from '../config/config';
+
+const IMPORTED_TAG = 'imported';
+
+/**
+ * Copy the free-text `notes` field of each founder into a pinned, internal
+ * note. Founders that already have an imported note are skipped, so the
+ * script can be run more than once. The legacy field is left untouched.
+ */
+const migrateFounderNotes = async () => {
+  try {
+    // Connect to MongoDB
+    await mongoose.connect(config.mongoose.url!);
+    console.log('Connected to MongoDB');
+
+    // The legacy field has no author, so imported notes are attributed to a super admin
+    const superAdmin = await User.findOne({ role: 'super-admin' }).select('_id');
+    if (!superAdmin) {
+      console.error('No super admin found to attribute imported notes to');
+      return;
+    }
+
+    const founders = await Founder.find({ notes: { $exists: true, $nin: ['', null] } })
+      .select('_id userId notes')
+      .lean();
+
+    let migrated = 0;
+
+    for (const founder of founders) {
+      const alreadyImported = await Notes.exists({ founderId: founder.userId, tags: IMPORTED_TAG });
+      if (alreadyImported || !founder.notes!.trim()) {
+        continue;
+      }
+
+      await Notes.create({
+        founderId: founder.userId,
+        createdBy: superAdmin._id,
+        content: founder.notes,
+        tags: [IMPORTED_TAG],
+        pinned: true,
+        visibility: 'internal'
+      });
+
+      migrated++;
+    }
+
+    console.log(`Migrated notes of ${migrated} founder(s) (${founders.length - migrated} skipped)`);
+  } catch (error) {
+    console.error('Error migrating founder notes:', error);
+  } finally {
+    await mongoose.disconnect();
+    process.exit(0);
+  }
+};
+
+migrateFounderNotes();
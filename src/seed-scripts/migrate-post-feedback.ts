@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+import { Post, IPostStatusChange } from '../models/Post';
+import { PostComment } from '../models/PostComment';
+import { config } from '../config/config';
+
+/**
+ * Find who wrote a post's legacy feedback
+ * Feedback sent with a status change (e.g. a rejection) is stored as the reason of that change
+ * @param feedback The post's feedback
+ * @param statusHistory The post's status history
+ * @returns The newest matching change made by a user, if any
+ */
+const findFeedbackChange = (
+  feedback: string,
+  statusHistory: IPostStatusChange[] = []
+): IPostStatusChange | undefined => {
+  return [...statusHistory]
+    .reverse()
+    .find(change => change.reason === feedback && change.changedBy && change.role !== 'system');
+};
+
+/**
+ * Copy the legacy single `feedback` string of each post into the first
+ * comment of its conversation. Posts that already have comments are skipped,
+ * so the script can be run more than once.
+ *
+ * The comment is credited to the author of the status change that recorded the
+ * feedback; without one the author is unknown and it becomes a system comment.
+ * An existing feedback comment credited to the founder is moved to the author
+ * of that status change when the two differ.
+ */
+const migratePostFeedback = async () => {
+  try {
+    // Connect to MongoDB
+    await mongoose.connect(config.mongoose.url!);
+    console.log('Connected to MongoDB');
+
+    const posts = await Post.find({ feedback: { $exists: true, $ne: '' } })
+      .select('_id founderId feedback statusHistory updatedAt')
+      .lean();
+
+    let migrated = 0;
+    let corrected = 0;
+
+    for (const post of posts) {
+      const change = findFeedbackChange(post.feedback!, post.statusHistory);
+
+      const hasComments = await PostComment.exists({ postId: post._id });
+      if (hasComments) {
+        // Give a feedback comment credited to the founder to the user the status history names instead
+        if (change && change.changedBy!.toString() !== post.founderId.toString()) {
+          const result = await PostComment.updateOne(
+            {
+              postId: post._id,
+              parentId: null,
+              authorId: post.founderId,
+              authorRole: 'founder',
+              body: post.feedback
+            },
+            { $set: { authorId: change.changedBy, authorRole: change.role } },
+            { timestamps: false }
+          );
+          corrected += result.modifiedCount;
+        }
+        continue;
+      }
+
+      // Without a matching status change the post's last update is the best date we have
+      await PostComment.create({
+        postId: post._id,
+        ...(change
+          ? { authorId: change.changedBy, authorRole: change.role }
+          : { authorRole: 'system' }),
+        body: post.feedback,
+        createdAt: change?.changedAt || post.updatedAt,
+        updatedAt: change?.changedAt || post.updatedAt
+      });
+
+      migrated++;
+    }
+
+    console.log(`Migrated feedback of ${migrated} post(s) into comments (${posts.length - migrated} skipped, ${corrected} corrected)`);
+  } catch (error) {
+    console.error('Error migrating post feedback:', error);
+  } finally {
+    await mongoose.disconnect();
+    process.exit(0);
+  }
+};
+
+migratePostFeedback();
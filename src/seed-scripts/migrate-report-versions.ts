@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+import { Report } from '../models/Report';
+import { config } from '../config/config';
+
+/**
+ * Give every report stored before versioning a history with its current file
+ * as version 1. Size and checksum of those files are unknown and left empty.
+ * Reports that already have versions are left alone, so the script can be run
+ * more than once.
+ */
+const migrateReportVersions = async () => {
+  try {
+    // Connect to MongoDB
+    await mongoose.connect(config.mongoose.url!);
+    console.log('Connected to MongoDB');
+
+    const reports = await Report.collection
+      .find({ $or: [{ versions: { $exists: false } }, { versions: { $size: 0 } }] })
+      .project({ _id: 1, key: 1, source: 1, uploadedBy: 1, createdAt: 1, updatedAt: 1 })
+      .toArray();
+
+    for (const report of reports) {
+      await Report.collection.updateOne(
+        { _id: report._id },
+        {
+          $set: {
+            currentVersion: 1,
+            versions: [{
+              version: 1,
+              key: report.key,
+              source: report.source || 'upload',
+              uploadedBy: report.uploadedBy,
+              uploadedAt: report.updatedAt || report.createdAt
+            }]
+          }
+        }
+      );
+    }
+
+    console.log(`Migrated ${reports.length} report(s)`);
+  } catch (error) {
+    console.error('Error migrating report versions:', error);
+  } finally {
+    await mongoose.disconnect();
+    process.exit(0);
+  }
+};
+
+migrateReportVersions();
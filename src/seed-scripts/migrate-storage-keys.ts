@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+import { Post } from '../models/Post';
+import { PostRevision } from '../models/PostRevision';
+import { Report } from '../models/Report';
+import { config } from '../config/config';
+import { S3StorageDriver } from '../services/storage';
+import { StorageService } from '../services/storageService';
+
+const s3 = new S3StorageDriver();
+
+// Legacy records hold public S3 URLs; anything else goes through the active driver
+const toKey = (value: string): string => s3.getKeyFromUrl(value) || StorageService.toKey(value);
+
+// Replace image URLs with keys on every document of a model that still has any
+const migrateImages = async (model: mongoose.Model<any>): Promise<number> => {
+  const documents = await model
+    .find({ images: { $regex: '^[a-z][a-z0-9+.-]*://', $options: 'i' } })
+    .select('_id images')
+    .lean();
+
+  for (const document of documents) {
+    await model.updateOne(
+      { _id: document._id },
+      { $set: { images: document.images.map(toKey) } }
+    );
+  }
+
+  return documents.length;
+};
+
+/**
+ * Replace the public file URLs stored on reports, posts and post revisions
+ * with storage keys. Records that already hold keys are left alone,
+ * so the script can be run more than once.
+ */
+const migrateStorageKeys = async () => {
+  try {
+    // Connect to MongoDB
+    await mongoose.connect(config.mongoose.url!);
+    console.log('Connected to MongoDB');
+
+    // Reports: `url` becomes `key`; the old field is no longer in the schema
+    const reports = await Report.collection
+      .find({ url: { $exists: true } })
+      .project({ _id: 1, url: 1 })
+      .toArray();
+
+    for (const report of reports) {
+      await Report.collection.updateOne(
+        { _id: report._id },
+        { $set: { key: toKey(report.url) }, $unset: { url: '' } }
+      );
+    }
+    console.log(`Migrated ${reports.length} report(s)`);
+
+    // Posts and revisions: images hold keys instead of URLs
+    console.log(`Migrated images of ${await migrateImages(Post)} post(s)`);
+    console.log(`Migrated images of ${await migrateImages(PostRevision)} revision(s)`);
+  } catch (error) {
+    console.error('Error migrating storage keys:', error);
+  } finally {
+    await mongoose.disconnect();
+    process.exit(0);
+  }
+};
+
+migrateStorageKeys();
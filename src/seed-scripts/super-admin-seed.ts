@@ -1,5 +1,4 @@
 import mongoose from 'mongoose';
-import bcrypt from 'bcryptjs';
 import { User } from '../models/User';
 import { config } from '../config/config';
 
@@ -16,11 +15,7 @@ const createSuperAdmin = async () => {
       process.exit(0);
     }
 
-    // Hash password
-    const salt = await bcrypt.genSalt(10);
-    const hashedPassword = await bcrypt.hash('superadmin123', salt);
-
-    // Create super admin
+    // Create super admin; the password is hashed by the User model
     const superAdmin = await User.create({
       name: 'Super Admin',
       email: 'super@blowlin.com',
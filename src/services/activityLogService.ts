@@ -18,6 +18,18 @@ export class ActivityLogService {
     });
   }
 
+  static async logSystemActivity(
+    action: string,
+    meta: Record<string, any> = {}
+  ): Promise<IActivityLogs> {
+    return await ActivityLogs.create({
+      role: 'system',
+      action,
+      meta,
+      timestamp: new Date()
+    });
+  }
+
   static async getUserActivities(
     userId: mongoose.Types.ObjectId | string,
     limit: number = 10
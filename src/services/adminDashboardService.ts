@@ -3,6 +3,21 @@ import { Founder, IFounder } from '../models/Founder';
 import { User } from '../models/User';
 import { FounderMetrics } from '../models/FounderMetrics';
 import { Assignment } from '../models/Assignment';
+import { Report } from '../models/Report';
+import { ReportComment } from '../models/ReportComment';
+import { MetricsService } from './metricsService';
+import { AssignmentService } from './assignmentService';
+import { GoalService } from './goalService';
+import { DashboardService, getGraphPeriods } from './dashboardService';
+import {
+  DateRangeOptions,
+  resolveDateRange,
+  getPreviousDateRange,
+  getDaysLeftInMonth
+} from '../utils/timeUtils';
+
+// Reports count as overdue for acknowledgement after this many days by default
+export const DEFAULT_UNACKNOWLEDGED_REPORT_DAYS = 7;
 
 // Type guard to check if a founder object has been populated with its user data
 function isPopulatedFounder(obj: any): obj is IFounder & {
@@ -76,22 +91,19 @@ export class AdminDashboardService {
   /**
    * Get main dashboard statistics for an admin
    * @param adminId The ID of the admin
+   * @param options Date range, defaulting to the current month in UTC
    * @returns Dashboard statistics
    */
-  static async getAdminDashboardStats(adminId: string): Promise<any> {
-    // Get current date and previous month
-    const currentDate = new Date();
-    const currentMonth = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
-    
-    const prevMonthDate = new Date(currentDate);
-    prevMonthDate.setMonth(prevMonthDate.getMonth() - 1);
-    const prevMonth = `${prevMonthDate.getFullYear()}-${String(prevMonthDate.getMonth() + 1).padStart(2, '0')}`;
+  static async getAdminDashboardStats(adminId: string, options: DateRangeOptions = {}): Promise<any> {
+    const range = resolveDateRange(options, 1);
 
     // Get assigned founders
+    // Metrics and goals use the founder's User ID; assignments point at the Founder document
     const assignments = await Assignment.find({ adminId }).populate('founderId').lean();
-    const assignedFounderIds = assignments.map(assignment => 
-      typeof assignment.founderId === 'object' ? assignment.founderId._id : assignment.founderId
-    );
+    const assignedFounders = assignments
+      .map(assignment => assignment.founderId as any)
+      .filter(founder => founder && founder.userId);
+    const assignedFounderIds = assignedFounders.map(founder => founder.userId);
     const assignedFoundersCount = assignedFounderIds.length;
 
     // Get total active founders for comparison
@@ -102,7 +114,7 @@ export class AdminDashboardService {
     // Get metrics completion rate
     const foundersWithCurrentMonthMetrics = await FounderMetrics.distinct('founderId', { 
       founderId: { $in: assignedFounderIds },
-      month: currentMonth
+      month: { $in: range.months }
     });
     
     const metricsCompletionRate = assignedFoundersCount > 0 
@@ -112,30 +124,62 @@ export class AdminDashboardService {
     // Get average founder performance
     const currentMonthMetrics = await FounderMetrics.find({ 
       founderId: { $in: assignedFounderIds },
-      month: currentMonth
+      month: { $in: range.months }
     });
     
     const totalImpressions = currentMonthMetrics.reduce((sum, metric) => sum + (metric.totalImpressions || 0), 0);
     const totalEngagement = currentMonthMetrics.reduce((sum, metric) => sum + (metric.totalCommentOutreach || 0), 0);
     const avgImpressions = currentMonthMetrics.length > 0 ? Math.round(totalImpressions / currentMonthMetrics.length) : 0;
     const avgEngagement = currentMonthMetrics.length > 0 ? Math.round(totalEngagement / currentMonthMetrics.length) : 0;
+    const engagement = MetricsService.summarizeEngagement(currentMonthMetrics);
 
-    // Get metrics needing attention (founders without updates in last 30 days)
-    const thirtyDaysAgo = new Date();
+    // Get metrics needing attention (founders without updates in the 30 days up to the end of the period or behind their goals)
+    const attentionEnd = new Date(Math.min(range.end.getTime(), Date.now()));
+    const thirtyDaysAgo = new Date(attentionEnd);
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
     
     const recentlyUpdatedFounderIds = await FounderMetrics.distinct('founderId', { 
       founderId: { $in: assignedFounderIds },
-      createdAt: { $gte: thirtyDaysAgo }
+      createdAt: { $gte: thirtyDaysAgo, $lt: attentionEnd }
     });
     
-    const foundersNeedingAttention = assignedFounderIds.filter(
+    const foundersWithoutRecentMetrics = assignedFounderIds.filter(
       id => !recentlyUpdatedFounderIds.some(updatedId => 
         updatedId.toString() === id.toString()
       )
-    ).length;
+    ).map(id => id.toString());
+
+    // Goal attainment for the latest month of the period; founders behind target also need attention
+    const goalProgress = await GoalService.getProgress(assignedFounderIds.map(id => id.toString()), range.referenceMonth);
+    const progressByFounder = new Map(goalProgress.map(progress => [progress.founderId, progress]));
+
+    const attentionFounderIds = assignedFounderIds
+      .map(id => id.toString())
+      .filter(id => foundersWithoutRecentMetrics.includes(id) || progressByFounder.get(id)?.behindTarget);
+    const foundersNeedingAttention = attentionFounderIds.length;
+
+    const attentionUsers = await User.find({ _id: { $in: attentionFounderIds } }).select('name').lean();
+    const founderNames = new Map(attentionUsers.map(user => [user._id.toString(), user.name]));
+    const companyNames = new Map(assignedFounders.map(founder => [founder.userId.toString(), founder.companyName]));
+
+    const attentionFounders = attentionFounderIds.map(id => {
+      const progress = progressByFounder.get(id);
+
+      return {
+        founderId: id,
+        founderName: founderNames.get(id) || 'Unknown',
+        companyName: companyNames.get(id) || 'Unknown',
+        reasons: [
+          ...(foundersWithoutRecentMetrics.includes(id) ? ['no_recent_metrics'] : []),
+          ...(progress?.behindTarget ? ['behind_target'] : [])
+        ],
+        goalAttainment: progress?.attainment ?? null,
+        goalsBehind: progress ? progress.goals.filter(goal => goal.status === 'behind').map(goal => goal.metric) : []
+      };
+    });
 
     return {
+      range: DashboardService.describeRange(range),
       assignedFoundersCount: {
         count: assignedFoundersCount,
         totalActiveFounders,
@@ -150,28 +194,34 @@ export class AdminDashboardService {
         impressions: avgImpressions,
         engagement: avgEngagement,
         formattedImpressions: this.formatNumber(avgImpressions),
-        formattedEngagement: this.formatNumber(avgEngagement)
+        formattedEngagement: this.formatNumber(avgEngagement),
+        engagementRate: engagement.avgEngagementRate,
+        reactions: engagement.totalReactions,
+        followerGrowth: engagement.totalFollowerGrowth
       },
       metricsNeedingAttention: {
         count: foundersNeedingAttention,
-        percentage: assignedFoundersCount > 0 ? Math.round((foundersNeedingAttention / assignedFoundersCount) * 100) : 0
+        percentage: assignedFoundersCount > 0 ? Math.round((foundersNeedingAttention / assignedFoundersCount) * 100) : 0,
+        behindTargetCount: attentionFounders.filter(founder => founder.reasons.includes('behind_target')).length,
+        founders: attentionFounders
+      },
+      goalAttainment: {
+        month: range.referenceMonth,
+        ...GoalService.summarizeProgress(goalProgress)
       }
     };
   }
 
   /**
    * Get recent activities for an admin's dashboard
+   * Performance highlights compare the selected period with the period of the same length before it
    * @param adminId The ID of the admin
+   * @param options Date range, defaulting to the current month in UTC
    * @returns Recent activities data
    */
-  static async getAdminRecentActivities(adminId: string): Promise<any> {
-    // Get current date and previous month
-    const currentDate = new Date();
-    const currentMonth = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
-    
-    const prevMonthDate = new Date(currentDate);
-    prevMonthDate.setMonth(prevMonthDate.getMonth() - 1);
-    const prevMonth = `${prevMonthDate.getFullYear()}-${String(prevMonthDate.getMonth() + 1).padStart(2, '0')}`;
+  static async getAdminRecentActivities(adminId: string, options: DateRangeOptions = {}): Promise<any> {
+    const range = resolveDateRange(options, 1);
+    const prevRange = getPreviousDateRange(range);
 
     // Get assigned founders
     const assignments = await Assignment.find({ adminId }).populate('founderId').lean();
@@ -242,17 +292,10 @@ export class AdminDashboardService {
       month: string;
     }> = [];
     
-    // Compare current month with previous month for each founder
+    // Compare the period with the previous one for each founder
     for (const founderId of assignedFounderIds) {
-      const currentMonthMetric = await FounderMetrics.findOne({ 
-        founderId, 
-        month: currentMonth 
-      }).lean();
-      
-      const prevMonthMetric = await FounderMetrics.findOne({ 
-        founderId, 
-        month: prevMonth 
-      }).lean();
+      const currentMonthMetric = await this.sumMetrics(founderId, range.months);
+      const prevMonthMetric = await this.sumMetrics(founderId, prevRange.months);
       
       if (currentMonthMetric && prevMonthMetric) {
         const impressionsGrowth = prevMonthMetric.totalImpressions > 0 
@@ -279,7 +322,7 @@ export class AdminDashboardService {
           }
           
           performanceHighlights.push({
-            id: currentMonthMetric._id,
+            id: currentMonthMetric.id,
             founderName,
             companyName,
             impressionsGrowth,
@@ -293,10 +336,10 @@ export class AdminDashboardService {
     // Sort by highest growth
     performanceHighlights.sort((a, b) => Math.max(b.impressionsGrowth, b.engagementGrowth) - Math.max(a.impressionsGrowth, a.engagementGrowth));
 
-    // Get upcoming deadlines (founders without metrics for current month)
+    // Get upcoming deadlines (founders without metrics for the latest month of the period)
     const foundersWithCurrentMonthMetrics = await FounderMetrics.distinct('founderId', { 
       founderId: { $in: assignedFounderIds },
-      month: currentMonth
+      month: range.referenceMonth
     });
     
     const foundersWithoutCurrentMetrics = assignedFounderIds.filter(
@@ -331,8 +374,8 @@ export class AdminDashboardService {
           id: founder._id,
           founderName,
           companyName,
-          month: currentMonth,
-          daysLeft: this.getDaysLeftInMonth()
+          month: range.referenceMonth,
+          daysLeft: getDaysLeftInMonth(range.referenceMonth, range.timeZone)
         });
       }
     }
@@ -354,6 +397,7 @@ export class AdminDashboardService {
     ];
 
     return {
+      range: DashboardService.describeRange(range),
       latestMetricsUploads: formattedLatestUploads,
       performanceHighlights: performanceHighlights.slice(0, 5), // Top 5 only
       upcomingDeadlines,
@@ -364,20 +408,11 @@ export class AdminDashboardService {
   /**
    * Get graph data for an admin's dashboard
    * @param adminId The ID of the admin
-   * @returns Graph data
+   * @param options Date range and granularity, defaulting to the last 12 months, 4 quarters or 3 years
+   * @returns Graph data with one entry per period
    */
-  static async getAdminGraphData(adminId: string): Promise<any> {
-    // Get current date
-    const currentDate = new Date();
-    
-    // Generate last 12 months
-    const months: string[] = [];
-    for (let i = 0; i < 12; i++) {
-      const date = new Date(currentDate);
-      date.setMonth(date.getMonth() - i);
-      const monthStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      months.unshift(monthStr); // Add to beginning to maintain chronological order
-    }
+  static async getAdminGraphData(adminId: string, options: DateRangeOptions = {}): Promise<any> {
+    const range = resolveDateRange(options, getGraphPeriods(options));
 
     // Get assigned founders
     const assignments = await Assignment.find({ adminId }).populate('founderId').lean();
@@ -399,15 +434,15 @@ export class AdminDashboardService {
         companyName = founder.companyName || 'Unknown';
       }
       
-      const monthlyUpdates = await Promise.all(months.map(async (month) => {
+      const monthlyUpdates = await Promise.all(range.periods.map(async (period) => {
         const count = await FounderMetrics.countDocuments({ 
           founderId,
-          month,
+          month: { $in: period.months },
           uploadedBy: adminId
         });
         
         return {
-          month,
+          month: period.label,
           updatesCount: count
         };
       }));
@@ -436,7 +471,7 @@ export class AdminDashboardService {
       
       const currentMonthMetric = await FounderMetrics.findOne({ 
         founderId, 
-        month: months[months.length - 1] // Latest month
+        month: range.referenceMonth // Latest month
       }).lean();
       
       return {
@@ -445,7 +480,10 @@ export class AdminDashboardService {
         companyName,
         impressions: currentMonthMetric?.totalImpressions || 0,
         engagement: currentMonthMetric?.totalCommentOutreach || 0,
-        posts: currentMonthMetric?.totalPosts || 0
+        posts: currentMonthMetric?.totalPosts || 0,
+        engagementRate: currentMonthMetric?.engagementRate ?? null,
+        reactions: currentMonthMetric?.reactions || 0,
+        followerGrowth: currentMonthMetric?.followerGrowth || 0
       };
     }));
     
@@ -453,26 +491,30 @@ export class AdminDashboardService {
     founderPerformanceComparison.sort((a, b) => b.impressions - a.impressions);
 
     // Get metrics trends over time
-    const metricsTrends = await Promise.all(months.map(async (month) => {
+    const metricsTrends = await Promise.all(range.periods.map(async (period) => {
       const metrics = await FounderMetrics.find({ 
         founderId: { $in: assignedFounderIds },
-        month
+        month: { $in: period.months }
       });
       
       const totalImpressions = metrics.reduce((sum, metric) => sum + (metric.totalImpressions || 0), 0);
       const totalEngagement = metrics.reduce((sum, metric) => sum + (metric.totalCommentOutreach || 0), 0);
       const totalPosts = metrics.reduce((sum, metric) => sum + (metric.totalPosts || 0), 0);
       const metricsCount = metrics.length;
+      const engagement = MetricsService.summarizeEngagement(metrics);
       
       return {
-        month,
+        month: period.label,
         totalImpressions,
         totalEngagement,
         totalPosts,
         metricsCount,
         avgImpressions: metricsCount > 0 ? Math.round(totalImpressions / metricsCount) : 0,
         avgEngagement: metricsCount > 0 ? Math.round(totalEngagement / metricsCount) : 0,
-        avgPosts: metricsCount > 0 ? Math.round(totalPosts / metricsCount) : 0
+        avgPosts: metricsCount > 0 ? Math.round(totalPosts / metricsCount) : 0,
+        avgEngagementRate: engagement.avgEngagementRate,
+        totalReactions: engagement.totalReactions,
+        totalFollowerGrowth: engagement.totalFollowerGrowth
       };
     }));
 
@@ -528,6 +570,7 @@ export class AdminDashboardService {
     });
 
     return {
+      range: DashboardService.describeRange(range),
       metricsUpdateFrequency,
       founderPerformanceComparison,
       metricsTrends,
@@ -535,22 +578,90 @@ export class AdminDashboardService {
     };
   }
 
+  /**
+   * Get reports of an admin's founders that the founder has not acknowledged
+   * @param adminId The ID of the admin
+   * @param olderThanDays Only include reports stored at least this many days ago
+   * @returns The reports, longest outstanding first
+   */
+  static async getUnacknowledgedReports(
+    adminId: string,
+    olderThanDays: number = DEFAULT_UNACKNOWLEDGED_REPORT_DAYS
+  ): Promise<any> {
+    const assignments = await AssignmentService.getAssignedFounders(adminId);
+    const founders = new Map(assignments.map((assignment: any) => [assignment.founderId.toString(), assignment.founder]));
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - olderThanDays);
+
+    const reports = await Report.find({
+      founderId: { $in: [...founders.keys()] },
+      acknowledgedAt: null,
+      $or: [
+        { uploadedAt: { $lte: cutoff } },
+        // Reports from before versioning have no uploadedAt
+        { uploadedAt: { $exists: false }, createdAt: { $lte: cutoff } }
+      ]
+    })
+      .select('founderId month currentVersion uploadedAt viewedAt createdAt')
+      .lean();
+
+    // Unanswered questions of each report
+    const openQuestions = await ReportComment.aggregate([
+      { $match: { reportId: { $in: reports.map(report => report._id) }, parentId: null, resolved: false } },
+      { $group: { _id: '$reportId', count: { $sum: 1 } } }
+    ]);
+    const openQuestionCounts = new Map(openQuestions.map(entry => [entry._id.toString(), entry.count]));
+
+    const now = Date.now();
+    const items = reports
+      .map(report => {
+        const founder = founders.get(report.founderId.toString());
+        const uploadedAt = report.uploadedAt || report.createdAt;
+
+        return {
+          reportId: report._id,
+          founderId: report.founderId,
+          founderName: founder?.name || 'Unknown',
+          companyName: founder?.profile?.companyName || null,
+          month: report.month,
+          version: report.currentVersion,
+          uploadedAt,
+          daysOutstanding: Math.floor((now - new Date(uploadedAt).getTime()) / (24 * 60 * 60 * 1000)),
+          viewed: Boolean(report.viewedAt),
+          viewedAt: report.viewedAt || null,
+          openQuestions: openQuestionCounts.get(report._id.toString()) || 0
+        };
+      })
+      .sort((a, b) => b.daysOutstanding - a.daysOutstanding);
+
+    return {
+      olderThanDays,
+      count: items.length,
+      unviewedCount: items.filter(item => !item.viewed).length,
+      reports: items
+    };
+  }
+
   /**
    * Get all dashboard data for an admin in a single request
    * @param adminId The ID of the admin
+   * @param options Date range shared by the stats, activities and graphs
    * @returns All dashboard data
    */
-  static async getAdminDashboardAll(adminId: string): Promise<any> {
-    const [stats, activities, graphData] = await Promise.all([
-      this.getAdminDashboardStats(adminId),
-      this.getAdminRecentActivities(adminId),
-      this.getAdminGraphData(adminId)
+  static async getAdminDashboardAll(adminId: string, options: DateRangeOptions = {}): Promise<any> {
+    const [stats, activities, graphData, unacknowledgedReports] = await Promise.all([
+      this.getAdminDashboardStats(adminId, options),
+      this.getAdminRecentActivities(adminId, options),
+      this.getAdminGraphData(adminId, options),
+      this.getUnacknowledgedReports(adminId)
     ]);
 
     return {
       stats,
       activities,
-      graphData
+      graphData,
+      unacknowledgedReports
     };
   }
 
@@ -570,12 +681,28 @@ export class AdminDashboardService {
   }
 
   /**
-   * Helper method to get days left in the current month
-   * @returns Number of days left in the current month
+   * Helper method to add up a founder's metrics over several months
+   * @param founderId ID of the founder
+   * @param months Months in YYYY-MM format
+   * @returns Totals with the ID and month of the latest metrics, or null without any metrics
    */
-  private static getDaysLeftInMonth(): number {
-    const date = new Date();
-    const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
-    return lastDay - date.getDate();
+  private static async sumMetrics(
+    founderId: mongoose.Types.ObjectId | string,
+    months: string[]
+  ): Promise<{ id: mongoose.Types.ObjectId; month: string; totalImpressions: number; totalCommentOutreach: number } | null> {
+    const metrics = await FounderMetrics.find({ founderId, month: { $in: months } })
+      .sort({ month: -1 })
+      .lean();
+
+    if (metrics.length === 0) {
+      return null;
+    }
+
+    return {
+      id: metrics[0]._id as mongoose.Types.ObjectId,
+      month: metrics[0].month,
+      totalImpressions: metrics.reduce((sum, metric) => sum + (metric.totalImpressions || 0), 0),
+      totalCommentOutreach: metrics.reduce((sum, metric) => sum + (metric.totalCommentOutreach || 0), 0)
+    };
   }
 }
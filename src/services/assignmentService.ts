@@ -1,8 +1,9 @@
 import mongoose from 'mongoose';
-import { Assignment, IAssignment } from '../models/Assignment';
+import { Assignment } from '../models/Assignment';
 import { User } from '../models/User';
 import { Founder } from '../models/Founder';
 import { Admin } from '../models/Admin';
+import { DashboardCacheService } from './dashboardCacheService';
 import AppError from '../utils/AppError';
 
 type AdminDetails = {
@@ -11,14 +12,6 @@ type AdminDetails = {
   email: string;
 };
 
-type FounderDetails = {
-  founderId: string;
-  name: string;
-  email: string;
-  companyName: string;
-  industry?: string;
-};
-
 export class AssignmentService {
   /**
    * Assign multiple admins to a founder
@@ -55,6 +48,9 @@ export class AssignmentService {
       }
     }
 
+    // Admins losing the founder need fresh dashboards as well
+    const previousAdminIds = (await Assignment.distinct('adminId', { founderId: founder._id })).map(id => id.toString());
+
     // Start a transaction
     const session = await mongoose.startSession();
     session.startTransaction();
@@ -82,6 +78,8 @@ export class AssignmentService {
     } finally {
       session.endSession();
     }
+
+    await DashboardCacheService.invalidateAdmins([...previousAdminIds, ...adminIds]);
   }
 
   /**
@@ -322,6 +320,8 @@ export class AssignmentService {
       adminId: adminId,
       founderId: founder._id
     });
+
+    await DashboardCacheService.invalidateAdmins([adminId]);
   }
 
   /**
@@ -0,0 +1,40 @@
+import { config } from '../../config/config';
+import { CacheDriver, CacheDriverName } from './types';
+import { MemoryCacheDriver } from './memoryDriver';
+import { NullCacheDriver } from './nullDriver';
+
+export { CacheDriver, CacheDriverName } from './types';
+export { MemoryCacheDriver } from './memoryDriver';
+export { NullCacheDriver } from './nullDriver';
+export { RedisCacheDriver, RedisLikeClient } from './redisDriver';
+
+export const createCacheDriver = (name: CacheDriverName): CacheDriver => {
+  switch (name) {
+    case 'memory':
+      return new MemoryCacheDriver();
+    case 'none':
+      return new NullCacheDriver();
+    default:
+      throw new Error(`Unknown cache driver: ${name}`);
+  }
+};
+
+let driver: CacheDriver | null = null;
+
+/**
+ * Driver selected by config.cache.driver, created on first use
+ */
+export const getCacheDriver = (): CacheDriver => {
+  if (!driver) {
+    driver = createCacheDriver(config.cache.driver);
+  }
+  return driver;
+};
+
+/**
+ * Swap the active driver, e.g. for a RedisCacheDriver shared by several API instances
+ * @param next Driver to use from now on
+ */
+export const setCacheDriver = (next: CacheDriver): void => {
+  driver = next;
+};
@@ -0,0 +1,45 @@
+import { CacheDriver } from './types';
+
+/**
+ * Keeps values in process memory; each API instance has its own cache
+ */
+export class MemoryCacheDriver implements CacheDriver {
+  readonly entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.pruneExpired();
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  // Expired entries are otherwise only dropped when read again
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
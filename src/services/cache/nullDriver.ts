@@ -0,0 +1,14 @@
+import { CacheDriver } from './types';
+
+/**
+ * Stores nothing, so every read is a miss; turns caching off
+ */
+export class NullCacheDriver implements CacheDriver {
+  async get(): Promise<string | null> {
+    return null;
+  }
+
+  async set(): Promise<void> {}
+
+  async deleteByPrefix(): Promise<void> {}
+}
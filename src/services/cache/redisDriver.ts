@@ -0,0 +1,47 @@
+import { CacheDriver } from './types';
+
+/**
+ * The commands the Redis driver needs, as offered by ioredis and other Redis-compatible clients
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  scan(cursor: string, matchOption: 'MATCH', pattern: string, countOption: 'COUNT', count: number): Promise<[string, string[]]>;
+}
+
+// Characters with a meaning in SCAN MATCH patterns
+const escapePattern = (value: string): string => value.replace(/[*?[\]\\]/g, '\\$&');
+
+/**
+ * Keeps values in Redis, shared by every API instance
+ * Not selectable through config: install a client and pass it in with setCacheDriver
+ */
+export class RedisCacheDriver implements CacheDriver {
+  /**
+   * @param client Connected Redis client
+   * @param keyPrefix Prepended to every key, to share a Redis database with other apps
+   */
+  constructor(private client: RedisLikeClient, private keyPrefix = 'blowlin:') {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(this.keyPrefix + key);
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.set(this.keyPrefix + key, value, 'PX', Math.max(1, Math.round(ttlMs)));
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    const pattern = `${escapePattern(this.keyPrefix + prefix)}*`;
+    let cursor = '0';
+
+    do {
+      const [next, keys] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+      if (keys.length > 0) {
+        await this.client.del(...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+}
@@ -0,0 +1,24 @@
+export type CacheDriverName = 'memory' | 'none';
+
+export interface CacheDriver {
+  /**
+   * Read a value
+   * @param key Cache key
+   * @returns The stored value, or null if it is missing or expired
+   */
+  get(key: string): Promise<string | null>;
+
+  /**
+   * Store a value, replacing any existing value under the same key
+   * @param key Cache key, e.g. 'dashboard:platform:stats'
+   * @param value Value to store
+   * @param ttlMs How long the value stays valid
+   */
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+
+  /**
+   * Delete every value whose key starts with a prefix
+   * @param prefix Key prefix, e.g. 'dashboard:admin:123:'
+   */
+  deleteByPrefix(prefix: string): Promise<void>;
+}
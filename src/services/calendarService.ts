@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Post, PostStatus } from '../models/Post';
+import { Founder } from '../models/Founder';
+import { CalendarFeedToken } from '../models/CalendarFeedToken';
+import { PostService } from './postService';
+import AppError from '../utils/AppError';
+import { CalendarEvent, buildIcalCalendar } from '../utils/ical';
+import { formatDayInTimeZone, getZonedDayStart, shiftDay, shiftMonth } from '../utils/timeUtils';
+
+// Posts that take up a day in the calendar; rejected posts are not planned anywhere
+export const CALENDAR_STATUSES: PostStatus[] = ['pending', 'approved', 'scheduled', 'posted'];
+
+// Longest range the calendar returns at once, in days
+export const MAX_CALENDAR_DAYS = 92;
+
+// How far back the iCalendar feed reaches, in days
+const FEED_PAST_DAYS = 90;
+
+// Most events in one feed
+const FEED_MAX_EVENTS = 1000;
+
+// Length of a post's event in calendar apps
+const FEED_EVENT_MINUTES = 30;
+
+const FEED_EVENT_STATUS: Record<PostStatus, CalendarEvent['status']> = {
+  pending: 'TENTATIVE',
+  approved: 'TENTATIVE',
+  scheduled: 'CONFIRMED',
+  posted: 'CONFIRMED',
+  rejected: 'CANCELLED'
+};
+
+export interface CalendarOptions {
+  // First and last day, YYYY-MM-DD, both included
+  from?: string;
+  to?: string;
+  tz?: string;
+  status?: PostStatus;
+}
+
+export interface CalendarDay {
+  date: string;
+  posts: any[];
+  // More than one post for the same founder on this day
+  hasConflicts: boolean;
+}
+
+export interface ScheduleConflict {
+  postId: string;
+  status: PostStatus;
+  scheduledDate: Date;
+  caption: string;
+}
+
+/**
+ * Service for the content calendar and its iCalendar feed
+ */
+export class CalendarService {
+  /**
+   * Get the posts planned in a range of days, grouped by day
+   * @param scope founderId and adminId filters from PostService.getScopeFilters
+   * @param options Range of days, time zone and status; defaults to the current month in UTC
+   * @param now Current time
+   * @returns The resolved range and the days that have posts, in order
+   */
+  static async getCalendar(
+    scope: { founderId?: any; adminId?: any },
+    options: CalendarOptions = {},
+    now: Date = new Date()
+  ): Promise<{ from: string; to: string; timeZone: string; total: number; days: CalendarDay[] }> {
+    const timeZone = options.tz || 'UTC';
+    // Missing ends fall back to the month of the other end, or to the current month
+    const month = (options.from || options.to || formatDayInTimeZone(now, timeZone)).substring(0, 7);
+    const from = options.from || `${month}-01`;
+    const to = options.to || shiftDay(`${shiftMonth(from.substring(0, 7), 1)}-01`, -1);
+
+    const posts = await Post.find({
+      ...scope,
+      status: options.status || { $in: CALENDAR_STATUSES },
+      scheduledDate: {
+        $gte: getZonedDayStart(from, timeZone),
+        $lt: getZonedDayStart(shiftDay(to, 1), timeZone)
+      }
+    })
+      .select('-statusHistory')
+      .sort({ scheduledDate: 1, createdAt: 1 })
+      .lean();
+
+    const companyNames = await this.getCompanyNames(posts.map(post => post.founderId.toString()));
+
+    const days: CalendarDay[] = [];
+    for (const post of posts) {
+      const date = formatDayInTimeZone(post.scheduledDate!, timeZone);
+      let day = days[days.length - 1];
+      if (!day || day.date !== date) {
+        day = { date, posts: [], hasConflicts: false };
+        days.push(day);
+      }
+
+      const founderId = post.founderId.toString();
+      day.hasConflicts = day.hasConflicts || day.posts.some(other => other.founderId.toString() === founderId);
+      day.posts.push({
+        ...(await PostService.withSignedImages(post)),
+        companyName: companyNames.get(founderId) || null
+      });
+    }
+
+    return { from, to, timeZone, total: posts.length, days };
+  }
+
+  /**
+   * Find the other posts of a founder planned on the same day as a date
+   * @param founderId User ID of the founder
+   * @param scheduledDate Date to check
+   * @param timeZone Time zone the day is taken in
+   * @param excludePostId Post being scheduled, left out of the result
+   * @returns The posts on that day, in order
+   */
+  static async findConflicts(
+    founderId: string,
+    scheduledDate: Date,
+    timeZone: string = 'UTC',
+    excludePostId?: string
+  ): Promise<ScheduleConflict[]> {
+    const day = formatDayInTimeZone(scheduledDate, timeZone);
+
+    const posts = await Post.find({
+      founderId,
+      status: { $in: CALENDAR_STATUSES },
+      scheduledDate: {
+        $gte: getZonedDayStart(day, timeZone),
+        $lt: getZonedDayStart(shiftDay(day, 1), timeZone)
+      },
+      ...(excludePostId && { _id: { $ne: excludePostId } })
+    })
+      .select('status scheduledDate caption')
+      .sort({ scheduledDate: 1 })
+      .lean();
+
+    return posts.map(post => ({
+      postId: post._id.toString(),
+      status: post.status,
+      scheduledDate: post.scheduledDate!,
+      caption: this.excerpt(post.caption)
+    }));
+  }
+
+  /**
+   * Get the state of a founder's calendar feed token; the token itself is never returned
+   * @param founderId User ID of the founder
+   * @returns Whether a token exists, when it was created and last used
+   */
+  static async getFeedTokenStatus(founderId: string): Promise<{ active: boolean; createdAt: Date | null; lastUsedAt: Date | null }> {
+    const feedToken = await CalendarFeedToken.findOne({ founderId });
+
+    return {
+      active: !!feedToken,
+      createdAt: feedToken?.createdAt || null,
+      lastUsedAt: feedToken?.lastUsedAt || null
+    };
+  }
+
+  /**
+   * Create the calendar feed token of a founder, replacing any previous token
+   * @param founderId User ID of the founder
+   * @param createdBy ID of the user creating the token
+   * @returns The token, which is not stored and cannot be shown again
+   */
+  static async createFeedToken(founderId: string, createdBy: string): Promise<{ token: string; createdAt: Date }> {
+    const founder = await Founder.findOne({ userId: founderId });
+    if (!founder) {
+      throw new AppError('Founder not found', 404);
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+
+    // Rotating revokes the old token right away
+    await CalendarFeedToken.deleteOne({ founderId });
+    const feedToken = await CalendarFeedToken.create({
+      founderId,
+      tokenHash: this.hashToken(token),
+      createdBy
+    });
+
+    return { token, createdAt: feedToken.createdAt };
+  }
+
+  /**
+   * Revoke the calendar feed token of a founder
+   * @param founderId User ID of the founder
+   */
+  static async revokeFeedToken(founderId: string): Promise<void> {
+    const result = await CalendarFeedToken.deleteOne({ founderId });
+
+    if (result.deletedCount === 0) {
+      throw new AppError('No calendar feed token found for this founder', 404);
+    }
+  }
+
+  /**
+   * Build the iCalendar feed a token gives access to
+   * @param token Feed token from the feed URL
+   * @param now Current time
+   * @returns The calendar text
+   */
+  static async getFeed(token: string, now: Date = new Date()): Promise<string> {
+    // Unknown and revoked tokens look the same to the caller
+    const feedToken = /^[0-9a-f]{64}$/.test(token)
+      ? await CalendarFeedToken.findOne({ tokenHash: this.hashToken(token) })
+      : null;
+    if (!feedToken) {
+      throw new AppError('Calendar feed not found', 404);
+    }
+
+    const [founder, posts] = await Promise.all([
+      Founder.findOne({ userId: feedToken.founderId }).lean(),
+      Post.find({
+        founderId: feedToken.founderId,
+        status: { $in: CALENDAR_STATUSES },
+        scheduledDate: { $gte: new Date(now.getTime() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000) }
+      })
+        .select('status scheduledDate caption updatedAt')
+        .sort({ scheduledDate: 1 })
+        .limit(FEED_MAX_EVENTS)
+        .lean()
+    ]);
+
+    await CalendarFeedToken.updateOne({ _id: feedToken._id }, { $set: { lastUsedAt: now } });
+
+    const events: CalendarEvent[] = posts.map(post => ({
+      uid: `post-${post._id}@blowlin`,
+      start: post.scheduledDate!,
+      end: new Date(post.scheduledDate!.getTime() + FEED_EVENT_MINUTES * 60 * 1000),
+      summary: `${post.status.charAt(0).toUpperCase() + post.status.slice(1)}: ${this.excerpt(post.caption)}`,
+      description: post.caption,
+      status: FEED_EVENT_STATUS[post.status],
+      updatedAt: post.updatedAt
+    }));
+
+    return buildIcalCalendar(`${founder?.companyName || 'Founder'} content calendar`, events, now);
+  }
+
+  /**
+   * Company names of founders
+   * @param founderIds User IDs of the founders
+   * @returns Company name by founder User ID
+   */
+  private static async getCompanyNames(founderIds: string[]): Promise<Map<string, string>> {
+    const ids = [...new Set(founderIds)].map(id => new mongoose.Types.ObjectId(id));
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const founders = await Founder.find({ userId: { $in: ids } }).select('userId companyName').lean();
+    return new Map(founders.map(founder => [founder.userId.toString(), founder.companyName]));
+  }
+
+  /**
+   * First line of a caption, shortened for titles
+   * @param caption Post caption
+   * @returns At most 60 characters
+   */
+  private static excerpt(caption: string): string {
+    const firstLine = caption.split(/\r?\n/)[0].trim();
+    return firstLine.length > 60 ? `${firstLine.substring(0, 59)}…` : firstLine;
+  }
+
+  /**
+   * Hash a feed token for storage and lookup
+   * @param token Feed token
+   * @returns SHA-256 hex digest
+   */
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,61 @@
+import { DashboardCacheService } from './dashboardCacheService';
+import { MemoryCacheDriver, setCacheDriver } from './cache';
+import { formatMonthInTimeZone, shiftMonth } from '../utils/timeUtils';
+
+describe('DashboardCacheService', () => {
+  const currentMonth = formatMonthInTimeZone(new Date(), 'UTC');
+
+  beforeEach(() => {
+    setCacheDriver(new MemoryCacheDriver());
+  });
+
+  it('serves a repeated default request from the cache', async () => {
+    const compute = jest.fn(async () => 'graphs');
+
+    await DashboardCacheService.getPlatform('graphs', compute, {}, [12]);
+    const second = await DashboardCacheService.getPlatform('graphs', compute, {}, [12]);
+
+    expect(second.cacheHit).toBe(true);
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not share an entry between a default request and a single month', async () => {
+    const defaultRange = await DashboardCacheService.getPlatform('graphs', async () => '12 months', {}, [12]);
+    const singleMonth = await DashboardCacheService.getPlatform(
+      'graphs',
+      async () => '1 month',
+      { from: currentMonth, to: currentMonth },
+      [12]
+    );
+
+    expect(defaultRange.data).toBe('12 months');
+    expect(singleMonth.cacheHit).toBe(false);
+    expect(singleMonth.data).toBe('1 month');
+  });
+
+  it('keys a combined section by the default range of every part', async () => {
+    const adminId = 'admin-1';
+    await DashboardCacheService.getAdmin(adminId, 'all', async () => 'default', {}, [1, 12]);
+
+    // Same graph range as the default, but the stats now cover 12 months instead of one
+    const twelveMonths = await DashboardCacheService.getAdmin(
+      adminId,
+      'all',
+      async () => '12 months',
+      { from: shiftMonth(currentMonth, -11), to: currentMonth },
+      [1, 12]
+    );
+    const singleMonth = await DashboardCacheService.getAdmin(
+      adminId,
+      'all',
+      async () => '1 month',
+      { from: currentMonth, to: currentMonth },
+      [1, 12]
+    );
+
+    expect(twelveMonths.cacheHit).toBe(false);
+    expect(twelveMonths.data).toBe('12 months');
+    expect(singleMonth.cacheHit).toBe(false);
+    expect(singleMonth.data).toBe('1 month');
+  });
+});
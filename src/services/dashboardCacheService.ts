@@ -0,0 +1,137 @@
+import { Founder } from '../models/Founder';
+import { Assignment } from '../models/Assignment';
+import { config } from '../config/config';
+import { DateRangeOptions, parseDuration, resolveDateRange, describeDateRange } from '../utils/timeUtils';
+import logger from '../utils/logger';
+import { getCacheDriver } from './cache';
+
+export interface CachedResult<T> {
+  data: T;
+  generatedAt: Date;
+  cacheHit: boolean;
+}
+
+// The super admin dashboard is shared; admin dashboards are cached per admin
+const PLATFORM_SCOPE = 'platform';
+const adminScope = (adminId: string): string => `admin:${adminId}`;
+
+const keyPrefix = (scope: string): string => `dashboard:${scope}:`;
+
+// Keyed by the ranges the section actually covers, so a default range and an explicit one only
+// share an entry when they are the same. Defaults resolve against the current period, so entries
+// roll over when a new month starts.
+const entryName = (name: string, options?: DateRangeOptions, defaultPeriods: number[] = [1]): string => {
+  if (!options) {
+    return name;
+  }
+
+  const ranges = new Set(defaultPeriods.map(periods => describeDateRange(resolveDateRange(options, periods))));
+  return `${name}:${[...ranges].join('|')}`;
+};
+
+export class DashboardCacheService {
+  /**
+   * Get a super admin dashboard section, computing it on a cache miss
+   * @param name Section name, e.g. 'stats'
+   * @param compute Computes the section
+   * @param options Date range the section covers, cached separately per range
+   * @param defaultPeriods Number of periods each part of the section covers when no start month is given
+   * @returns The section with when it was computed and whether it came from the cache
+   */
+  static async getPlatform<T>(
+    name: string,
+    compute: () => Promise<T>,
+    options?: DateRangeOptions,
+    defaultPeriods?: number[]
+  ): Promise<CachedResult<T>> {
+    return this.getOrCompute(PLATFORM_SCOPE, entryName(name, options, defaultPeriods), compute);
+  }
+
+  /**
+   * Get an admin dashboard section, computing it on a cache miss
+   * @param adminId User ID of the admin
+   * @param name Section name, e.g. 'stats'
+   * @param compute Computes the section
+   * @param options Date range the section covers, cached separately per range
+   * @param defaultPeriods Number of periods each part of the section covers when no start month is given
+   * @returns The section with when it was computed and whether it came from the cache
+   */
+  static async getAdmin<T>(
+    adminId: string,
+    name: string,
+    compute: () => Promise<T>,
+    options?: DateRangeOptions,
+    defaultPeriods?: number[]
+  ): Promise<CachedResult<T>> {
+    return this.getOrCompute(adminScope(adminId), entryName(name, options, defaultPeriods), compute);
+  }
+
+  /**
+   * Drop the super admin dashboard, e.g. when a founder or admin joins the platform
+   */
+  static async invalidatePlatform(): Promise<void> {
+    await this.invalidate(PLATFORM_SCOPE);
+  }
+
+  /**
+   * Drop the super admin dashboard and the dashboards of the given admins
+   * @param adminIds User IDs of the admins
+   */
+  static async invalidateAdmins(adminIds: string[]): Promise<void> {
+    const scopes = [PLATFORM_SCOPE, ...new Set(adminIds.map(adminId => adminScope(adminId.toString())))];
+    await Promise.all(scopes.map(scope => this.invalidate(scope)));
+  }
+
+  /**
+   * Drop every dashboard that shows a founder: the super admin's and those of the assigned admins
+   * @param founderId User ID of the founder
+   */
+  static async invalidateFounder(founderId: string): Promise<void> {
+    let adminIds: string[] = [];
+
+    try {
+      const founder = await Founder.findOne({ userId: founderId }).select('_id').lean();
+      if (founder) {
+        adminIds = (await Assignment.distinct('adminId', { founderId: founder._id })).map(id => id.toString());
+      }
+    } catch (error) {
+      logger.warn('Could not look up the admins of a founder for cache invalidation', { founderId, error });
+    }
+
+    await this.invalidateAdmins(adminIds);
+  }
+
+  private static async getOrCompute<T>(scope: string, name: string, compute: () => Promise<T>): Promise<CachedResult<T>> {
+    const key = `${keyPrefix(scope)}${name}`;
+
+    // A broken cache only costs speed, the dashboard is computed instead
+    try {
+      const cached = await getCacheDriver().get(key);
+      if (cached) {
+        const { data, generatedAt } = JSON.parse(cached);
+        return { data, generatedAt: new Date(generatedAt), cacheHit: true };
+      }
+    } catch (error) {
+      logger.warn('Could not read a dashboard from the cache', { key, error });
+    }
+
+    const data = await compute();
+    const generatedAt = new Date();
+
+    try {
+      await getCacheDriver().set(key, JSON.stringify({ data, generatedAt }), parseDuration(config.cache.dashboardTtl));
+    } catch (error) {
+      logger.warn('Could not store a dashboard in the cache', { key, error });
+    }
+
+    return { data, generatedAt, cacheHit: false };
+  }
+
+  private static async invalidate(scope: string): Promise<void> {
+    try {
+      await getCacheDriver().deleteByPrefix(keyPrefix(scope));
+    } catch (error) {
+      logger.warn('Could not invalidate cached dashboards', { scope, error });
+    }
+  }
+}
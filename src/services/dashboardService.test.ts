@@ -0,0 +1,142 @@
+import mongoose from 'mongoose';
+import { DashboardService } from './dashboardService';
+import { User } from '../models/User';
+import { Founder } from '../models/Founder';
+import { FounderMetrics } from '../models/FounderMetrics';
+import { MemoryMongo } from '../test-utils/memoryMongo';
+import { listMonths } from '../utils/timeUtils';
+
+const db = new MemoryMongo();
+
+/**
+ * Seed one founder per admin, with metrics uploaded by that admin for every month
+ * @param adminCount Number of admins
+ * @param months Months to upload metrics for
+ */
+const seedPlatform = (adminCount: number, months: string[]) => {
+  for (let i = 0; i < adminCount; i++) {
+    const adminId = new mongoose.Types.ObjectId();
+    const founderUserId = new mongoose.Types.ObjectId();
+
+    db.seed(User, [
+      { _id: adminId, name: `Admin ${i + 1}`, role: 'admin' },
+      { _id: founderUserId, name: `Founder ${i + 1}`, role: 'founder' }
+    ]);
+    db.seed(Founder, [{ userId: founderUserId, companyName: `Company ${i + 1}`, industry: i % 2 === 0 ? 'SaaS' : 'Fintech' }]);
+    db.seed(FounderMetrics, months.map(month => ({
+      founderId: founderUserId,
+      uploadedBy: adminId,
+      month,
+      totalPosts: 10,
+      totalImpressions: 1000,
+      totalCommentOutreach: 5,
+      engagementRate: 4,
+      comments: 20,
+      reactions: 30,
+      followerGrowth: 15
+    })));
+  }
+};
+
+/**
+ * Structure of a value: the type of each leaf, with arrays reduced to their first item
+ */
+const shapeOf = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? [shapeOf(value[0])] : [];
+  }
+  if (value instanceof mongoose.Types.ObjectId) {
+    return 'ObjectId';
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, shapeOf(value[key])]));
+  }
+  return value === null ? 'null' : typeof value;
+};
+
+describe('DashboardService.getGraphData', () => {
+  beforeEach(() => db.install());
+  afterEach(() => db.restore());
+
+  it('uses the same number of queries whatever the number of admins and months', async () => {
+    seedPlatform(1, ['2025-06']);
+    const small = await DashboardService.getGraphData({ from: '2025-06', to: '2025-06' });
+    const smallQueries = [...db.queries];
+
+    db.reset();
+
+    const months = listMonths('2024-01', '2025-12');
+    seedPlatform(5, months);
+    const large = await DashboardService.getGraphData({ from: '2024-01', to: '2025-12' });
+
+    expect(db.queries).toEqual(smallQueries);
+    expect(db.queries).toHaveLength(3);
+
+    expect(small.platformGrowthTrends).toHaveLength(1);
+    expect(large.platformGrowthTrends).toHaveLength(24);
+    expect(large.adminActivity).toHaveLength(5);
+    expect(large.adminActivity[0].monthlyActivity).toHaveLength(24);
+  });
+
+  it('keeps the shape of its output', async () => {
+    seedPlatform(2, ['2025-05', '2025-06']);
+
+    const graphData = await DashboardService.getGraphData({ from: '2025-05', to: '2025-06' });
+
+    expect(shapeOf(graphData)).toEqual({
+      adminActivity: [{
+        adminId: 'ObjectId',
+        adminName: 'string',
+        monthlyActivity: [{ month: 'string', uploadsCount: 'number' }]
+      }],
+      industryDistribution: [{ count: 'number', industry: 'string' }],
+      metricsCompletionRate: [{ completionRate: 'number', month: 'string' }],
+      platformGrowthTrends: [{
+        avgEngagementRate: 'number',
+        metricsCount: 'number',
+        month: 'string',
+        totalCommentOutreach: 'number',
+        totalComments: 'number',
+        totalFollowerGrowth: 'number',
+        totalImpressions: 'number',
+        totalPosts: 'number',
+        totalReactions: 'number'
+      }],
+      range: { from: 'string', granularity: 'string', timeZone: 'string', to: 'string' }
+    });
+
+    expect(graphData.platformGrowthTrends[1]).toEqual({
+      month: '2025-06',
+      totalPosts: 20,
+      totalImpressions: 2000,
+      totalCommentOutreach: 10,
+      avgEngagementRate: 4,
+      totalComments: 40,
+      totalReactions: 60,
+      totalFollowerGrowth: 30,
+      metricsCount: 2
+    });
+    expect(graphData.adminActivity.map((admin: any) => admin.monthlyActivity)).toEqual([
+      [{ month: '2025-05', uploadsCount: 1 }, { month: '2025-06', uploadsCount: 1 }],
+      [{ month: '2025-05', uploadsCount: 1 }, { month: '2025-06', uploadsCount: 1 }]
+    ]);
+    expect(graphData.industryDistribution).toEqual(expect.arrayContaining([
+      { industry: 'SaaS', count: 1 },
+      { industry: 'Fintech', count: 1 }
+    ]));
+    expect(graphData.metricsCompletionRate).toEqual([
+      { month: '2025-05', completionRate: 100 },
+      { month: '2025-06', completionRate: 100 }
+    ]);
+  });
+
+  it('sums quarters from their months', async () => {
+    seedPlatform(1, ['2025-04', '2025-05']);
+
+    const graphData = await DashboardService.getGraphData({ from: '2025-04', to: '2025-06', granularity: 'quarter' });
+
+    expect(graphData.platformGrowthTrends).toHaveLength(1);
+    expect(graphData.platformGrowthTrends[0]).toMatchObject({ month: '2025-Q2', totalPosts: 20, metricsCount: 2 });
+    expect(graphData.adminActivity[0].monthlyActivity).toEqual([{ month: '2025-Q2', uploadsCount: 2 }]);
+  });
+});
@@ -3,6 +3,16 @@ import { Founder } from '../models/Founder';
 import { User } from '../models/User';
 import { FounderMetrics } from '../models/FounderMetrics';
 import { Assignment } from '../models/Assignment';
+import { FounderGoal } from '../models/FounderGoal';
+import { MetricsService } from './metricsService';
+import { GoalService } from './goalService';
+import {
+  DateRange,
+  DateRangeOptions,
+  Granularity,
+  resolveDateRange,
+  getPreviousDateRange
+} from '../utils/timeUtils';
 
 // Define interfaces for type safety
 // Define a type guard to check if an object is a populated Founder document
@@ -28,38 +38,19 @@ interface AdminAssignmentMap {
   [key: string]: any[];
 }
 
-interface MetricWithPopulatedData {
-  _id: mongoose.Types.ObjectId;
-  founderId: {
-    _id: mongoose.Types.ObjectId;
-    userId: {
-      _id: mongoose.Types.ObjectId;
-      name: string;
-      email?: string;
-    };
-    companyName: string;
-    industry?: string;
-  } | mongoose.Types.ObjectId;
-  uploadedBy: {
-    _id: mongoose.Types.ObjectId;
-    name: string;
-    email: string;
-  } | mongoose.Types.ObjectId;
-  month: string;
-  totalPosts: number;
-  totalImpressions: number;
-  totalCommentOutreach: number;
-  notes?: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
+// Periods shown by the dashboard graphs when no start month is given
+export const DEFAULT_GRAPH_PERIODS: Record<Granularity, number> = {
+  month: 12,
+  quarter: 4,
+  year: 3
+};
 
-interface AdminData {
-  _id: mongoose.Types.ObjectId;
-  name: string;
-  email: string;
-  [key: string]: any;
-}
+/**
+ * Number of periods the dashboard graphs cover when no start month is given
+ * @param options Date range options of the request
+ * @returns Default number of periods for the requested granularity
+ */
+export const getGraphPeriods = (options: DateRangeOptions): number => DEFAULT_GRAPH_PERIODS[options.granularity || 'month'];
 
 /**
  * Service for dashboard-related operations
@@ -67,36 +58,38 @@ interface AdminData {
 export class DashboardService {
   /**
    * Get main dashboard statistics for super admin
+   * Trends compare the selected period with the period of the same length before it
+   * @param options Date range, defaulting to the current month in UTC
    * @returns Dashboard statistics
    */
-  static async getMainDashboardStats(): Promise<any> {
-    // Get current date and previous month
-    const currentDate = new Date();
-    const currentMonth = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
-    
-    const prevMonthDate = new Date(currentDate);
-    prevMonthDate.setMonth(prevMonthDate.getMonth() - 1);
-    const prevMonth = `${prevMonthDate.getFullYear()}-${String(prevMonthDate.getMonth() + 1).padStart(2, '0')}`;
+  static async getMainDashboardStats(options: DateRangeOptions = {}): Promise<any> {
+    const range = resolveDateRange(options, 1);
+    const prevRange = getPreviousDateRange(range);
 
     // Get total active founders - consider all founders as active if isActive field is not present
-    const totalFounders = await Founder.countDocuments({ $or: [{ isActive: true }, { isActive: { $exists: false } }] });
+    const totalFounders = await Founder.countDocuments({
+      $or: [{ isActive: true }, { isActive: { $exists: false } }],
+      createdAt: { $lt: range.end }
+    });
     const totalFoundersPrevMonth = await Founder.countDocuments({ 
       $or: [{ isActive: true }, { isActive: { $exists: false } }],
-      createdAt: { $lt: prevMonthDate }
+      createdAt: { $lt: range.start }
     });
     const foundersTrend = totalFounders - totalFoundersPrevMonth;
 
-    // Get total posts published this month
-    const currentMonthMetrics = await FounderMetrics.find({ month: currentMonth });
+    // Get total posts published in the period
+    const currentMonthMetrics = await FounderMetrics.find({ month: { $in: range.months } });
     const totalPostsThisMonth = currentMonthMetrics.reduce((sum, metric) => sum + (metric.totalPosts || 0), 0);
     
-    const prevMonthMetrics = await FounderMetrics.find({ month: prevMonth });
+    const prevMonthMetrics = await FounderMetrics.find({ month: { $in: prevRange.months } });
     const totalPostsPrevMonth = prevMonthMetrics.reduce((sum, metric) => sum + (metric.totalPosts || 0), 0);
     const postsTrend = totalPostsThisMonth - totalPostsPrevMonth;
 
     // Get overall engagement metrics
     const totalImpressions = currentMonthMetrics.reduce((sum, metric) => sum + (metric.totalImpressions || 0), 0);
     const totalCommentOutreach = currentMonthMetrics.reduce((sum, metric) => sum + (metric.totalCommentOutreach || 0), 0);
+    const engagement = MetricsService.summarizeEngagement(currentMonthMetrics);
+    const prevEngagement = MetricsService.summarizeEngagement(prevMonthMetrics);
     
     // Get admin performance
     const uniqueAdminsThisMonth = new Set(currentMonthMetrics.map(metric => metric.uploadedBy.toString()));
@@ -111,7 +104,14 @@ export class DashboardService {
       ? Math.round((foundersWithMetricsThisMonth.size / totalFounders) * 100) 
       : 0;
 
+    // Get goal attainment of every founder with goals in the latest month of the period
+    const goalProgress = await GoalService.getProgress(
+      (await FounderGoal.distinct('founderId')).map(id => id.toString()),
+      range.referenceMonth
+    );
+
     return {
+      range: this.describeRange(range),
       totalActiveFounders: {
         count: totalFounders,
         trend: foundersTrend
@@ -122,7 +122,15 @@ export class DashboardService {
       },
       overallEngagement: {
         impressions: this.formatNumber(totalImpressions),
-        commentOutreach: this.formatNumber(totalCommentOutreach)
+        commentOutreach: this.formatNumber(totalCommentOutreach),
+        engagementRate: engagement.avgEngagementRate,
+        engagementRateTrend: engagement.avgEngagementRate !== null && prevEngagement.avgEngagementRate !== null
+          ? Math.round((engagement.avgEngagementRate - prevEngagement.avgEngagementRate) * 100) / 100
+          : null,
+        reactions: this.formatNumber(engagement.totalReactions),
+        reactionsTrend: engagement.totalReactions - prevEngagement.totalReactions,
+        followerGrowth: engagement.totalFollowerGrowth,
+        followerGrowthTrend: engagement.totalFollowerGrowth - prevEngagement.totalFollowerGrowth
       },
       adminPerformance: {
         activeAdmins: adminsUploadedThisMonth,
@@ -131,21 +139,24 @@ export class DashboardService {
       },
       metricsCompletion: {
         percentage: percentageFoundersUpdated
+      },
+      goalAttainment: {
+        month: range.referenceMonth,
+        ...GoalService.summarizeProgress(goalProgress)
       }
     };
   }
 
   /**
    * Get recent activities for the dashboard
+   * @param options Date range, defaulting to the current month in UTC
    * @returns Recent activities data
    */
-  static async getRecentActivities(): Promise<any> {
-    // Get current date
-    const currentDate = new Date();
-    const currentMonth = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
-    
-    // Get latest metrics uploads
-    const latestMetricsUploads = await FounderMetrics.find()
+  static async getRecentActivities(options: DateRangeOptions = {}): Promise<any> {
+    const range = resolveDateRange(options, 1);
+
+    // Get latest metrics uploads for months in the period
+    const latestMetricsUploads = await FounderMetrics.find({ month: { $in: range.months } })
       .sort({ createdAt: -1 })
       .limit(10)
       .populate('uploadedBy', 'name email')
@@ -201,11 +212,21 @@ export class DashboardService {
       };
     });
 
-    // Get top performing founders (highest impressions this month)
-    const topPerformingFounders = await FounderMetrics.find({ month: currentMonth })
-      .sort({ totalImpressions: -1 })
-      .limit(5)
-      .lean();
+    // Get top performing founders (highest impressions in the period)
+    const topPerformingFounders: Array<{ founderId: any; totalImpressions: number; totalPosts: number }> =
+      await FounderMetrics.aggregate([
+        { $match: { month: { $in: range.months } } },
+        {
+          $group: {
+            _id: '$founderId',
+            totalImpressions: { $sum: '$totalImpressions' },
+            totalPosts: { $sum: '$totalPosts' }
+          }
+        },
+        { $sort: { totalImpressions: -1 } },
+        { $limit: 5 },
+        { $project: { _id: 0, founderId: '$_id', totalImpressions: 1, totalPosts: 1 } }
+      ]);
       
     console.log('Top performing founders:', JSON.stringify(topPerformingFounders, null, 2));
     
@@ -244,11 +265,6 @@ export class DashboardService {
     
     // Format top performing founders
     const formattedTopFounders = topMetricsWithFounders.map((metric) => {
-      // Try to find previous month metrics for growth calculation
-      const prevMonthDate = new Date(currentDate);
-      prevMonthDate.setMonth(prevMonthDate.getMonth() - 1);
-      const prevMonth = `${prevMonthDate.getFullYear()}-${String(prevMonthDate.getMonth() + 1).padStart(2, '0')}`;
-      
       // Extract founder data if available
       const founder = typeof metric.founderId === 'object' ? metric.founderId : null;
       // Use type guard to safely access userId
@@ -265,8 +281,9 @@ export class DashboardService {
       };
     });
 
-    // Get admins requiring attention (no uploads in last 30 days)
-    const thirtyDaysAgo = new Date();
+    // Get admins requiring attention (no uploads in the 30 days up to the end of the period)
+    const attentionEnd = new Date(Math.min(range.end.getTime(), Date.now()));
+    const thirtyDaysAgo = new Date(attentionEnd);
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
     
     // Get all admins
@@ -274,7 +291,7 @@ export class DashboardService {
     
     // Get admins who have uploaded in the last 30 days
     const recentlyActiveAdminIds = await FounderMetrics.find({
-      createdAt: { $gte: thirtyDaysAgo }
+      createdAt: { $gte: thirtyDaysAgo, $lt: attentionEnd }
     }).distinct('uploadedBy');
     
     const recentlyActiveAdminIdStrings = recentlyActiveAdminIds.map(id => id.toString());
@@ -312,6 +329,28 @@ export class DashboardService {
       };
     }).sort((a, b) => b.assignedFoundersCount - a.assignedFoundersCount);
 
+    // Get founders behind their goals in the latest month of the period
+    const goalProgress = await GoalService.getProgress(
+      (await FounderGoal.distinct('founderId')).map(id => id.toString()),
+      range.referenceMonth
+    );
+    const behindProgress = goalProgress.filter(progress => progress.behindTarget);
+
+    const [behindUsers, behindFounders] = await Promise.all([
+      User.find({ _id: { $in: behindProgress.map(progress => progress.founderId) } }).select('name').lean(),
+      Founder.find({ userId: { $in: behindProgress.map(progress => progress.founderId) } }).select('userId companyName').lean()
+    ]);
+    const behindNames = new Map(behindUsers.map(user => [user._id.toString(), user.name]));
+    const behindCompanies = new Map(behindFounders.map(founder => [founder.userId.toString(), founder.companyName]));
+
+    const foundersBehindTarget = behindProgress.map(progress => ({
+      founderId: progress.founderId,
+      founderName: behindNames.get(progress.founderId) || 'Unknown',
+      companyName: behindCompanies.get(progress.founderId) || 'Unknown',
+      goalAttainment: progress.attainment,
+      goalsBehind: progress.goals.filter(goal => goal.status === 'behind').map(goal => goal.metric)
+    })).sort((a, b) => (a.goalAttainment ?? 0) - (b.goalAttainment ?? 0));
+
     // Get upcoming milestones
     // Founders approaching 100, 500, 1000 total posts
     const milestones = [100, 500, 1000];
@@ -342,101 +381,143 @@ export class DashboardService {
     }
 
     return {
+      range: this.describeRange(range),
       latestMetricsUploads: formattedLatestUploads,
       topPerformingFounders: formattedTopFounders,
       adminsRequiringAttention: formattedAdminsRequiringAttention,
+      foundersBehindTarget,
       upcomingMilestones: upcomingMilestones
     };
   }
 
   /**
    * Get graph data for the dashboard
-   * @returns Graph data
+   * Runs a fixed number of queries, however many admins and periods there are
+   * @param options Date range and granularity, defaulting to the last 12 months, 4 quarters or 3 years
+   * @returns Graph data with one entry per period
    */
-  static async getGraphData(): Promise<any> {
-    // Get platform-wide growth trends (last 12 months)
-    const months: string[] = [];
-    const currentDate = new Date();
-    
-    // Generate last 12 months
-    for (let i = 0; i < 12; i++) {
-      const date = new Date(currentDate);
-      date.setMonth(date.getMonth() - i);
-      const monthStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      months.unshift(monthStr); // Add to beginning to maintain chronological order
-    }
+  static async getGraphData(options: DateRangeOptions = {}): Promise<any> {
+    const range = resolveDateRange(options, getGraphPeriods(options));
+
+    // Trends, admin uploads and completion all come from one pass over the range's metrics,
+    // so the number of queries does not grow with the number of months or admins
+    const [[metricsFacets], [founderFacets], admins] = await Promise.all([
+      FounderMetrics.aggregate([
+        { $match: { month: { $in: range.months } } },
+        {
+          $facet: {
+            trends: [
+              {
+                $group: {
+                  _id: '$month',
+                  totalPosts: { $sum: '$totalPosts' },
+                  totalImpressions: { $sum: '$totalImpressions' },
+                  totalCommentOutreach: { $sum: '$totalCommentOutreach' },
+                  // Only metrics that report a rate count towards the average, like summarizeEngagement
+                  engagementRateTotal: { $sum: '$engagementRate' },
+                  engagementRateCount: { $sum: { $cond: [{ $isNumber: '$engagementRate' }, 1, 0] } },
+                  totalComments: { $sum: '$comments' },
+                  totalReactions: { $sum: '$reactions' },
+                  totalFollowerGrowth: { $sum: '$followerGrowth' },
+                  metricsCount: { $sum: 1 },
+                  founderIds: { $addToSet: '$founderId' }
+                }
+              }
+            ],
+            uploads: [
+              {
+                $group: {
+                  _id: { uploadedBy: '$uploadedBy', month: '$month' },
+                  uploadsCount: { $sum: 1 }
+                }
+              }
+            ]
+          }
+        }
+      ]),
+      Founder.aggregate([
+        {
+          $facet: {
+            industries: [
+              {
+                $group: {
+                  _id: '$industry',
+                  count: { $sum: 1 }
+                }
+              },
+              {
+                $sort: { count: -1 }
+              }
+            ],
+            total: [{ $count: 'count' }]
+          }
+        }
+      ]),
+      User.find({ role: 'admin' }).select('_id name').lean()
+    ]);
+
+    const trendsByMonth = new Map<string, any>(metricsFacets.trends.map((trend: any) => [trend._id, trend]));
+    const uploadCounts = new Map<string, number>(metricsFacets.uploads.map((upload: any) => [
+      `${upload._id.uploadedBy}:${upload._id.month}`,
+      upload.uploadsCount
+    ]));
+
+    // Get metrics for each period
+    const monthlyMetrics = range.periods.map((period) => {
+      const trends = period.months.map(month => trendsByMonth.get(month)).filter(Boolean);
+      const sum = (field: string): number => trends.reduce((total, trend) => total + (trend[field] || 0), 0);
+      const rateCount = sum('engagementRateCount');
 
-    // Get metrics for each month
-    const monthlyMetrics = await Promise.all(months.map(async (month) => {
-      const metrics = await FounderMetrics.find({ month });
-      
       return {
-        month,
-        totalPosts: metrics.reduce((sum, metric) => sum + (metric.totalPosts || 0), 0),
-        totalImpressions: metrics.reduce((sum, metric) => sum + (metric.totalImpressions || 0), 0),
-        totalCommentOutreach: metrics.reduce((sum, metric) => sum + (metric.totalCommentOutreach || 0), 0),
-        metricsCount: metrics.length
+        month: period.label,
+        totalPosts: sum('totalPosts'),
+        totalImpressions: sum('totalImpressions'),
+        totalCommentOutreach: sum('totalCommentOutreach'),
+        avgEngagementRate: rateCount > 0
+          ? Math.round((sum('engagementRateTotal') / rateCount) * 100) / 100
+          : null,
+        totalComments: sum('totalComments'),
+        totalReactions: sum('totalReactions'),
+        totalFollowerGrowth: sum('totalFollowerGrowth'),
+        metricsCount: sum('metricsCount')
       };
-    }));
+    });
 
     // Get admin activity comparison
-    const admins = await User.find({ role: 'admin' }).select('_id name').lean();
-    
-    const adminActivity = await Promise.all(admins.map(async (admin) => {
-      const monthlyActivity = await Promise.all(months.map(async (month) => {
-        const count = await FounderMetrics.countDocuments({ 
-          uploadedBy: admin._id,
-          month
-        });
-        
-        return {
-          month,
-          uploadsCount: count
-        };
-      }));
-      
-      return {
-        adminId: admin._id,
-        adminName: admin.name,
-        monthlyActivity
-      };
+    const adminActivity = admins.map((admin) => ({
+      adminId: admin._id,
+      adminName: admin.name,
+      monthlyActivity: range.periods.map((period) => ({
+        month: period.label,
+        uploadsCount: period.months.reduce((total, month) => total + (uploadCounts.get(`${admin._id}:${month}`) || 0), 0)
+      }))
     }));
 
-    // Get founder distribution by industry
-    const foundersByIndustry = await Founder.aggregate([
-      {
-        $group: {
-          _id: '$industry',
-          count: { $sum: 1 }
-        }
-      },
-      {
-        $sort: { count: -1 }
-      }
-    ]);
-
     // Format industry distribution
-    const industryDistribution = foundersByIndustry.map(item => ({
+    const industryDistribution = founderFacets.industries.map((item: any) => ({
       industry: item._id || 'Unknown',
       count: item.count
     }));
 
-    // Get metrics completion rate
-    const allFoundersCount = await Founder.countDocuments();
-    
-    const metricsCompletionRate = await Promise.all(months.map(async (month) => {
-      const foundersWithMetrics = await FounderMetrics.distinct('founderId', { month });
-      const completionRate = allFoundersCount > 0 
-        ? Math.round((foundersWithMetrics.length / allFoundersCount) * 100) 
+    // Get metrics completion rate: founders with metrics for any month of the period
+    const allFoundersCount = founderFacets.total[0]?.count || 0;
+
+    const metricsCompletionRate = range.periods.map((period) => {
+      const foundersWithMetrics = new Set(period.months.flatMap(month =>
+        (trendsByMonth.get(month)?.founderIds || []).map((id: mongoose.Types.ObjectId) => id.toString())
+      ));
+      const completionRate = allFoundersCount > 0
+        ? Math.round((foundersWithMetrics.size / allFoundersCount) * 100)
         : 0;
-      
+
       return {
-        month,
+        month: period.label,
         completionRate
       };
-    }));
+    });
 
     return {
+      range: this.describeRange(range),
       platformGrowthTrends: monthlyMetrics,
       adminActivity,
       industryDistribution,
@@ -444,6 +525,20 @@ export class DashboardService {
     };
   }
 
+  /**
+   * Describe a resolved date range for API responses
+   * @param range The range a dashboard section covers
+   * @returns First and last month, granularity and time zone
+   */
+  static describeRange(range: DateRange): { from: string; to: string; granularity: string; timeZone: string } {
+    return {
+      from: range.from,
+      to: range.to,
+      granularity: range.granularity,
+      timeZone: range.timeZone
+    };
+  }
+
   /**
    * Helper method to format large numbers (e.g., 1.2M, 5.3K)
    * @param num Number to format
@@ -1,58 +1,289 @@
+import path from 'path';
 import nodemailer from 'nodemailer';
 import { config } from '../config/config';
+import { NotificationType } from '../models/Notification';
+import { TemplateEngine, TemplateData, htmlToText } from '../utils/templateEngine';
+import { formatDuration } from '../utils/timeUtils';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
 
-const transporter = nodemailer.createTransport({
-  host: config.email.host,
-  port: config.email.port,
-  secure: config.email.secure,
-  auth: {
-    user: config.email.auth.user,
-    pass: config.email.auth.pass,
+// JSON and stream transports build the full message without sending it
+const createTransporter = () => {
+  switch (config.email.transport) {
+    case 'json':
+      return nodemailer.createTransport({ jsonTransport: true });
+    case 'stream':
+      return nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+    default:
+      return nodemailer.createTransport({
+        host: config.email.host,
+        port: config.email.port,
+        secure: config.email.secure,
+        auth: {
+          user: config.email.auth.user,
+          pass: config.email.auth.pass,
+        },
+      });
+  }
+};
+
+const transporter = createTransporter();
+
+// Templates live outside src so copy can change without touching code
+const templates = new TemplateEngine(
+  path.join(__dirname, '../../templates/email'),
+  config.env === 'production'
+);
+
+export interface WorkflowEmailItem {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Record<string, any>;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface EmailTemplate {
+  subject: string;
+  // Values for the shared layout, e.g. the footer line
+  layout?: TemplateData;
+  // Example values used by the preview route
+  sample: TemplateData;
+}
+
+const sampleLink = { url: `${config.cors.origin}/posts/000000000000000000000000`, label: 'View Post' };
+
+export const EMAIL_TEMPLATES: Record<string, EmailTemplate> = {
+  'password-reset': {
+    subject: 'Reset Your Password – Blowlin',
+    layout: {
+      footer: 'If you did not request a password reset, you can safely ignore this email — your password will remain unchanged.'
+    },
+    sample: {
+      name: 'Jane Doe',
+      url: `${config.cors.origin}/reset-password?token=sample`,
+      label: 'Reset Password',
+      buttonColor: '#EF4444',
+      expiresIn: formatDuration(config.passwordReset.expiresIn)
+    }
+  },
+  welcome: {
+    subject: '🎉 Welcome to Blowlin — Set Your Password',
+    layout: {
+      footer: 'If you have any questions or need help, just reach out — we’re here for you.'
+    },
+    sample: {
+      name: 'Jane Doe',
+      url: `${config.cors.origin}/set-password?token=sample`,
+      label: 'Set Your Password',
+      isFounder: true,
+      expiresIn: formatDuration(config.passwordReset.welcomeExpiresIn)
+    }
+  },
+  'post-created': {
+    subject: '{{ title }} – Blowlin',
+    layout: { showPreferences: true },
+    sample: { name: 'Jane Doe', title: 'New post awaiting approval', quote: 'Excited to share our Q3 results…', ...sampleLink }
+  },
+  'post-rejected': {
+    subject: '{{ title }} – Blowlin',
+    layout: { showPreferences: true },
+    sample: {
+      name: 'John Doe',
+      title: 'Post rejected',
+      feedback: true,
+      quote: 'Please shorten the intro.',
+      quoteColor: '#EF4444',
+      ...sampleLink
+    }
   },
-});
+  'report-uploaded': {
+    subject: '{{ title }} – Blowlin',
+    layout: { showPreferences: true },
+    sample: { name: 'Jane Doe', title: 'New monthly report', month: '2025-01', url: `${config.cors.origin}/reports`, label: 'View Report' }
+  },
+  'metrics-uploaded': {
+    subject: '{{ title }} – Blowlin',
+    layout: { showPreferences: true },
+    sample: { name: 'Jane Doe', title: 'New monthly metrics', month: '2025-01', url: `${config.cors.origin}/metrics`, label: 'View Metrics' }
+  },
+  notification: {
+    subject: '{{ title }} – Blowlin',
+    layout: { showPreferences: true },
+    sample: { name: 'Jane Doe', title: 'Update', message: 'Something changed on Blowlin.', url: config.cors.origin, label: 'Open Blowlin' }
+  },
+  digest: {
+    subject: 'Your daily Blowlin digest ({{ count }} update{{#unless single}}s{{/unless}})',
+    layout: { showPreferences: true },
+    sample: {
+      name: 'Jane Doe',
+      count: 2,
+      single: false,
+      items: [
+        { title: 'New post awaiting approval', message: 'Excited to share our Q3 results…', ...sampleLink },
+        { title: 'New monthly report', message: 'Your report for 2025-01 is ready', url: `${config.cors.origin}/reports`, label: 'View Report' }
+      ]
+    }
+  }
+};
+
+// Where each workflow event links to in the dashboard
+const workflowLink = (item: WorkflowEmailItem): { url: string; label: string } => {
+  switch (item.type) {
+    case 'post_created':
+    case 'post_rejected':
+      return { url: `${config.cors.origin}/posts/${item.data.postId}`, label: 'View Post' };
+    case 'report_uploaded':
+      return { url: `${config.cors.origin}/reports`, label: 'View Report' };
+    case 'metrics_uploaded':
+      return { url: `${config.cors.origin}/metrics`, label: 'View Metrics' };
+    default:
+      return { url: config.cors.origin, label: 'Open Blowlin' };
+  }
+};
+
+// Template and values for a single workflow event
+const workflowTemplate = (item: WorkflowEmailItem): { name: string; data: TemplateData } => {
+  const data = { title: item.title, message: item.message, ...workflowLink(item) };
+
+  switch (item.type) {
+    case 'post_created':
+      return { name: 'post-created', data: { ...data, quote: item.message } };
+    case 'post_rejected':
+      return {
+        name: 'post-rejected',
+        data: { ...data, feedback: Boolean(item.data.feedback), quote: item.data.feedback, quoteColor: '#EF4444' }
+      };
+    case 'report_uploaded':
+      return { name: 'report-uploaded', data: { ...data, month: item.data.month } };
+    case 'metrics_uploaded':
+      return { name: 'metrics-uploaded', data: { ...data, month: item.data.month } };
+    default:
+      return { name: 'notification', data };
+  }
+};
 
 export class EmailService {
+  /**
+   * Render an email template inside the shared layout
+   * @param name Template name, one of EMAIL_TEMPLATES
+   * @param data Values for the template; they are HTML-escaped in the body but not in the plain-text subject
+   * @returns Subject, HTML body and plain-text alternative
+   */
+  static renderTemplate(name: string, data: TemplateData): RenderedEmail {
+    const template = EMAIL_TEMPLATES[name];
+    if (!template) {
+      throw new AppError(`Email template '${name}' not found`, 404);
+    }
+
+    const context = { ...template.layout, ...data };
+    const html = templates.render('layouts/base', {
+      ...context,
+      body: templates.render(name, context)
+    });
+
+    return {
+      subject: templates.renderString(template.subject, context, 'text'),
+      html,
+      text: htmlToText(html)
+    };
+  }
+
+  /**
+   * Render an email template with its sample values, without sending it
+   * @param name Template name
+   * @returns Subject, HTML body and plain-text alternative
+   */
+  static previewTemplate(name: string): RenderedEmail {
+    const template = EMAIL_TEMPLATES[name];
+    if (!template) {
+      throw new AppError(`Email template '${name}' not found`, 404);
+    }
+
+    return this.renderTemplate(name, template.sample);
+  }
+
+  /**
+   * Send a message through the configured transport
+   * @param message Message options
+   * @returns Transport result; includes the built message for the json and stream transports
+   */
+  static async sendMail(message: nodemailer.SendMailOptions): Promise<any> {
+    const info = await transporter.sendMail({ from: config.email.from, ...message });
+
+    if (config.email.transport !== 'smtp') {
+      logger.debug({ message: 'Email built but not sent', to: message.to, subject: message.subject });
+    }
+
+    return info;
+  }
+
+  /**
+   * Render a template and send it
+   * @param email Recipient address
+   * @param name Template name
+   * @param data Values for the template
+   */
+  static async sendTemplate(email: string, name: string, data: TemplateData): Promise<void> {
+    const { subject, html, text } = this.renderTemplate(name, data);
+    await this.sendMail({ to: email, subject, html, text });
+  }
+
+  /**
+   * Send an email for a single workflow event
+   * @param email Recipient address
+   * @param name Recipient name
+   * @param item The event
+   */
+  static async sendWorkflowEmail(email: string, name: string, item: WorkflowEmailItem): Promise<void> {
+    const template = workflowTemplate(item);
+
+    try {
+      await this.sendTemplate(email, template.name, { ...template.data, name });
+    } catch (error) {
+      console.error('Error sending email:', error);
+      throw new Error('Error sending notification email');
+    }
+  }
+
+  /**
+   * Send one email summarising several workflow events
+   * @param email Recipient address
+   * @param name Recipient name
+   * @param items The events, oldest first
+   */
+  static async sendDigestEmail(email: string, name: string, items: WorkflowEmailItem[]): Promise<void> {
+    try {
+      await this.sendTemplate(email, 'digest', {
+        name,
+        count: items.length,
+        single: items.length === 1,
+        items: items.map(item => ({ title: item.title, message: item.message, ...workflowLink(item) }))
+      });
+    } catch (error) {
+      console.error('Error sending email:', error);
+      throw new Error('Error sending digest email');
+    }
+  }
+
   static async sendPasswordResetEmail(
     email: string,
     resetToken: string,
     name: string
   ): Promise<void> {
-    const resetUrl = `${config.cors.origin}/reset-password?token=${resetToken}`;
-  
-    const message = {
-      from: config.email.from,
-      to: email,
-      subject: 'Reset Your Password – Blowlin',
-      html: `
-        <div style="font-family: Arial, sans-serif; color: #333; max-width: 600px; margin: 0 auto; padding: 24px;">
-          <h2 style="color: #111;">Hi ${name},</h2>
-  
-          <p>We received a request to reset your password for your <strong>Blowlin</strong> account.</p>
-  
-          <p>If you made this request, please click the button below to reset your password:</p>
-  
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${resetUrl}" style="background-color: #EF4444; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; display: inline-block; font-weight: bold;">
-              Reset Password
-            </a>
-          </div>
-  
-          <p>If the button above doesn't work, copy and paste this link into your browser:</p>
-          <p style="word-break: break-word;"><a href="${resetUrl}" style="color: #1D4ED8;">${resetUrl}</a></p>
-  
-          <p><strong>Note:</strong> This link is valid for <strong>1 hour</strong> for your security.</p>
-  
-          <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
-  
-          <p>If you did not request a password reset, you can safely ignore this email — your password will remain unchanged.</p>
-  
-          <p style="margin-top: 32px;">Best regards,<br><strong>The Blowlin Team</strong></p>
-        </div>
-      `
-    };
-  
     try {
-      await transporter.sendMail(message);
+      await this.sendTemplate(email, 'password-reset', {
+        name,
+        url: `${config.cors.origin}/reset-password?token=${resetToken}`,
+        label: 'Reset Password',
+        buttonColor: '#EF4444',
+        expiresIn: formatDuration(config.passwordReset.expiresIn)
+      });
     } catch (error) {
       console.error('Error sending email:', error);
       throw new Error('Error sending password reset email');
@@ -65,47 +296,18 @@ export class EmailService {
     name: string,
     role: string
   ): Promise<void> {
-    const resetUrl = `${config.cors.origin}/set-password?token=${resetToken}`;
-    const isFounder = role === 'founder';
-  
-    const message = {
-      from: config.email.from,
-      to: email,
-      subject: '🎉 Welcome to Blowlin — Set Your Password',
-      html: `
-        <div style="font-family: Arial, sans-serif; color: #333; max-width: 600px; margin: 0 auto; padding: 24px;">
-          <h2 style="color: #111;">Hi ${name},</h2>
-  
-          <p>Welcome to <strong>Blowlin</strong>! Your account has been set up, and you're just one step away from getting started.</p>
-  
-          <p>Please set your password by clicking the button below:</p>
-  
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${resetUrl}" style="background-color: #1D4ED8; color: #fff; padding: 12px 20px; border-radius: 6px; text-decoration: none; display: inline-block; font-weight: bold;">
-              Set Your Password
-            </a>
-          </div>
-  
-          <p>If the button doesn’t work, you can also copy and paste this link into your browser:</p>
-          <p style="word-break: break-word;"><a href="${resetUrl}" style="color: #1D4ED8;">${resetUrl}</a></p>
-  
-          <p><strong>Note:</strong> This link will expire in <strong>24 hours</strong>.</p>
-  
-          <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
-  
-          <p>If you have any questions or need help, just reach out — we’re here for you.</p>
-  
-          <p style="margin-top: 32px;">Best regards,<br><strong>The Blowlin Team</strong></p>
-        </div>
-      `
-    };
-  
     try {
-      await transporter.sendMail(message);
+      await this.sendTemplate(email, 'welcome', {
+        name,
+        url: `${config.cors.origin}/set-password?token=${resetToken}`,
+        label: 'Set Your Password',
+        isFounder: role === 'founder',
+        expiresIn: formatDuration(config.passwordReset.welcomeExpiresIn)
+      });
     } catch (error) {
       console.error('Error sending email:', error);
       throw new Error('Error sending welcome email');
     }
   }
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,187 @@
+import { Post } from '../models/Post';
+import { Report } from '../models/Report';
+import { FounderMetrics, IFounderMetrics } from '../models/FounderMetrics';
+import { PostService } from './postService';
+import { ReportService } from './reportService';
+import { MetricsService } from './metricsService';
+import { DashboardService, getGraphPeriods } from './dashboardService';
+import { DateRangeOptions, resolveDateRange, shiftMonth } from '../utils/timeUtils';
+
+// Upcoming scheduled posts listed on the dashboard
+export const UPCOMING_POSTS_LIMIT = 5;
+
+type DeltaField =
+  | 'totalPosts'
+  | 'totalImpressions'
+  | 'totalCommentOutreach'
+  | 'engagementRate'
+  | 'comments'
+  | 'reactions'
+  | 'followerGrowth';
+
+const DELTA_FIELDS: DeltaField[] = [
+  'totalPosts',
+  'totalImpressions',
+  'totalCommentOutreach',
+  'engagementRate',
+  'comments',
+  'reactions',
+  'followerGrowth'
+];
+
+export interface MetricDelta {
+  current: number | null;
+  previous: number | null;
+  change: number | null;
+  percentChange: number | null;
+}
+
+/**
+ * Service for the founder's own dashboard
+ */
+export class FounderDashboardService {
+  /**
+   * Get the dashboard of a founder
+   * @param founderId User ID of the founder
+   * @param options Date range and granularity of the trend, defaulting to the last 12 months
+   * @returns Pending approvals, upcoming posts, month-over-month metrics, latest report and trend
+   */
+  static async getFounderDashboard(founderId: string, options: DateRangeOptions = {}): Promise<any> {
+    const range = resolveDateRange(options, getGraphPeriods(options));
+
+    const [pendingApprovals, upcomingPosts, metrics, latestReport] = await Promise.all([
+      this.getPendingApprovals(founderId),
+      this.getUpcomingPosts(founderId),
+      // The month before the range is needed for the first month-over-month comparison
+      FounderMetrics.find({
+        founderId,
+        month: { $gte: shiftMonth(range.from, -1), $lte: range.to }
+      }).sort({ month: 1 }).lean(),
+      this.getLatestReport(founderId)
+    ]);
+
+    return {
+      range: DashboardService.describeRange(range),
+      pendingApprovals,
+      upcomingPosts,
+      metrics: this.getMonthOverMonth(metrics as IFounderMetrics[], range.referenceMonth),
+      latestReport,
+      trends: range.periods.map(period => {
+        const periodMetrics = (metrics as IFounderMetrics[]).filter(metric => period.months.includes(metric.month));
+        const engagement = MetricsService.summarizeEngagement(periodMetrics);
+
+        return {
+          month: period.label,
+          totalPosts: periodMetrics.reduce((sum, metric) => sum + (metric.totalPosts || 0), 0),
+          totalImpressions: periodMetrics.reduce((sum, metric) => sum + (metric.totalImpressions || 0), 0),
+          totalCommentOutreach: periodMetrics.reduce((sum, metric) => sum + (metric.totalCommentOutreach || 0), 0),
+          avgEngagementRate: engagement.avgEngagementRate,
+          totalComments: engagement.totalComments,
+          totalReactions: engagement.totalReactions,
+          totalFollowerGrowth: engagement.totalFollowerGrowth,
+          metricsCount: periodMetrics.length
+        };
+      })
+    };
+  }
+
+  /**
+   * Count the posts waiting for the founder's approval
+   * @param founderId User ID of the founder
+   * @returns Count and when the oldest of them was created
+   */
+  private static async getPendingApprovals(founderId: string): Promise<{ count: number; oldestCreatedAt: Date | null }> {
+    const [count, oldest] = await Promise.all([
+      Post.countDocuments({ founderId, status: 'pending' }),
+      Post.findOne({ founderId, status: 'pending' }).sort({ createdAt: 1 }).select('createdAt').lean()
+    ]);
+
+    return {
+      count,
+      oldestCreatedAt: oldest ? oldest.createdAt : null
+    };
+  }
+
+  /**
+   * Get the next scheduled posts of a founder
+   * @param founderId User ID of the founder
+   * @returns Total count and the first posts, soonest first, with signed image URLs
+   */
+  private static async getUpcomingPosts(founderId: string): Promise<{ count: number; posts: any[] }> {
+    const filter = { founderId, status: 'scheduled', scheduledDate: { $gte: new Date() } };
+
+    const [count, posts] = await Promise.all([
+      Post.countDocuments(filter),
+      Post.find(filter)
+        .select('-statusHistory')
+        .sort({ scheduledDate: 1 })
+        .limit(UPCOMING_POSTS_LIMIT)
+        .populate('adminId', 'name email')
+        .lean()
+    ]);
+
+    return {
+      count,
+      posts: await Promise.all(posts.map(post => PostService.withSignedImages(post)))
+    };
+  }
+
+  /**
+   * Get the report of the latest month
+   * @param founderId User ID of the founder
+   * @returns The report with a signed download URL, or null without reports
+   */
+  private static async getLatestReport(founderId: string): Promise<any | null> {
+    const report = await Report.findOne({ founderId })
+      .sort({ month: -1 })
+      .populate('uploadedBy', 'name email')
+      .lean();
+
+    if (!report) {
+      return null;
+    }
+
+    return {
+      ...(await ReportService.withSignedUrl(report)),
+      viewed: !!report.viewedAt,
+      acknowledged: !!report.acknowledgedAt
+    };
+  }
+
+  /**
+   * Compare the latest uploaded month with the month before it
+   * @param metrics Metrics of the founder, oldest first
+   * @param upTo Latest month to consider
+   * @returns The compared months and a delta per field
+   */
+  private static getMonthOverMonth(
+    metrics: IFounderMetrics[],
+    upTo: string
+  ): { month: string; previousMonth: string; deltas: Record<DeltaField, MetricDelta> } {
+    // Metrics are uploaded after a month ends, so the current month is usually still empty
+    const uploaded = metrics.filter(metric => metric.month <= upTo);
+    const month = uploaded.length > 0 ? uploaded[uploaded.length - 1].month : upTo;
+    const previousMonth = shiftMonth(month, -1);
+
+    const current = metrics.find(metric => metric.month === month);
+    const previous = metrics.find(metric => metric.month === previousMonth);
+
+    const deltas = {} as Record<DeltaField, MetricDelta>;
+    for (const field of DELTA_FIELDS) {
+      const currentValue = current?.[field] ?? null;
+      const previousValue = previous?.[field] ?? null;
+      const change = currentValue !== null && previousValue !== null
+        ? Math.round((currentValue - previousValue) * 100) / 100
+        : null;
+
+      deltas[field] = {
+        current: currentValue,
+        previous: previousValue,
+        change,
+        percentChange: change !== null && previousValue ? Math.round((change / Math.abs(previousValue)) * 100) : null
+      };
+    }
+
+    return { month, previousMonth, deltas };
+  }
+}
@@ -0,0 +1,314 @@
+import mongoose from 'mongoose';
+import { FounderGoal, IFounderGoal, GoalMetric, GoalPeriod } from '../models/FounderGoal';
+import { FounderMetrics } from '../models/FounderMetrics';
+import { DashboardCacheService } from './dashboardCacheService';
+import AppError from '../utils/AppError';
+import { getQuarter } from '../utils/timeUtils';
+
+export type GoalStatus = 'met' | 'on_track' | 'behind' | 'no_data';
+
+interface GoalSetData {
+  period: GoalPeriod;
+  startMonth: string;
+  endMonth?: string | null;
+  targets: Partial<Record<GoalMetric, number>>;
+  notes?: string;
+}
+
+interface GoalUpdateData {
+  target?: number;
+  endMonth?: string | null;
+  notes?: string;
+}
+
+export interface GoalProgress {
+  goalId: string;
+  metric: GoalMetric;
+  period: GoalPeriod;
+  // The month (YYYY-MM) or quarter (YYYY-Qn) being measured
+  periodLabel: string;
+  target: number;
+  // What the target calls for by the measured month; quarterly counts grow month by month
+  expected: number;
+  actual: number | null;
+  attainment: number | null;
+  status: GoalStatus;
+}
+
+export interface FounderGoalProgress {
+  founderId: string;
+  month: string;
+  goals: GoalProgress[];
+  // Average attainment of the goals with data, each capped at 100
+  attainment: number | null;
+  behindTarget: boolean;
+}
+
+export interface GoalAttainmentSummary {
+  foundersWithGoals: number;
+  averageAttainment: number | null;
+  foundersMeetingTarget: number;
+  foundersBehindTarget: number;
+}
+
+// Rates are averaged over a quarter; every other metric adds up
+const RATE_METRICS: GoalMetric[] = ['engagementRate'];
+
+const roundTo = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export class GoalService {
+  /**
+   * Set targets for a founder from a month on
+   * Each metric gets its own goal; a goal for the same metric, period and start month is replaced
+   * @param founderId User ID of the founder
+   * @param userId ID of the user setting the goals
+   * @param data Period, start and optional end month, and a target per metric
+   * @returns The created or updated goals
+   */
+  static async setGoals(founderId: string, userId: string, data: GoalSetData): Promise<IFounderGoal[]> {
+    this.assertMonthRange(data.startMonth, data.endMonth);
+
+    const metrics = Object.keys(data.targets) as GoalMetric[];
+    if (metrics.length === 0) {
+      throw new AppError('At least one target is required', 400);
+    }
+
+    const goals = await Promise.all(metrics.map(async metric => {
+      const goal = await FounderGoal.findOneAndUpdate(
+        { founderId, metric, period: data.period, startMonth: data.startMonth },
+        {
+          $set: {
+            target: data.targets[metric],
+            endMonth: data.endMonth ?? null,
+            notes: data.notes,
+            setBy: userId
+          }
+        },
+        { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+      );
+
+      return goal!;
+    }));
+
+    await DashboardCacheService.invalidateFounder(founderId);
+
+    return goals;
+  }
+
+  /**
+   * List the goals of a founder
+   * @param founderId User ID of the founder
+   * @param month Only return the goals that apply to this month
+   * @returns Goals ordered by metric, period and newest start first
+   */
+  static async getGoals(founderId: string, month?: string): Promise<IFounderGoal[]> {
+    if (month) {
+      return this.getActiveGoals([founderId], month);
+    }
+
+    return FounderGoal.find({ founderId })
+      .sort({ metric: 1, period: 1, startMonth: -1 })
+      .populate('setBy', 'name email');
+  }
+
+  /**
+   * Change the target, end month or notes of a goal
+   * @param founderId User ID of the founder
+   * @param goalId ID of the goal
+   * @param userId ID of the user changing the goal
+   * @param data Fields to change
+   * @returns The updated goal
+   */
+  static async updateGoal(founderId: string, goalId: string, userId: string, data: GoalUpdateData): Promise<IFounderGoal> {
+    const goal = await this.getGoal(founderId, goalId);
+
+    if (data.endMonth !== undefined) {
+      this.assertMonthRange(goal.startMonth, data.endMonth);
+      goal.endMonth = data.endMonth;
+    }
+    if (data.target !== undefined) {
+      if (goal.metric === 'engagementRate' && data.target > 100) {
+        throw new AppError('Engagement rate targets cannot exceed 100', 400);
+      }
+      goal.target = data.target;
+    }
+    if (data.notes !== undefined) {
+      goal.notes = data.notes;
+    }
+
+    goal.setBy = new mongoose.Types.ObjectId(userId);
+    await goal.save();
+    await DashboardCacheService.invalidateFounder(founderId);
+
+    return goal;
+  }
+
+  /**
+   * Delete a goal
+   * @param founderId User ID of the founder
+   * @param goalId ID of the goal
+   * @returns The deleted goal
+   */
+  static async deleteGoal(founderId: string, goalId: string): Promise<IFounderGoal> {
+    const goal = await this.getGoal(founderId, goalId);
+    await goal.deleteOne();
+    await DashboardCacheService.invalidateFounder(founderId);
+
+    return goal;
+  }
+
+  /**
+   * Get the goals that apply to a month
+   * When several goals for the same metric and period apply, the one that started last wins
+   * @param founderIds User IDs of the founders
+   * @param month Month in YYYY-MM format
+   * @returns The applicable goals
+   */
+  static async getActiveGoals(founderIds: string[], month: string): Promise<IFounderGoal[]> {
+    const goals = await FounderGoal.find({
+      founderId: { $in: founderIds },
+      startMonth: { $lte: month },
+      $or: [{ endMonth: null }, { endMonth: { $gte: month } }]
+    }).sort({ startMonth: -1 });
+
+    const seen = new Set<string>();
+    return goals.filter(goal => {
+      const key = `${goal.founderId}:${goal.metric}:${goal.period}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Measure founders' metrics against the goals that apply to a month
+   * Monthly goals compare the month's metrics with the target. Quarterly goals add up
+   * the quarter's months so far and compare them with the target's share for those months.
+   * @param founderIds User IDs of the founders
+   * @param month Month in YYYY-MM format
+   * @returns Progress of every founder with goals for the month
+   */
+  static async getProgress(founderIds: string[], month: string): Promise<FounderGoalProgress[]> {
+    const goals = await this.getActiveGoals(founderIds, month);
+    if (goals.length === 0) {
+      return [];
+    }
+
+    // Quarterly goals only count the quarter's months up to the measured month
+    const quarter = getQuarter(month);
+    const quarterMonths = quarter.months.filter(candidate => candidate <= month);
+
+    const metrics = await FounderMetrics.find({
+      founderId: { $in: [...new Set(goals.map(goal => goal.founderId.toString()))] },
+      month: { $in: quarterMonths }
+    }).lean();
+
+    const metricsByFounder = new Map<string, typeof metrics>();
+    for (const metric of metrics) {
+      const key = metric.founderId.toString();
+      metricsByFounder.set(key, [...(metricsByFounder.get(key) || []), metric]);
+    }
+
+    const progressByFounder = new Map<string, GoalProgress[]>();
+    for (const goal of goals) {
+      const founderId = goal.founderId.toString();
+      const months = goal.period === 'monthly' ? [month] : quarterMonths;
+
+      const values = (metricsByFounder.get(founderId) || [])
+        .filter(metric => months.includes(metric.month))
+        .map(metric => metric[goal.metric])
+        .filter((value): value is number => typeof value === 'number');
+
+      const isRate = RATE_METRICS.includes(goal.metric);
+      const actual = values.length === 0
+        ? null
+        : isRate
+          ? roundTo(values.reduce((sum, value) => sum + value, 0) / values.length, 2)
+          : values.reduce((sum, value) => sum + value, 0);
+
+      const expected = goal.period === 'quarterly' && !isRate
+        ? roundTo(goal.target * quarterMonths.length / 3, 2)
+        : goal.target;
+
+      const attainment = actual === null
+        ? null
+        : goal.target > 0 ? Math.round((actual / goal.target) * 100) : 100;
+
+      const status: GoalStatus = actual === null
+        ? 'no_data'
+        : actual >= goal.target ? 'met' : actual >= expected ? 'on_track' : 'behind';
+
+      progressByFounder.set(founderId, [...(progressByFounder.get(founderId) || []), {
+        goalId: goal.id,
+        metric: goal.metric,
+        period: goal.period,
+        periodLabel: goal.period === 'monthly' ? month : quarter.label,
+        target: goal.target,
+        expected,
+        actual,
+        attainment,
+        status
+      }]);
+    }
+
+    return [...progressByFounder.entries()].map(([founderId, progress]) => {
+      const measured = progress.filter(goal => goal.attainment !== null);
+
+      return {
+        founderId,
+        month,
+        goals: progress,
+        attainment: measured.length > 0
+          ? Math.round(measured.reduce((sum, goal) => sum + Math.min(goal.attainment!, 100), 0) / measured.length)
+          : null,
+        behindTarget: progress.some(goal => goal.status === 'behind')
+      };
+    });
+  }
+
+  /**
+   * Sum up the goal progress of several founders for a dashboard
+   * @param progress Progress from getProgress
+   * @returns Number of founders with goals, their average attainment and how many met or fell behind
+   */
+  static summarizeProgress(progress: FounderGoalProgress[]): GoalAttainmentSummary {
+    const measured = progress.filter(founder => founder.attainment !== null);
+
+    return {
+      foundersWithGoals: progress.length,
+      averageAttainment: measured.length > 0
+        ? Math.round(measured.reduce((sum, founder) => sum + founder.attainment!, 0) / measured.length)
+        : null,
+      foundersMeetingTarget: progress.filter(founder =>
+        founder.goals.length > 0 && founder.goals.every(goal => goal.status === 'met')
+      ).length,
+      foundersBehindTarget: progress.filter(founder => founder.behindTarget).length
+    };
+  }
+
+  private static async getGoal(founderId: string, goalId: string): Promise<IFounderGoal> {
+    if (!mongoose.Types.ObjectId.isValid(goalId)) {
+      throw new AppError('Invalid goal ID', 400);
+    }
+
+    const goal = await FounderGoal.findOne({ _id: goalId, founderId });
+
+    if (!goal) {
+      throw new AppError('Goal not found', 404);
+    }
+
+    return goal;
+  }
+
+  private static assertMonthRange(startMonth: string, endMonth?: string | null): void {
+    // Months are YYYY-MM, so they compare correctly as strings
+    if (endMonth && endMonth < startMonth) {
+      throw new AppError('End month cannot be before the start month', 400);
+    }
+  }
+}
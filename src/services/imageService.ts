@@ -0,0 +1,191 @@
+import sharp, { Metadata, Sharp, FormatEnum } from 'sharp';
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import AppError from '../utils/AppError';
+import { detectImageType, ImageMimeType, IMAGE_EXTENSIONS } from '../utils/fileType';
+import { getStorageDriver } from './storage';
+
+export type ImagePlatform = 'linkedin';
+
+interface PlatformImageRules {
+  minWidth: number;
+  minHeight: number;
+  // Width divided by height
+  minAspectRatio: number;
+  maxAspectRatio: number;
+  // Box the platform rendition is scaled to fit in
+  renditionWidth: number;
+  renditionHeight: number;
+}
+
+export const PLATFORM_IMAGE_RULES: Record<ImagePlatform, PlatformImageRules> = {
+  linkedin: {
+    minWidth: 552,
+    minHeight: 276,
+    minAspectRatio: 1 / 2.4,
+    maxAspectRatio: 2.4,
+    renditionWidth: 1200,
+    renditionHeight: 1500
+  }
+};
+
+export const IMAGE_PLATFORMS = Object.keys(PLATFORM_IMAGE_RULES) as ImagePlatform[];
+
+const THUMBNAIL_SIZE = 320;
+
+export interface ProcessedImage {
+  key: string;
+  thumbnailKey: string;
+  renditionKey: string;
+  platform: ImagePlatform;
+  mimeType: ImageMimeType;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+interface DecodedImage {
+  originalName: string;
+  buffer: Buffer;
+  mimeType: ImageMimeType;
+  width: number;
+  height: number;
+}
+
+export class ImageService {
+  /**
+   * Check uploaded images and store them with their thumbnail and platform renditions
+   * Every file is validated before anything is stored, so one bad file stores nothing
+   * @param files Image files from multer; their temporary copies are always removed
+   * @param folder Folder path in storage
+   * @param platform Platform whose rules the images must meet
+   * @returns One entry per file, in upload order
+   */
+  static async processUploads(
+    files: Express.Multer.File[],
+    folder: string,
+    platform: ImagePlatform = 'linkedin'
+  ): Promise<ProcessedImage[]> {
+    try {
+      const images: DecodedImage[] = [];
+      for (const file of files) {
+        images.push(await this.decode(file, platform));
+      }
+
+      return await Promise.all(images.map(image => this.store(image, folder, platform)));
+    } finally {
+      await Promise.all(files.map(file => fs.promises.rm(file.path, { force: true })));
+    }
+  }
+
+  /**
+   * Sniff, measure and validate one uploaded file
+   * @param file Image file from multer
+   * @param platform Platform whose rules the image must meet
+   * @returns Contents, type and upright dimensions of the image
+   */
+  private static async decode(file: Express.Multer.File, platform: ImagePlatform): Promise<DecodedImage> {
+    const buffer = await fs.promises.readFile(file.path);
+
+    const mimeType = detectImageType(buffer);
+    if (!mimeType) {
+      throw new AppError(`${file.originalname} is not a JPEG, PNG, GIF or WebP image`, 400);
+    }
+
+    let metadata: Metadata;
+    try {
+      metadata = await sharp(buffer).metadata();
+    } catch {
+      throw new AppError(`${file.originalname} could not be read as an image`, 400);
+    }
+
+    // EXIF orientations 5-8 are stored sideways
+    const sideways = (metadata.orientation || 1) >= 5;
+    const width = (sideways ? metadata.height : metadata.width) || 0;
+    const height = (sideways ? metadata.width : metadata.pageHeight || metadata.height) || 0;
+
+    const rules = PLATFORM_IMAGE_RULES[platform];
+    if (width < rules.minWidth || height < rules.minHeight) {
+      throw new AppError(
+        `${file.originalname} is ${width}x${height}; ${platform} images must be at least ${rules.minWidth}x${rules.minHeight}`,
+        400
+      );
+    }
+
+    const aspectRatio = width / height;
+    if (aspectRatio < rules.minAspectRatio || aspectRatio > rules.maxAspectRatio) {
+      throw new AppError(
+        `${file.originalname} has an aspect ratio of ${aspectRatio.toFixed(2)}; ${platform} accepts ${rules.minAspectRatio.toFixed(2)} to ${rules.maxAspectRatio.toFixed(2)}`,
+        400
+      );
+    }
+
+    return { originalName: file.originalname, buffer, mimeType, width, height };
+  }
+
+  /**
+   * Re-encode the image without metadata and store it with its renditions
+   * @param image Decoded image
+   * @param folder Folder path in storage
+   * @param platform Platform the rendition is made for
+   * @returns Keys and details of the stored image
+   */
+  private static async store(image: DecodedImage, folder: string, platform: ImagePlatform): Promise<ProcessedImage> {
+    const rules = PLATFORM_IMAGE_RULES[platform];
+    const animated = image.mimeType === 'image/gif';
+
+    // Re-encoding drops EXIF, GPS and other metadata; rotate() first bakes in the EXIF orientation
+    const source = () => animated
+      ? sharp(image.buffer, { animated: true })
+      : sharp(image.buffer).rotate();
+
+    const original = await source().toFormat(image.mimeType.split('/')[1] as keyof FormatEnum).toBuffer();
+
+    // Renditions keep transparency as PNG and use JPEG otherwise
+    const { hasAlpha } = await sharp(image.buffer).metadata();
+    const renditionType: ImageMimeType = hasAlpha ? 'image/png' : 'image/jpeg';
+    const encode = (pipeline: Sharp) => hasAlpha ? pipeline.png() : pipeline.jpeg({ quality: 85, mozjpeg: true });
+
+    const thumbnail = await encode(sharp(image.buffer).rotate().resize({
+      width: THUMBNAIL_SIZE,
+      height: THUMBNAIL_SIZE,
+      fit: 'inside',
+      withoutEnlargement: true
+    })).toBuffer();
+
+    const rendition = await encode(sharp(image.buffer).rotate().resize({
+      width: rules.renditionWidth,
+      height: rules.renditionHeight,
+      fit: 'inside',
+      withoutEnlargement: true
+    })).toBuffer();
+
+    const id = uuidv4();
+    const key = `${folder}/${id}${IMAGE_EXTENSIONS[image.mimeType]}`;
+    const thumbnailKey = `${folder}/${id}-thumb${IMAGE_EXTENSIONS[renditionType]}`;
+    const renditionKey = `${folder}/${id}-${platform}${IMAGE_EXTENSIONS[renditionType]}`;
+
+    const driver = getStorageDriver();
+    try {
+      await Promise.all([
+        driver.put(key, original, image.mimeType),
+        driver.put(thumbnailKey, thumbnail, renditionType),
+        driver.put(renditionKey, rendition, renditionType)
+      ]);
+    } catch (error) {
+      console.error('Error uploading image to storage:', error);
+      throw new AppError('Failed to upload image', 500);
+    }
+
+    return {
+      key,
+      thumbnailKey,
+      renditionKey,
+      platform,
+      mimeType: image.mimeType,
+      width: image.width,
+      height: image.height,
+      bytes: original.length
+    };
+  }
+}
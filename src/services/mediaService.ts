@@ -0,0 +1,176 @@
+import mongoose from 'mongoose';
+import { MediaAsset, IMediaAsset } from '../models/MediaAsset';
+import { StorageService } from './storageService';
+import { ProcessedImage } from './imageService';
+import AppError from '../utils/AppError';
+
+interface MediaListOptions {
+  search?: string;
+  unused?: boolean;
+  limit: number;
+  offset: number;
+}
+
+// Stored keys are plain paths; legacy and external images are full URLs
+const isStorageKey = (image: string): boolean => !/^[a-z][a-z0-9+.-]*:\/\//i.test(image);
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class MediaService {
+  /**
+   * Add freshly uploaded images to a founder's media library
+   * New assets are unreferenced until a post uses them
+   * @param images Processed images, in upload order
+   * @param files The uploaded files, in the same order
+   * @param founderId User ID of the founder the images belong to
+   * @param uploadedBy ID of the uploading user
+   * @returns The created assets
+   */
+  static async recordUploads(
+    images: ProcessedImage[],
+    files: Express.Multer.File[],
+    founderId: string,
+    uploadedBy: string
+  ): Promise<IMediaAsset[]> {
+    return MediaAsset.create(images.map((image, index) => ({
+      founderId,
+      uploadedBy,
+      key: image.key,
+      thumbnailKey: image.thumbnailKey,
+      renditionKey: image.renditionKey,
+      originalName: files[index].originalname,
+      mimeType: image.mimeType,
+      width: image.width,
+      height: image.height,
+      bytes: image.bytes,
+      postIds: [],
+      unreferencedSince: new Date()
+    })));
+  }
+
+  /**
+   * Make sure a post only uses images from its founder's library
+   * Images the post already has and external URLs are always allowed
+   * @param founderId User ID of the post's founder
+   * @param images Images the post is about to use, as keys
+   * @param currentImages Images the post uses now
+   */
+  static async assertUsableImages(
+    founderId: mongoose.Types.ObjectId | string,
+    images: string[],
+    currentImages: string[] = []
+  ): Promise<void> {
+    const newKeys = [...new Set(images)].filter(image => isStorageKey(image) && !currentImages.includes(image));
+    if (newKeys.length === 0) {
+      return;
+    }
+
+    const found = await MediaAsset.find({ founderId, key: { $in: newKeys } }).distinct('key');
+    const unknown = newKeys.filter(key => !found.includes(key));
+
+    if (unknown.length > 0) {
+      throw new AppError(`Images not found in this founder's media library: ${unknown.join(', ')}`, 400);
+    }
+  }
+
+  /**
+   * Record which assets a post uses now
+   * Assets the post stopped using start their grace period once no other post uses them
+   * @param postId ID of the post
+   * @param images The post's current images, as keys
+   */
+  static async syncPostReferences(postId: mongoose.Types.ObjectId | string, images: string[]): Promise<void> {
+    const keys = images.filter(isStorageKey);
+
+    await MediaAsset.updateMany(
+      { key: { $in: keys } },
+      { $addToSet: { postIds: postId }, $set: { unreferencedSince: null } }
+    );
+
+    const released = await MediaAsset.find({ postIds: postId, key: { $nin: keys } }).distinct('_id');
+    if (released.length === 0) {
+      return;
+    }
+
+    await MediaAsset.updateMany({ _id: { $in: released } }, { $pull: { postIds: postId } });
+    await MediaAsset.updateMany(
+      { _id: { $in: released }, postIds: { $size: 0 } },
+      { $set: { unreferencedSince: new Date() } }
+    );
+  }
+
+  /**
+   * Drop all references of a deleted post
+   * @param postId ID of the post
+   */
+  static async releasePost(postId: mongoose.Types.ObjectId | string): Promise<void> {
+    await this.syncPostReferences(postId, []);
+  }
+
+  /**
+   * Browse a founder's media library, newest first
+   * @param founderId User ID of the founder
+   * @param options Name search, unused-only filter and pagination
+   * @returns Assets and the total number of matches
+   */
+  static async getFounderMedia(
+    founderId: string,
+    options: MediaListOptions
+  ): Promise<{ assets: IMediaAsset[]; total: number }> {
+    const query: any = { founderId };
+
+    if (options.search) {
+      query.originalName = { $regex: escapeRegex(options.search), $options: 'i' };
+    }
+    if (options.unused) {
+      query.postIds = { $size: 0 };
+    }
+
+    const [assets, total] = await Promise.all([
+      MediaAsset.find(query)
+        .sort({ createdAt: -1 })
+        .skip(options.offset)
+        .limit(options.limit)
+        .populate('uploadedBy', 'name email'),
+      MediaAsset.countDocuments(query)
+    ]);
+
+    return { assets, total };
+  }
+
+  /**
+   * Get a single asset
+   * @param assetId ID of the asset
+   * @returns The asset
+   */
+  static async getAsset(assetId: string): Promise<IMediaAsset> {
+    if (!mongoose.Types.ObjectId.isValid(assetId)) {
+      throw new AppError('Invalid media asset ID', 400);
+    }
+
+    const asset = await MediaAsset.findById(assetId).populate('uploadedBy', 'name email');
+    if (!asset) {
+      throw new AppError('Media asset not found', 404);
+    }
+
+    return asset;
+  }
+
+  /**
+   * Prepare an asset for a response with signed URLs for the original and its renditions
+   * Only call once the requester's access to the founder has been checked
+   * @param asset The asset
+   * @returns Plain asset object with url, thumbnailUrl and renditionUrl
+   */
+  static async withSignedUrls(asset: IMediaAsset): Promise<Record<string, any>> {
+    const plain = asset.toObject();
+
+    return {
+      ...plain,
+      usageCount: plain.postIds.length,
+      url: await StorageService.getSignedUrl(plain.key),
+      thumbnailUrl: plain.thumbnailKey ? await StorageService.getSignedUrl(plain.thumbnailKey) : null,
+      renditionUrl: plain.renditionKey ? await StorageService.getSignedUrl(plain.renditionKey) : null
+    };
+  }
+}
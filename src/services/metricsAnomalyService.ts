@@ -0,0 +1,159 @@
+import { FounderMetrics } from '../models/FounderMetrics';
+import { MetricsData } from './metricsService';
+import { config } from '../config/config';
+import { shiftMonth } from '../utils/timeUtils';
+
+export type AnomalyField =
+  | 'totalPosts'
+  | 'totalImpressions'
+  | 'totalCommentOutreach'
+  | 'engagementRate'
+  | 'comments'
+  | 'reactions'
+  | 'followerGrowth';
+
+export interface MetricsUpload {
+  founderId: string;
+  month: string;
+  data: MetricsData;
+}
+
+export interface MetricAnomaly {
+  field: AnomalyField;
+  value: number;
+  trailingAverage: number;
+  // Standard deviations from the trailing average, when the history varies at all
+  zScore: number | null;
+  // Change from the trailing average, when the average is positive
+  percentChange: number | null;
+  historyMonths: number;
+  message: string;
+}
+
+const ANOMALY_FIELDS: AnomalyField[] = [
+  'totalPosts',
+  'totalImpressions',
+  'totalCommentOutreach',
+  'engagementRate',
+  'comments',
+  'reactions',
+  'followerGrowth'
+];
+
+const FIELD_LABELS: Record<AnomalyField, string> = {
+  totalPosts: 'Total posts',
+  totalImpressions: 'Total impressions',
+  totalCommentOutreach: 'Total comment outreach',
+  engagementRate: 'Engagement rate',
+  comments: 'Comments',
+  reactions: 'Reactions',
+  followerGrowth: 'Follower growth'
+};
+
+type MonthValues = Partial<Record<AnomalyField, number>>;
+
+const roundTo = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export class MetricsAnomalyService {
+  /**
+   * Compare uploads with each founder's trailing history and report values that look like typos
+   * A value is an outlier when it is more than the configured number of standard deviations
+   * from the trailing average, or more than the configured percentage above or below it.
+   * Uploads of the same batch count as history for later months of the same founder.
+   * @param uploads Metrics about to be saved
+   * @returns The outliers of each upload, in the order of the uploads
+   */
+  static async detectAnomalies(uploads: MetricsUpload[]): Promise<MetricAnomaly[][]> {
+    const { anomalyHistoryMonths, anomalyMinHistory } = config.metrics;
+
+    if (uploads.length === 0 || anomalyHistoryMonths <= 0) {
+      return uploads.map(() => []);
+    }
+
+    const months = uploads.map(upload => upload.month).sort();
+    const history = await FounderMetrics.find({
+      founderId: { $in: [...new Set(uploads.map(upload => upload.founderId))] },
+      month: { $gte: shiftMonth(months[0], -anomalyHistoryMonths), $lt: months[months.length - 1] }
+    })
+      .select(['founderId', 'month', ...ANOMALY_FIELDS])
+      .lean();
+
+    // Values per founder and month, with the batch's own uploads taking precedence
+    const valuesByFounder = new Map<string, Map<string, MonthValues>>();
+    const setValues = (founderId: string, month: string, values: MonthValues) => {
+      if (!valuesByFounder.has(founderId)) {
+        valuesByFounder.set(founderId, new Map());
+      }
+      valuesByFounder.get(founderId)!.set(month, values);
+    };
+
+    for (const metric of history) {
+      setValues(metric.founderId.toString(), metric.month, metric);
+    }
+    for (const upload of uploads) {
+      setValues(upload.founderId, upload.month, upload.data);
+    }
+
+    return uploads.map(upload => {
+      const founderMonths = valuesByFounder.get(upload.founderId) || new Map<string, MonthValues>();
+      const trailing = [...founderMonths.entries()]
+        .filter(([month]) => month < upload.month && month >= shiftMonth(upload.month, -anomalyHistoryMonths))
+        .map(([, values]) => values);
+
+      if (trailing.length < anomalyMinHistory) {
+        return [];
+      }
+
+      return ANOMALY_FIELDS
+        .map(field => this.checkValue(field, upload.data[field], trailing.map(values => values[field])))
+        .filter((anomaly): anomaly is MetricAnomaly => anomaly !== null);
+    });
+  }
+
+  private static checkValue(
+    field: AnomalyField,
+    value: number | undefined,
+    history: (number | undefined | null)[]
+  ): MetricAnomaly | null {
+    const { anomalyZScore, anomalyPercentChange, anomalyMinHistory } = config.metrics;
+    const values = history.filter((entry): entry is number => typeof entry === 'number');
+
+    if (typeof value !== 'number' || values.length < anomalyMinHistory) {
+      return null;
+    }
+
+    const mean = values.reduce((sum, entry) => sum + entry, 0) / values.length;
+    const deviation = Math.sqrt(values.reduce((sum, entry) => sum + (entry - mean) ** 2, 0) / values.length);
+
+    const zScore = deviation > 0 ? (value - mean) / deviation : null;
+    const percentChange = mean > 0 ? ((value - mean) / mean) * 100 : null;
+
+    const zOutlier = anomalyZScore > 0 && zScore !== null && Math.abs(zScore) > anomalyZScore;
+    // Drops count the same as rises: a tenth of the average is as suspicious as ten times it
+    const ratio = 1 + anomalyPercentChange / 100;
+    const percentOutlier = anomalyPercentChange > 0 && mean > 0 && value >= 0
+      && (value > mean * ratio || value < mean / ratio);
+
+    if (!zOutlier && !percentOutlier) {
+      return null;
+    }
+
+    const average = roundTo(mean, 2);
+    const change = percentChange === null ? null : Math.round(percentChange);
+
+    return {
+      field,
+      value,
+      trailingAverage: average,
+      zScore: zScore === null ? null : roundTo(zScore, 2),
+      percentChange: change,
+      historyMonths: values.length,
+      message: `${FIELD_LABELS[field]} of ${value.toLocaleString('en-US')} is ${value > mean ? 'far above' : 'far below'} ` +
+        `the average of ${average.toLocaleString('en-US')} over the previous ${values.length} months` +
+        (change === null ? '' : ` (${change > 0 ? '+' : ''}${change}%)`)
+    };
+  }
+}
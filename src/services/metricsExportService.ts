@@ -0,0 +1,210 @@
+import { Writable } from 'stream';
+import { once } from 'events';
+import ExcelJS from 'exceljs';
+import { FounderMetrics } from '../models/FounderMetrics';
+import { Founder } from '../models/Founder';
+import { User } from '../models/User';
+import { toCsvRow } from '../utils/csv';
+
+export type MetricsExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const METRICS_EXPORT_FORMATS: MetricsExportFormat[] = ['csv', 'xlsx', 'json'];
+
+interface MetricsExportFilters {
+  // User IDs of the founders to export, or null for every founder
+  founderIds: string[] | null;
+  from?: string;
+  to?: string;
+}
+
+// Column names match the import columns, so an export can be edited and imported again
+const EXPORT_COLUMNS = [
+  'founderId',
+  'founderName',
+  'founderEmail',
+  'companyName',
+  'month',
+  'totalPosts',
+  'totalImpressions',
+  'totalCommentOutreach',
+  'engagementRate',
+  'comments',
+  'reactions',
+  'followerGrowth',
+  'notes',
+  'uploadedBy',
+  'updatedAt'
+] as const;
+
+type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+type ExportRow = Record<ExportColumn, string | number | Date | null>;
+
+const CONTENT_TYPES: Record<MetricsExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8'
+};
+
+// Respect backpressure so large exports never pile up in memory
+const write = async (output: Writable, chunk: string): Promise<void> => {
+  if (!output.write(chunk)) {
+    await once(output, 'drain');
+  }
+};
+
+export class MetricsExportService {
+  /**
+   * Get the content type of an export format
+   * @param format Export format
+   * @returns MIME type for the response
+   */
+  static getContentType(format: MetricsExportFormat): string {
+    return CONTENT_TYPES[format];
+  }
+
+  /**
+   * Build the download file name of an export
+   * @param format Export format
+   * @param filters The month range being exported
+   * @returns File name such as metrics-2025-01-to-2025-06.csv
+   */
+  static getFileName(format: MetricsExportFormat, filters: Pick<MetricsExportFilters, 'from' | 'to'>): string {
+    const range = [filters.from, filters.to].filter(Boolean).join('-to-');
+    const suffix = range || new Date().toISOString().slice(0, 10);
+
+    return `metrics-${suffix}.${format}`;
+  }
+
+  /**
+   * Stream metrics with founder details to an output, newest month first
+   * The output is ended once the export is complete
+   * @param output Stream to write to, usually the response
+   * @param format Export format
+   * @param filters Founders and month range to export
+   * @returns Number of exported rows
+   */
+  static async exportMetrics(
+    output: Writable,
+    format: MetricsExportFormat,
+    filters: MetricsExportFilters
+  ): Promise<number> {
+    const query: any = {};
+
+    if (filters.founderIds !== null) {
+      query.founderId = { $in: filters.founderIds };
+    }
+    if (filters.from || filters.to) {
+      // Months are YYYY-MM, so they compare correctly as strings
+      query.month = {
+        ...(filters.from ? { $gte: filters.from } : {}),
+        ...(filters.to ? { $lte: filters.to } : {})
+      };
+    }
+
+    const founders = await this.getFounderDetails(await FounderMetrics.distinct('founderId', query));
+
+    const cursor = FounderMetrics.find(query)
+      .sort({ month: -1, founderId: 1 })
+      .populate('uploadedBy', 'name')
+      .lean()
+      .cursor();
+
+    const rows = (async function* () {
+      for await (const metric of cursor) {
+        const founder = founders.get(metric.founderId.toString());
+        const uploader = metric.uploadedBy as any;
+
+        yield {
+          founderId: metric.founderId.toString(),
+          founderName: founder?.name ?? null,
+          founderEmail: founder?.email ?? null,
+          companyName: founder?.companyName ?? null,
+          month: metric.month,
+          totalPosts: metric.totalPosts,
+          totalImpressions: metric.totalImpressions,
+          totalCommentOutreach: metric.totalCommentOutreach,
+          engagementRate: metric.engagementRate ?? null,
+          comments: metric.comments ?? null,
+          reactions: metric.reactions ?? null,
+          followerGrowth: metric.followerGrowth ?? null,
+          notes: metric.notes ?? null,
+          uploadedBy: uploader && typeof uploader === 'object' && 'name' in uploader ? uploader.name : null,
+          updatedAt: metric.updatedAt
+        } as ExportRow;
+      }
+    })();
+
+    switch (format) {
+      case 'csv':
+        return this.writeCsv(output, rows);
+      case 'xlsx':
+        return this.writeXlsx(output, rows);
+      case 'json':
+        return this.writeJson(output, rows);
+    }
+  }
+
+  private static async writeCsv(output: Writable, rows: AsyncIterable<ExportRow>): Promise<number> {
+    let count = 0;
+
+    await write(output, toCsvRow([...EXPORT_COLUMNS]) + '\r\n');
+    for await (const row of rows) {
+      await write(output, toCsvRow(EXPORT_COLUMNS.map(column => row[column])) + '\r\n');
+      count++;
+    }
+
+    output.end();
+    return count;
+  }
+
+  private static async writeXlsx(output: Writable, rows: AsyncIterable<ExportRow>): Promise<number> {
+    let count = 0;
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false });
+    const sheet = workbook.addWorksheet('Metrics');
+    sheet.columns = EXPORT_COLUMNS.map(column => ({ header: column, key: column }));
+
+    for await (const row of rows) {
+      sheet.addRow(row).commit();
+      count++;
+    }
+
+    sheet.commit();
+
+    // Committing the workbook ends the output
+    await workbook.commit();
+    return count;
+  }
+
+  private static async writeJson(output: Writable, rows: AsyncIterable<ExportRow>): Promise<number> {
+    let count = 0;
+
+    await write(output, '{"success":true,"metrics":[');
+    for await (const row of rows) {
+      await write(output, (count > 0 ? ',' : '') + JSON.stringify(row));
+      count++;
+    }
+    await write(output, `],"count":${count}}`);
+
+    output.end();
+    return count;
+  }
+
+  private static async getFounderDetails(
+    founderIds: unknown[]
+  ): Promise<Map<string, { name: string; email: string; companyName: string | null }>> {
+    const [users, founders] = await Promise.all([
+      User.find({ _id: { $in: founderIds } }).select('name email').lean(),
+      Founder.find({ userId: { $in: founderIds } }).select('userId companyName').lean()
+    ]);
+
+    const companies = new Map(founders.map(founder => [founder.userId.toString(), founder.companyName]));
+
+    return new Map(users.map(user => [user._id.toString(), {
+      name: user.name,
+      email: user.email,
+      companyName: companies.get(user._id.toString()) ?? null
+    }]));
+  }
+}
@@ -0,0 +1,446 @@
+import path from 'path';
+import mongoose from 'mongoose';
+import ExcelJS from 'exceljs';
+import { User, UserRole } from '../models/User';
+import { FounderMetrics, IFounderMetrics } from '../models/FounderMetrics';
+import { MetricsService, MetricsData } from './metricsService';
+import { MetricsAnomalyService, MetricAnomaly } from './metricsAnomalyService';
+import { AssignmentService } from './assignmentService';
+import { NotificationService } from './notificationService';
+import { DashboardCacheService } from './dashboardCacheService';
+import { parseCsv } from '../utils/csv';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'forbidden';
+
+export interface MetricsImportRow {
+  row: number;
+  founderId: string | null;
+  founderEmail: string | null;
+  founderName: string | null;
+  month: string | null;
+  action: 'create' | 'update' | null;
+  status: ImportRowStatus;
+  errors: string[];
+  anomalies: MetricAnomaly[];
+}
+
+export interface MetricsImportReport {
+  dryRun: boolean;
+  applied: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  forbiddenRows: number;
+  anomalyRows: number;
+  requiresConfirmation: boolean;
+  created: number;
+  updated: number;
+  rows: MetricsImportRow[];
+}
+
+type ImportColumn =
+  | 'founderId'
+  | 'founderEmail'
+  | 'month'
+  | 'totalPosts'
+  | 'totalImpressions'
+  | 'totalCommentOutreach'
+  | 'engagementRate'
+  | 'comments'
+  | 'reactions'
+  | 'followerGrowth'
+  | 'notes';
+
+type ImportRecord = Partial<Record<ImportColumn, string>> & { row: number };
+
+interface PlannedUpload {
+  row: number;
+  founderId: string;
+  month: string;
+  data: MetricsData;
+}
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export const IMPORT_FILE_EXTENSIONS = ['.csv', '.xlsx'];
+
+// Headers are matched case-insensitively, ignoring spaces, dashes and underscores
+const HEADER_ALIASES: Record<string, ImportColumn> = {
+  founderid: 'founderId',
+  founderemail: 'founderEmail',
+  email: 'founderEmail',
+  month: 'month',
+  totalposts: 'totalPosts',
+  totalimpressions: 'totalImpressions',
+  totalcommentoutreach: 'totalCommentOutreach',
+  engagementrate: 'engagementRate',
+  comments: 'comments',
+  reactions: 'reactions',
+  followergrowth: 'followerGrowth',
+  notes: 'notes'
+};
+
+const REQUIRED_COUNTS: ImportColumn[] = ['totalPosts', 'totalImpressions', 'totalCommentOutreach'];
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[\s_-]/g, '');
+
+// Accept thousands separators, which spreadsheets like to add
+const parseWholeNumber = (value: string): number | null => {
+  const cleaned = value.replace(/,/g, '').trim();
+  return /^-?\d+$/.test(cleaned) ? Number(cleaned) : null;
+};
+
+const cellToString = (cell: ExcelJS.Cell): string => {
+  const { value } = cell;
+
+  // Spreadsheets turn 2025-06 into a date
+  if (value instanceof Date) {
+    return `${value.getUTCFullYear()}-${String(value.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return cell.text;
+  }
+
+  return value === null || value === undefined ? '' : String(value);
+};
+
+export class MetricsImportService {
+  /**
+   * Read the rows of an uploaded CSV or XLSX file
+   * @param file The uploaded file, kept in memory
+   * @returns One record per data row, keyed by import column
+   */
+  static async parseFile(file: Express.Multer.File): Promise<ImportRecord[]> {
+    const extension = path.extname(file.originalname).toLowerCase();
+    let table: string[][];
+
+    if (extension === '.csv') {
+      try {
+        table = parseCsv(file.buffer.toString('utf8'));
+      } catch (error) {
+        throw new AppError(`Could not read the CSV file: ${(error as Error).message}`, 400);
+      }
+    } else if (extension === '.xlsx') {
+      table = await this.readWorksheet(file.buffer);
+    } else {
+      throw new AppError(`Only ${IMPORT_FILE_EXTENSIONS.join(' and ')} files can be imported`, 400);
+    }
+
+    const [header, ...rest] = table;
+
+    // Row numbers match the file, with the header on row 1
+    const dataRows = rest
+      .map((cells, index) => ({ cells, row: index + 2 }))
+      .filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+
+    if (!header || dataRows.length === 0) {
+      throw new AppError('The file has no rows to import', 400);
+    }
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      throw new AppError(`A single import cannot have more than ${MAX_IMPORT_ROWS} rows`, 400);
+    }
+
+    const columns = header.map(name => HEADER_ALIASES[normalizeHeader(name)]);
+
+    const missing = ['month', ...REQUIRED_COUNTS].filter(column => !columns.includes(column as ImportColumn));
+    if (!columns.includes('founderId') && !columns.includes('founderEmail')) {
+      missing.unshift('founderEmail or founderId');
+    }
+    if (missing.length > 0) {
+      throw new AppError(`Missing columns: ${missing.join(', ')}`, 400);
+    }
+
+    return dataRows.map(({ cells, row }) => {
+      const record: ImportRecord = { row };
+      columns.forEach((column, position) => {
+        const value = (cells[position] ?? '').trim();
+        if (column && value !== '') {
+          record[column] = value;
+        }
+      });
+      return record;
+    });
+  }
+
+  /**
+   * Validate every row and check the importing user may upload metrics for its founder
+   * @param records Rows read from the file
+   * @param userId ID of the importing user
+   * @param userRole Role of the importing user
+   * @returns The per-row report and the uploads of the rows that passed
+   */
+  static async planImport(
+    records: ImportRecord[],
+    userId: string,
+    userRole: UserRole
+  ): Promise<{ rows: MetricsImportRow[]; uploads: PlannedUpload[] }> {
+    const emails = [...new Set(records.map(record => record.founderEmail?.toLowerCase()).filter(Boolean))] as string[];
+    const ids = [...new Set(records.map(record => record.founderId).filter(id => id && mongoose.Types.ObjectId.isValid(id)))] as string[];
+
+    const founders = await User.find({
+      role: 'founder',
+      $or: [{ email: { $in: emails } }, { _id: { $in: ids } }]
+    })
+      .collation({ locale: 'en', strength: 2 })
+      .select('_id name email')
+      .lean();
+
+    const foundersByEmail = new Map(founders.map(founder => [founder.email.toLowerCase(), founder]));
+    const foundersById = new Map(founders.map(founder => [founder._id.toString(), founder]));
+
+    // Super admins may import for anyone, admins only for founders assigned to them
+    let assignedFounderIds: Set<string> | null = null;
+    if (userRole === 'admin') {
+      const assignments = await AssignmentService.getAssignedFounders(userId);
+      assignedFounderIds = new Set(assignments.map(assignment => assignment.founderId.toString()));
+    }
+
+    const existingMetrics = await FounderMetrics.find({
+      founderId: { $in: founders.map(founder => founder._id) },
+      month: { $in: [...new Set(records.map(record => record.month).filter(Boolean))] }
+    })
+      .select('founderId month')
+      .lean();
+    const existingKeys = new Set(existingMetrics.map(metric => `${metric.founderId}:${metric.month}`));
+
+    const seenKeys = new Map<string, number>();
+    const rows: MetricsImportRow[] = [];
+    const uploads: PlannedUpload[] = [];
+
+    for (const record of records) {
+      const errors: string[] = [];
+
+      // Resolve the founder, by ID when given and by email otherwise
+      const byId = record.founderId ? foundersById.get(record.founderId) : undefined;
+      const byEmail = record.founderEmail ? foundersByEmail.get(record.founderEmail.toLowerCase()) : undefined;
+
+      if (record.founderId && !byId) {
+        errors.push(`No founder found with ID ${record.founderId}`);
+      } else if (!record.founderId && record.founderEmail && !byEmail) {
+        errors.push(`No founder found with email ${record.founderEmail}`);
+      } else if (!record.founderId && !record.founderEmail) {
+        errors.push('Founder email or ID is required');
+      } else if (byId && record.founderEmail && byId.email.toLowerCase() !== record.founderEmail.toLowerCase()) {
+        errors.push(`Founder ID ${record.founderId} does not belong to ${record.founderEmail}`);
+      }
+      const founder = byId || (!record.founderId ? byEmail : undefined);
+
+      const data = this.parseMetrics(record, errors);
+
+      const key = founder && record.month ? `${founder._id}:${record.month}` : null;
+      if (key && seenKeys.has(key)) {
+        errors.push(`Duplicate of row ${seenKeys.get(key)} for the same founder and month`);
+      } else if (key) {
+        seenKeys.set(key, record.row);
+      }
+
+      const forbidden = !!founder && assignedFounderIds !== null && !assignedFounderIds.has(founder._id.toString());
+      if (forbidden) {
+        errors.push('You can only upload metrics for founders assigned to you');
+      }
+
+      const status: ImportRowStatus = forbidden ? 'forbidden' : errors.length > 0 ? 'invalid' : 'valid';
+
+      rows.push({
+        row: record.row,
+        founderId: founder ? founder._id.toString() : record.founderId || null,
+        founderEmail: founder ? founder.email : record.founderEmail || null,
+        founderName: founder ? founder.name : null,
+        month: record.month || null,
+        action: key ? (existingKeys.has(key) ? 'update' : 'create') : null,
+        status,
+        errors,
+        anomalies: []
+      });
+
+      if (status === 'valid' && founder && data) {
+        uploads.push({ row: record.row, founderId: founder._id.toString(), month: record.month!, data });
+      }
+    }
+
+    return { rows, uploads };
+  }
+
+  /**
+   * Import metrics from a file
+   * A dry run only reports what would happen. Otherwise all rows are applied in
+   * one transaction, and nothing is applied if any row fails validation.
+   * Rows far off the founder's trailing history are only applied once confirmed.
+   * @param file The uploaded CSV or XLSX file
+   * @param userId ID of the importing user
+   * @param userRole Role of the importing user
+   * @param dryRun Only validate and preview the import
+   * @param confirm Accept rows flagged as outliers
+   * @returns The import report
+   */
+  static async importMetrics(
+    file: Express.Multer.File,
+    userId: string,
+    userRole: UserRole,
+    dryRun: boolean,
+    confirm = false
+  ): Promise<MetricsImportReport> {
+    const records = await this.parseFile(file);
+    const { rows, uploads } = await this.planImport(records, userId, userRole);
+
+    const anomalies = await MetricsAnomalyService.detectAnomalies(uploads);
+    const rowsByNumber = new Map(rows.map(row => [row.row, row]));
+    uploads.forEach((upload, index) => {
+      rowsByNumber.get(upload.row)!.anomalies = anomalies[index];
+    });
+    const anomalyRows = rows.filter(row => row.anomalies.length > 0).length;
+
+    const report: MetricsImportReport = {
+      dryRun,
+      applied: false,
+      totalRows: rows.length,
+      validRows: rows.filter(row => row.status === 'valid').length,
+      invalidRows: rows.filter(row => row.status === 'invalid').length,
+      forbiddenRows: rows.filter(row => row.status === 'forbidden').length,
+      anomalyRows,
+      requiresConfirmation: anomalyRows > 0 && !confirm,
+      created: rows.filter(row => row.status === 'valid' && row.action === 'create').length,
+      updated: rows.filter(row => row.status === 'valid' && row.action === 'update').length,
+      rows
+    };
+
+    if (dryRun || report.validRows !== report.totalRows || report.requiresConfirmation) {
+      return report;
+    }
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    const saved: IFounderMetrics[] = [];
+
+    try {
+      // One at a time, a transaction session cannot run operations in parallel
+      for (const upload of uploads) {
+        saved.push(await MetricsService.uploadMetrics(upload.founderId, userId, upload.month, upload.data, session));
+      }
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    report.applied = true;
+
+    for (const founderId of new Set(uploads.map(upload => upload.founderId))) {
+      await DashboardCacheService.invalidateFounder(founderId);
+    }
+
+    for (const metrics of saved) {
+      await NotificationService.notifyMetricsUploaded(metrics, userId);
+    }
+
+    logger.info(`Imported ${saved.length} metrics rows`, { userId, created: report.created, updated: report.updated });
+
+    return report;
+  }
+
+  private static parseMetrics(record: ImportRecord, errors: string[]): MetricsData | null {
+    const before = errors.length;
+
+    if (!record.month) {
+      errors.push('Month is required');
+    } else if (!MONTH_PATTERN.test(record.month)) {
+      errors.push('Month must be in format YYYY-MM');
+    }
+
+    const counts: Partial<Record<ImportColumn, number>> = {};
+
+    for (const column of REQUIRED_COUNTS) {
+      const value = record[column];
+      const parsed = value !== undefined ? parseWholeNumber(value) : null;
+
+      if (value === undefined) {
+        errors.push(`${column} is required`);
+      } else if (parsed === null || parsed < 0) {
+        errors.push(`${column} must be a non-negative whole number`);
+      } else {
+        counts[column] = parsed;
+      }
+    }
+
+    for (const column of ['comments', 'reactions', 'followerGrowth'] as ImportColumn[]) {
+      const value = record[column];
+      if (value === undefined) continue;
+
+      const parsed = parseWholeNumber(value);
+      if (parsed === null || (column !== 'followerGrowth' && parsed < 0)) {
+        errors.push(column === 'followerGrowth'
+          ? 'followerGrowth must be a whole number'
+          : `${column} must be a non-negative whole number`);
+      } else {
+        counts[column] = parsed;
+      }
+    }
+
+    let engagementRate: number | undefined;
+    if (record.engagementRate !== undefined) {
+      // Allow "4.2%" as well as 4.2
+      const rate = Number(record.engagementRate.replace(/%$/, '').trim());
+      if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+        errors.push('engagementRate must be a percentage between 0 and 100');
+      } else {
+        engagementRate = rate;
+      }
+    }
+
+    if (record.notes && record.notes.length > 2000) {
+      errors.push('notes cannot exceed 2000 characters');
+    }
+
+    if (errors.length > before) {
+      return null;
+    }
+
+    return {
+      totalPosts: counts.totalPosts!,
+      totalImpressions: counts.totalImpressions!,
+      totalCommentOutreach: counts.totalCommentOutreach!,
+      engagementRate,
+      comments: counts.comments,
+      reactions: counts.reactions,
+      followerGrowth: counts.followerGrowth,
+      notes: record.notes
+    };
+  }
+
+  private static async readWorksheet(buffer: Buffer): Promise<string[][]> {
+    const workbook = new ExcelJS.Workbook();
+
+    try {
+      await workbook.xlsx.load(buffer as any);
+    } catch (error) {
+      throw new AppError('Could not read the XLSX file', 400);
+    }
+
+    // Only the first sheet is imported
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      return [];
+    }
+
+    // Keep empty rows so positions match the sheet's row numbers
+    const table: string[][] = [];
+    for (let number = 1; number <= sheet.rowCount; number++) {
+      const row = sheet.getRow(number);
+      const cells: string[] = [];
+      for (let column = 1; column <= sheet.columnCount; column++) {
+        cells.push(cellToString(row.getCell(column)));
+      }
+      table.push(cells);
+    }
+
+    return table;
+  }
+}
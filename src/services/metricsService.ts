@@ -1,16 +1,32 @@
 import { FounderMetrics, IFounderMetrics } from '../models/FounderMetrics';
-import { Founder } from '../models/Founder';
 import { User } from '../models/User';
 import mongoose from 'mongoose';
+import { DashboardCacheService } from './dashboardCacheService';
 import AppError from '../utils/AppError';
 
-interface MetricsData {
+export interface MetricsData {
   totalPosts: number;
   totalImpressions: number;
   totalCommentOutreach: number;
+  engagementRate?: number;
+  comments?: number;
+  reactions?: number;
+  followerGrowth?: number;
   notes?: string;
 }
 
+type EngagementFields = Pick<IFounderMetrics, 'engagementRate' | 'comments' | 'reactions' | 'followerGrowth'>;
+
+export interface EngagementSummary {
+  avgEngagementRate: number | null;
+  totalComments: number;
+  totalReactions: number;
+  totalFollowerGrowth: number;
+  reportedCount: number;
+}
+
+const ENGAGEMENT_FIELDS = ['engagementRate', 'comments', 'reactions', 'followerGrowth'] as const;
+
 interface EnhancedMetrics extends IFounderMetrics {
   founder?: {
     _id: string;
@@ -28,19 +44,23 @@ export class MetricsService {
    * @param uploaderId ID of the user uploading the metrics (admin or super-admin)
    * @param month Month in YYYY-MM format
    * @param data Metrics data
+   * @param session Optional transaction session; its owner invalidates the dashboards after committing
    * @returns The created metrics object
    */
   static async uploadMetrics(
     founderId: string,
     uploaderId: string,
     month: string,
-    data: MetricsData
+    data: MetricsData,
+    session?: mongoose.ClientSession
   ): Promise<IFounderMetrics> {
+    const engagement = this.resolveEngagement(data);
+
     // Check if metrics already exist for this founder and month
     const existingMetrics = await FounderMetrics.findOne({
       founderId,
       month
-    });
+    }).session(session || null);
 
     if (existingMetrics) {
       // Update existing metrics
@@ -48,26 +68,62 @@ export class MetricsService {
       existingMetrics.totalImpressions = data.totalImpressions;
       existingMetrics.totalCommentOutreach = data.totalCommentOutreach;
       existingMetrics.notes = data.notes;
+      // Engagement fields left out of the upload keep their previous values
+      for (const field of ENGAGEMENT_FIELDS) {
+        if (engagement[field] !== undefined) {
+          existingMetrics[field] = engagement[field];
+        }
+      }
       existingMetrics.uploadedBy = new mongoose.Types.ObjectId(uploaderId);
       
-      await existingMetrics.save();
+      await existingMetrics.save({ session });
+      if (!session) {
+        await DashboardCacheService.invalidateFounder(founderId);
+      }
       return existingMetrics;
     }
 
     // Create new metrics
-    const metrics = await FounderMetrics.create({
+    const [metrics] = await FounderMetrics.create([{
       founderId,
       uploadedBy: uploaderId,
       month,
       totalPosts: data.totalPosts,
       totalImpressions: data.totalImpressions,
       totalCommentOutreach: data.totalCommentOutreach,
+      ...engagement,
       notes: data.notes
-    });
+    }], { session });
+
+    if (!session) {
+      await DashboardCacheService.invalidateFounder(founderId);
+    }
 
     return metrics;
   }
 
+  /**
+   * Summarize the engagement fields of a set of metrics
+   * Metrics uploaded without engagement data are left out of the average rate
+   * @param metrics Metrics to summarize
+   * @returns Average engagement rate and engagement totals
+   */
+  static summarizeEngagement(metrics: EngagementFields[]): EngagementSummary {
+    const rates = metrics
+      .map(metric => metric.engagementRate)
+      .filter((rate): rate is number => typeof rate === 'number');
+
+    return {
+      avgEngagementRate: rates.length > 0
+        ? Math.round((rates.reduce((sum, rate) => sum + rate, 0) / rates.length) * 100) / 100
+        : null,
+      totalComments: metrics.reduce((sum, metric) => sum + (metric.comments || 0), 0),
+      totalReactions: metrics.reduce((sum, metric) => sum + (metric.reactions || 0), 0),
+      totalFollowerGrowth: metrics.reduce((sum, metric) => sum + (metric.followerGrowth || 0), 0),
+      reportedCount: rates.length
+    };
+  }
+
   /**
    * Get metrics for a specific founder
    * @param founderId ID of the founder
@@ -149,15 +205,40 @@ export class MetricsService {
    * @returns Object with success message
    */
   static async deleteMetrics(metricsId: string): Promise<{ message: string }> {
-    const result = await FounderMetrics.deleteOne({ _id: metricsId });
+    const metrics = await FounderMetrics.findByIdAndDelete(metricsId);
     
-    if (result.deletedCount === 0) {
+    if (!metrics) {
       throw new AppError('Metrics not found', 404);
     }
+
+    await DashboardCacheService.invalidateFounder(metrics.founderId.toString());
     
     return { message: 'Metrics deleted successfully' };
   }
 
+  /**
+   * Pick the engagement fields of an upload
+   * Without an explicit rate, it is derived from comments and reactions over impressions
+   * @param data Uploaded metrics data
+   * @returns Engagement fields that were provided or could be derived
+   */
+  private static resolveEngagement(data: MetricsData): EngagementFields {
+    const engagement: EngagementFields = {
+      engagementRate: data.engagementRate,
+      comments: data.comments,
+      reactions: data.reactions,
+      followerGrowth: data.followerGrowth
+    };
+
+    const hasInteractions = data.comments !== undefined || data.reactions !== undefined;
+    if (engagement.engagementRate === undefined && hasInteractions && data.totalImpressions > 0) {
+      const interactions = (data.comments || 0) + (data.reactions || 0);
+      engagement.engagementRate = Math.min(100, Math.round((interactions / data.totalImpressions) * 10000) / 100);
+    }
+
+    return engagement;
+  }
+
   /**
    * Helper method to enhance metrics with founder name only
    * @param metrics Array of metrics objects
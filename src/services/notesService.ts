@@ -0,0 +1,212 @@
+import mongoose from 'mongoose';
+import { Notes, INotes, NoteVisibility } from '../models/Notes';
+import { UserRole } from '../models/User';
+import AppError from '../utils/AppError';
+
+interface NoteCreateData {
+  content: string;
+  tags?: string[];
+  pinned?: boolean;
+  visibility?: NoteVisibility;
+}
+
+interface NoteUpdateData {
+  content?: string;
+  tags?: string[];
+  visibility?: NoteVisibility;
+}
+
+interface NoteListOptions {
+  search?: string;
+  tag?: string;
+  pinned?: boolean;
+  visibility?: NoteVisibility;
+  limit: number;
+  offset: number;
+}
+
+const normalizeTags = (tags: string[]): string[] => {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+};
+
+export class NotesService {
+  /**
+   * Add a note to a founder
+   * @param founderId User ID of the founder
+   * @param authorId ID of the user writing the note
+   * @param data Note data
+   * @returns The created note
+   */
+  static async createNote(founderId: string, authorId: string, data: NoteCreateData): Promise<INotes> {
+    const note = await Notes.create({
+      founderId,
+      createdBy: authorId,
+      content: data.content,
+      tags: normalizeTags(data.tags || []),
+      pinned: data.pinned ?? false,
+      visibility: data.visibility || 'internal'
+    });
+
+    return note.populate('createdBy', 'name email');
+  }
+
+  /**
+   * List the notes of a founder, pinned notes first, then newest first
+   * Founders only ever see notes shared with them
+   * @param founderId User ID of the founder
+   * @param userRole Role of the requesting user
+   * @param options Search, filters and pagination
+   * @returns Notes and the total number of matches
+   */
+  static async getNotes(
+    founderId: string,
+    userRole: UserRole,
+    options: NoteListOptions
+  ): Promise<{ notes: INotes[]; total: number }> {
+    const query: any = { founderId };
+
+    if (userRole === 'founder') {
+      query.visibility = 'shared';
+    } else if (options.visibility) {
+      query.visibility = options.visibility;
+    }
+    if (options.search) {
+      query.$text = { $search: options.search };
+    }
+    if (options.tag) {
+      query.tags = options.tag.trim().toLowerCase();
+    }
+    if (options.pinned !== undefined) {
+      query.pinned = options.pinned;
+    }
+
+    const [notes, total] = await Promise.all([
+      Notes.find(query)
+        .sort({ pinned: -1, createdAt: -1 })
+        .skip(options.offset)
+        .limit(options.limit)
+        .populate('createdBy', 'name email'),
+      Notes.countDocuments(query)
+    ]);
+
+    return { notes, total };
+  }
+
+  /**
+   * Get all tags used on a founder's notes
+   * @param founderId User ID of the founder
+   * @param userRole Role of the requesting user
+   * @returns Tags with the number of notes using them, most used first
+   */
+  static async getTags(founderId: string, userRole: UserRole): Promise<{ tag: string; count: number }[]> {
+    const match: any = { founderId: new mongoose.Types.ObjectId(founderId) };
+    if (userRole === 'founder') {
+      match.visibility = 'shared';
+    }
+
+    return Notes.aggregate([
+      { $match: match },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $project: { _id: 0, tag: '$_id', count: 1 } }
+    ]);
+  }
+
+  /**
+   * Get a single note of a founder
+   * Internal notes are reported as missing to founders
+   * @param founderId User ID of the founder
+   * @param noteId ID of the note
+   * @param userRole Role of the requesting user
+   * @returns The note
+   */
+  static async getNote(founderId: string, noteId: string, userRole: UserRole): Promise<INotes> {
+    if (!mongoose.Types.ObjectId.isValid(noteId)) {
+      throw new AppError('Invalid note ID', 400);
+    }
+
+    const note = await Notes.findOne({ _id: noteId, founderId }).populate('createdBy', 'name email');
+
+    if (!note || (userRole === 'founder' && note.visibility !== 'shared')) {
+      throw new AppError('Note not found', 404);
+    }
+
+    return note;
+  }
+
+  /**
+   * Edit a note
+   * @param founderId User ID of the founder
+   * @param noteId ID of the note
+   * @param userId ID of the user editing the note
+   * @param userRole Role of the user (only the author or a super admin may edit)
+   * @param data Fields to change
+   * @returns The updated note
+   */
+  static async updateNote(
+    founderId: string,
+    noteId: string,
+    userId: string,
+    userRole: UserRole,
+    data: NoteUpdateData
+  ): Promise<INotes> {
+    const note = await this.getNote(founderId, noteId, userRole);
+    this.assertCanModify(note, userId, userRole, 'edit');
+
+    if (data.content !== undefined) {
+      note.content = data.content;
+    }
+    if (data.tags !== undefined) {
+      note.tags = normalizeTags(data.tags);
+    }
+    if (data.visibility !== undefined) {
+      note.visibility = data.visibility;
+    }
+
+    await note.save();
+    return note;
+  }
+
+  /**
+   * Pin or unpin a note
+   * Any admin with access to the founder may pin, so the team shares one set of pinned notes
+   * @param founderId User ID of the founder
+   * @param noteId ID of the note
+   * @param userRole Role of the requesting user
+   * @param pinned Whether the note should be pinned
+   * @returns The updated note
+   */
+  static async setPinned(founderId: string, noteId: string, userRole: UserRole, pinned: boolean): Promise<INotes> {
+    const note = await this.getNote(founderId, noteId, userRole);
+
+    note.pinned = pinned;
+    await note.save();
+
+    return note;
+  }
+
+  /**
+   * Delete a note
+   * @param founderId User ID of the founder
+   * @param noteId ID of the note
+   * @param userId ID of the user deleting the note
+   * @param userRole Role of the user (only the author or a super admin may delete)
+   */
+  static async deleteNote(founderId: string, noteId: string, userId: string, userRole: UserRole): Promise<void> {
+    const note = await this.getNote(founderId, noteId, userRole);
+    this.assertCanModify(note, userId, userRole, 'delete');
+
+    await note.deleteOne();
+  }
+
+  private static assertCanModify(note: INotes, userId: string, userRole: UserRole, action: string): void {
+    const authorId = note.createdBy instanceof mongoose.Types.ObjectId
+      ? note.createdBy.toString()
+      : String(note.createdBy._id);
+
+    if (userRole !== 'super-admin' && authorId !== userId) {
+      throw new AppError(`You can only ${action} your own notes`, 403);
+    }
+  }
+}
@@ -0,0 +1,373 @@
+import mongoose from 'mongoose';
+import { Notification, INotification, NotificationType, EMAIL_NOTIFICATION_TYPES } from '../models/Notification';
+import { NotificationPreference, INotificationPreference, EmailDelivery } from '../models/NotificationPreference';
+import { EmailDigestItem } from '../models/EmailDigestItem';
+import { User } from '../models/User';
+import { IPost, PostStatus } from '../models/Post';
+import { IReport } from '../models/Report';
+import { IFounderMetrics } from '../models/FounderMetrics';
+import { EmailService } from './emailService';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+
+// The parts of a post notifications need, with founderId/adminId as raw user IDs
+type PostSummary = Pick<IPost, 'founderId' | 'adminId' | 'caption'> & { _id: any };
+
+interface NotificationContent {
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+  actorId?: string;
+}
+
+interface PreferencesUpdate {
+  mutedTypes?: NotificationType[];
+  emailDelivery?: EmailDelivery;
+  emailMutedTypes?: NotificationType[];
+}
+
+// Statuses that notify someone, and who gets told
+const STATUS_NOTIFICATIONS: Partial<Record<PostStatus, { type: NotificationType; recipient: 'admin' | 'founder'; title: string }>> = {
+  approved: { type: 'post_approved', recipient: 'admin', title: 'Post approved' },
+  rejected: { type: 'post_rejected', recipient: 'admin', title: 'Post rejected' },
+  scheduled: { type: 'post_scheduled', recipient: 'founder', title: 'Post scheduled' },
+  posted: { type: 'post_posted', recipient: 'founder', title: 'Post published' }
+};
+
+export class NotificationService {
+  /**
+   * Send a notification to a user in-app and by email, honouring their preferences
+   * Failures are logged and never break the calling request
+   * @param userId ID of the recipient
+   * @param type Type of the notification
+   * @param content Title, message and related data
+   * @returns The created in-app notification, or null if it was skipped
+   */
+  static async notify(
+    userId: mongoose.Types.ObjectId | string,
+    type: NotificationType,
+    content: NotificationContent
+  ): Promise<INotification | null> {
+    try {
+      // Nobody needs to be told about their own actions
+      if (content.actorId && content.actorId.toString() === userId.toString()) {
+        return null;
+      }
+
+      const preferences = await NotificationPreference.findOne({ userId }).lean();
+
+      let notification: INotification | null = null;
+      if (!preferences || !preferences.mutedTypes.includes(type)) {
+        notification = await Notification.create({
+          userId,
+          type,
+          title: content.title,
+          message: content.message,
+          data: content.data || {},
+          actorId: content.actorId
+        });
+      }
+
+      await this.deliverEmail(userId, type, content, preferences);
+
+      return notification;
+    } catch (error: any) {
+      logger.error({
+        message: `Failed to send ${type} notification`,
+        error: error.message,
+        userId: userId.toString()
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Email a notification right away or queue it for the daily digest
+   * @param userId ID of the recipient
+   * @param type Type of the notification
+   * @param content Title, message and related data
+   * @param preferences Preferences of the recipient, if they set any
+   */
+  private static async deliverEmail(
+    userId: mongoose.Types.ObjectId | string,
+    type: NotificationType,
+    content: NotificationContent,
+    preferences: Pick<INotificationPreference, 'emailDelivery' | 'emailMutedTypes'> | null
+  ): Promise<void> {
+    if (!EMAIL_NOTIFICATION_TYPES.includes(type)) {
+      return;
+    }
+
+    const delivery = preferences?.emailDelivery || 'immediate';
+    if (delivery === 'off' || preferences?.emailMutedTypes?.includes(type)) {
+      return;
+    }
+
+    const item = {
+      type,
+      title: content.title,
+      message: content.message,
+      data: content.data || {}
+    };
+
+    try {
+      if (delivery === 'digest') {
+        await EmailDigestItem.create({ userId, ...item });
+        return;
+      }
+
+      const user = await User.findById(userId).select('name email');
+      if (user) {
+        await EmailService.sendWorkflowEmail(user.email, user.name, item);
+      }
+    } catch (error: any) {
+      logger.error({
+        message: `Failed to email ${type} notification`,
+        error: error.message,
+        userId: userId.toString()
+      });
+    }
+  }
+
+  /**
+   * Tell the founder a new draft is waiting for their approval
+   * @param post The new post
+   * @param actorId ID of the admin who created it
+   */
+  static async notifyPostCreated(post: PostSummary, actorId: string): Promise<void> {
+    await this.notify(post.founderId, 'post_created', {
+      title: 'New post awaiting your approval',
+      message: `A new draft is ready for review: "${this.excerpt(post.caption)}"`,
+      data: { postId: post._id.toString() },
+      actorId
+    });
+  }
+
+  /**
+   * Tell the other side of the post about a status change
+   * @param post The post
+   * @param status The new status
+   * @param actorId ID of the user who changed it, if any
+   * @param feedback Feedback given with the change
+   */
+  static async notifyPostStatusChanged(
+    post: PostSummary,
+    status: PostStatus,
+    actorId?: string,
+    feedback?: string
+  ): Promise<void> {
+    const notification = STATUS_NOTIFICATIONS[status];
+    if (!notification) {
+      return;
+    }
+
+    const recipientId = notification.recipient === 'admin' ? post.adminId : post.founderId;
+    const message = feedback
+      ? `"${this.excerpt(post.caption)}" was ${status}: ${feedback}`
+      : `"${this.excerpt(post.caption)}" was ${status}`;
+
+    await this.notify(recipientId, notification.type, {
+      title: notification.title,
+      message,
+      data: { postId: post._id.toString(), status, feedback },
+      actorId
+    });
+  }
+
+  /**
+   * Tell the other side of the post that feedback was added
+   * @param post The post
+   * @param feedback The feedback
+   * @param actorId ID of the user who gave it
+   */
+  static async notifyPostFeedback(post: PostSummary, feedback: string, actorId: string): Promise<void> {
+    const recipientId = post.founderId.toString() === actorId ? post.adminId : post.founderId;
+
+    await this.notify(recipientId, 'post_feedback', {
+      title: 'New feedback on a post',
+      message: feedback,
+      data: { postId: post._id.toString() },
+      actorId
+    });
+  }
+
+  /**
+   * Tell the founder their monthly report is available
+   * @param report The uploaded report
+   * @param actorId ID of the admin who uploaded it
+   */
+  static async notifyReportUploaded(report: IReport, actorId?: string): Promise<void> {
+    await this.notify(report.founderId, 'report_uploaded', {
+      title: 'Monthly report uploaded',
+      message: `Your report for ${report.month} is ready`,
+      data: { reportId: report.id, month: report.month },
+      actorId
+    });
+  }
+
+  /**
+   * Tell the admins behind a report that the founder acknowledged it
+   * @param report The acknowledged report
+   * @param adminIds IDs of the admins to tell
+   * @param actorId ID of the founder
+   */
+  static async notifyReportAcknowledged(report: IReport, adminIds: string[], actorId: string): Promise<void> {
+    await Promise.all(adminIds.map(adminId => this.notify(adminId, 'report_acknowledged', {
+      title: 'Report acknowledged',
+      message: `The report for ${report.month} was read and acknowledged`,
+      data: { reportId: report.id, founderId: report.founderId.toString(), month: report.month },
+      actorId
+    })));
+  }
+
+  /**
+   * Tell the other side of a report about a new comment in its discussion
+   * @param report The report being discussed
+   * @param recipientIds IDs of the users to tell
+   * @param body The comment
+   * @param actorId ID of the user who wrote it
+   */
+  static async notifyReportComment(
+    report: IReport,
+    recipientIds: string[],
+    body: string,
+    actorId: string
+  ): Promise<void> {
+    await Promise.all(recipientIds.map(recipientId => this.notify(recipientId, 'report_comment', {
+      title: `New comment on the ${report.month} report`,
+      message: this.excerpt(body),
+      data: { reportId: report.id, founderId: report.founderId.toString(), month: report.month },
+      actorId
+    })));
+  }
+
+  /**
+   * Tell the founder their monthly metrics were uploaded
+   * @param metrics The uploaded metrics
+   * @param actorId ID of the user who uploaded them
+   */
+  static async notifyMetricsUploaded(metrics: IFounderMetrics, actorId: string): Promise<void> {
+    await this.notify(metrics.founderId, 'metrics_uploaded', {
+      title: 'Metrics uploaded',
+      message: `Your metrics for ${metrics.month} are available`,
+      data: { metricsId: metrics.id, month: metrics.month },
+      actorId
+    });
+  }
+
+  /**
+   * Get notifications of a user
+   * @param userId ID of the user
+   * @param unreadOnly Only return unread notifications
+   * @param limit Maximum number of results to return
+   * @param offset Number of results to skip (for pagination)
+   * @returns Object containing notifications array and total count
+   */
+  static async getNotifications(
+    userId: string,
+    unreadOnly: boolean = false,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ notifications: INotification[]; total: number }> {
+    const filters: any = { userId };
+    if (unreadOnly) {
+      filters.read = false;
+    }
+
+    const [notifications, total] = await Promise.all([
+      Notification.find(filters)
+        .sort({ createdAt: -1 })
+        .skip(offset)
+        .limit(limit)
+        .populate('actorId', 'name email'),
+      Notification.countDocuments(filters)
+    ]);
+
+    return { notifications, total };
+  }
+
+  /**
+   * Count unread notifications of a user
+   * @param userId ID of the user
+   * @returns Number of unread notifications
+   */
+  static async getUnreadCount(userId: string): Promise<number> {
+    return Notification.countDocuments({ userId, read: false });
+  }
+
+  /**
+   * Mark a notification as read
+   * @param userId ID of the user (must own the notification)
+   * @param notificationId ID of the notification
+   * @returns The updated notification
+   */
+  static async markAsRead(userId: string, notificationId: string): Promise<INotification> {
+    if (!mongoose.Types.ObjectId.isValid(notificationId)) {
+      throw new AppError('Invalid notification ID', 400);
+    }
+
+    const notification = await Notification.findOneAndUpdate(
+      { _id: notificationId, userId },
+      { $set: { read: true, readAt: new Date() } },
+      { new: true }
+    );
+
+    if (!notification) {
+      throw new AppError('Notification not found', 404);
+    }
+
+    return notification;
+  }
+
+  /**
+   * Mark all notifications of a user as read
+   * @param userId ID of the user
+   * @returns Number of notifications that were marked as read
+   */
+  static async markAllAsRead(userId: string): Promise<number> {
+    const result = await Notification.updateMany(
+      { userId, read: false },
+      { $set: { read: true, readAt: new Date() } }
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Get notification preferences of a user
+   * @param userId ID of the user
+   * @returns Preferences (defaults when the user never changed them)
+   */
+  static async getPreferences(userId: string): Promise<INotificationPreference> {
+    const preferences = await NotificationPreference.findOne({ userId });
+    return preferences || new NotificationPreference({ userId });
+  }
+
+  /**
+   * Update notification preferences of a user
+   * @param userId ID of the user
+   * @param update Muted in-app types, email delivery mode and muted email types
+   * @returns The updated preferences
+   */
+  static async updatePreferences(
+    userId: string,
+    update: PreferencesUpdate
+  ): Promise<INotificationPreference> {
+    const changes: PreferencesUpdate = {};
+    if (update.mutedTypes !== undefined) changes.mutedTypes = update.mutedTypes;
+    if (update.emailDelivery !== undefined) changes.emailDelivery = update.emailDelivery;
+    if (update.emailMutedTypes !== undefined) changes.emailMutedTypes = update.emailMutedTypes;
+
+    const preferences = await NotificationPreference.findOneAndUpdate(
+      { userId },
+      { $set: changes },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    return preferences!;
+  }
+
+  private static excerpt(text: string, length: number = 60): string {
+    return text.length > length ? `${text.slice(0, length)}...` : text;
+  }
+}
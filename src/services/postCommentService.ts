@@ -0,0 +1,191 @@
+import mongoose from 'mongoose';
+import { PostComment, IPostComment } from '../models/PostComment';
+import { IPost } from '../models/Post';
+import { UserRole } from '../models/User';
+import AppError from '../utils/AppError';
+
+interface CommentCreateData {
+  body: string;
+  imageIndex?: number;
+  parentId?: string;
+}
+
+export class PostCommentService {
+  /**
+   * Add a comment (or a reply) to a post
+   * @param post The post being commented on
+   * @param authorId ID of the user writing the comment
+   * @param authorRole Role of the user writing the comment
+   * @param data Comment data
+   * @returns The created comment
+   */
+  static async addComment(
+    post: IPost,
+    authorId: string,
+    authorRole: UserRole,
+    data: CommentCreateData
+  ): Promise<IPostComment> {
+    if (data.imageIndex !== undefined && data.imageIndex >= post.images.length) {
+      throw new AppError('Image index is out of range for this post', 400);
+    }
+
+    let parentId: mongoose.Types.ObjectId | null = null;
+
+    if (data.parentId) {
+      const parent = await this.getComment(post.id, data.parentId);
+
+      // Replies always attach to the top-level comment of the thread
+      parentId = parent.parentId || parent._id as mongoose.Types.ObjectId;
+    }
+
+    const comment = await PostComment.create({
+      postId: post._id,
+      authorId,
+      authorRole,
+      body: data.body,
+      imageIndex: data.imageIndex,
+      parentId
+    });
+
+    return comment.populate('authorId', 'name email');
+  }
+
+  /**
+   * Get all comments of a post grouped into threads
+   * @param postId ID of the post
+   * @param resolved Optionally only return resolved or unresolved threads
+   * @returns Top-level comments, each with its replies, oldest first
+   */
+  static async getThreads(postId: string, resolved?: boolean): Promise<any[]> {
+    const comments = await PostComment.find({ postId })
+      .sort({ createdAt: 1 })
+      .populate('authorId', 'name email')
+      .populate('resolvedBy', 'name email')
+      .lean();
+
+    const threads = comments
+      .filter(comment => !comment.parentId)
+      .filter(comment => resolved === undefined || comment.resolved === resolved)
+      .map(comment => ({ ...comment, replies: [] as any[] }));
+
+    const threadMap = new Map(threads.map(thread => [thread._id.toString(), thread]));
+
+    for (const comment of comments) {
+      if (!comment.parentId) continue;
+      const thread = threadMap.get(comment.parentId.toString());
+      if (thread) {
+        thread.replies.push(comment);
+      }
+    }
+
+    return threads;
+  }
+
+  /**
+   * Get a single comment of a post
+   * @param postId ID of the post
+   * @param commentId ID of the comment
+   * @returns The comment
+   */
+  static async getComment(postId: string, commentId: string): Promise<IPostComment> {
+    if (!mongoose.Types.ObjectId.isValid(commentId)) {
+      throw new AppError('Invalid comment ID', 400);
+    }
+
+    const comment = await PostComment.findOne({ _id: commentId, postId });
+
+    if (!comment) {
+      throw new AppError('Comment not found', 404);
+    }
+
+    return comment;
+  }
+
+  /**
+   * Edit a comment, keeping the previous body in its edit history
+   * @param postId ID of the post
+   * @param commentId ID of the comment
+   * @param userId ID of the user editing the comment (must be the author)
+   * @param body New comment body
+   * @returns The updated comment
+   */
+  static async editComment(
+    postId: string,
+    commentId: string,
+    userId: string,
+    body: string
+  ): Promise<IPostComment> {
+    const comment = await this.getComment(postId, commentId);
+
+    if (comment.authorId?.toString() !== userId) {
+      throw new AppError('You can only edit your own comments', 403);
+    }
+
+    comment.edits.push({ body: comment.body, editedAt: new Date() });
+    comment.body = body;
+    comment.editedAt = new Date();
+    await comment.save();
+
+    return comment.populate('authorId', 'name email');
+  }
+
+  /**
+   * Resolve or reopen a comment thread
+   * @param postId ID of the post
+   * @param commentId ID of the top-level comment
+   * @param userId ID of the user resolving the thread
+   * @param resolved Whether the thread is resolved
+   * @returns The updated comment
+   */
+  static async setResolved(
+    postId: string,
+    commentId: string,
+    userId: string,
+    resolved: boolean
+  ): Promise<IPostComment> {
+    const comment = await this.getComment(postId, commentId);
+
+    if (comment.parentId) {
+      throw new AppError('Only top-level comments can be resolved', 400);
+    }
+
+    comment.resolved = resolved;
+    comment.resolvedBy = resolved ? new mongoose.Types.ObjectId(userId) : undefined;
+    comment.resolvedAt = resolved ? new Date() : undefined;
+    await comment.save();
+
+    return comment.populate('authorId', 'name email');
+  }
+
+  /**
+   * Delete a comment and, for top-level comments, all of its replies
+   * @param postId ID of the post
+   * @param commentId ID of the comment
+   * @param userId ID of the user deleting the comment
+   * @param userRole Role of the user deleting the comment
+   */
+  static async deleteComment(
+    postId: string,
+    commentId: string,
+    userId: string,
+    userRole: UserRole
+  ): Promise<void> {
+    const comment = await this.getComment(postId, commentId);
+
+    if (userRole !== 'super-admin' && comment.authorId?.toString() !== userId) {
+      throw new AppError('You can only delete your own comments', 403);
+    }
+
+    await PostComment.deleteMany({
+      $or: [{ _id: comment._id }, { parentId: comment._id }]
+    });
+  }
+
+  /**
+   * Delete all comments of a post
+   * @param postId ID of the post
+   */
+  static async deletePostComments(postId: string): Promise<void> {
+    await PostComment.deleteMany({ postId });
+  }
+}
@@ -0,0 +1,153 @@
+import mongoose from 'mongoose';
+import { PostRevision, IPostRevision } from '../models/PostRevision';
+import { IPost } from '../models/Post';
+import { PostActor } from './postService';
+import { diffWords } from '../utils/textDiff';
+import AppError from '../utils/AppError';
+
+// Concurrent edits of a post can pick the same revision number; the unique index lets one win
+const MAX_REVISION_ATTEMPTS = 5;
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  error instanceof mongoose.mongo.MongoServerError && error.code === 11000;
+
+export class PostRevisionService {
+  /**
+   * Snapshot the current content of a post as a new revision
+   * @param post The post after the change
+   * @param actor User (or the system) who made the change
+   * @param restoredFrom Revision number the content was restored from, if any
+   * @returns The created revision
+   */
+  static async recordRevision(
+    post: IPost,
+    actor: PostActor,
+    restoredFrom?: number
+  ): Promise<IPostRevision> {
+    for (let attempt = 1; ; attempt++) {
+      const latest = await PostRevision.findOne({ postId: post._id })
+        .sort({ revision: -1 })
+        .select('revision')
+        .lean();
+
+      try {
+        return await PostRevision.create({
+          postId: post._id,
+          revision: latest ? latest.revision + 1 : 1,
+          caption: post.caption,
+          images: post.images,
+          scheduledDate: post.scheduledDate,
+          createdBy: actor.userId,
+          createdByRole: actor.role,
+          restoredFrom
+        });
+      } catch (error) {
+        // Duplicate key means another edit took this number; take the next one
+        if (!isDuplicateKeyError(error) || attempt >= MAX_REVISION_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Make sure a post created before revisions existed has its current
+   * content stored as the first revision before it is changed
+   * @param post The post before the change
+   */
+  static async ensureBaseline(post: IPost): Promise<void> {
+    const hasRevisions = await PostRevision.exists({ postId: post._id });
+    if (hasRevisions) {
+      return;
+    }
+
+    try {
+      await PostRevision.create({
+        postId: post._id,
+        revision: 1,
+        caption: post.caption,
+        images: post.images,
+        scheduledDate: post.scheduledDate,
+        createdBy: post.adminId,
+        createdByRole: 'admin',
+        createdAt: post.updatedAt
+      });
+    } catch (error) {
+      // Duplicate key means a concurrent edit already stored the baseline
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Get all revisions of a post
+   * @param postId ID of the post
+   * @returns Revisions, newest first
+   */
+  static async getRevisions(postId: string): Promise<IPostRevision[]> {
+    return PostRevision.find({ postId })
+      .sort({ revision: -1 })
+      .populate('createdBy', 'name email')
+      .exec();
+  }
+
+  /**
+   * Get a specific revision of a post
+   * @param postId ID of the post
+   * @param revision Revision number
+   * @returns The revision
+   */
+  static async getRevision(postId: string, revision: number): Promise<IPostRevision> {
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new AppError('Invalid post ID', 400);
+    }
+
+    const postRevision = await PostRevision.findOne({ postId, revision })
+      .populate('createdBy', 'name email');
+
+    if (!postRevision) {
+      throw new AppError(`Revision ${revision} not found`, 404);
+    }
+
+    return postRevision;
+  }
+
+  /**
+   * Compare two revisions of a post
+   * @param postId ID of the post
+   * @param from Older revision number
+   * @param to Newer revision number
+   * @returns Word-level caption diff and image/schedule changes
+   */
+  static async diffRevisions(postId: string, from: number, to: number): Promise<any> {
+    const [fromRevision, toRevision] = await Promise.all([
+      this.getRevision(postId, from),
+      this.getRevision(postId, to)
+    ]);
+
+    const fromScheduled = fromRevision.scheduledDate?.toISOString() || null;
+    const toScheduled = toRevision.scheduledDate?.toISOString() || null;
+
+    return {
+      from,
+      to,
+      caption: diffWords(fromRevision.caption, toRevision.caption),
+      images: {
+        added: toRevision.images.filter(image => !fromRevision.images.includes(image)),
+        removed: fromRevision.images.filter(image => !toRevision.images.includes(image))
+      },
+      scheduledDate: fromScheduled === toScheduled
+        ? null
+        : { from: fromScheduled, to: toScheduled }
+    };
+  }
+
+  /**
+   * Delete all revisions of a post
+   * @param postId ID of the post
+   */
+  static async deletePostRevisions(postId: string): Promise<void> {
+    await PostRevision.deleteMany({ postId });
+  }
+}
@@ -1,16 +1,22 @@
 import mongoose from 'mongoose';
-import { Post, IPost, PostStatus } from '../models/Post';
-import { User } from '../models/User';
+import { Post, IPost, PostStatus, IPostStatusChange } from '../models/Post';
+import { UserRole } from '../models/User';
 import { Founder } from '../models/Founder';
+import { ActivityRole } from '../models/ActivityLogs';
+import { AssignmentService } from './assignmentService';
+import { PostRevisionService } from './postRevisionService';
+import { StorageService } from './storageService';
+import { MediaService } from './mediaService';
+import { DashboardCacheService } from './dashboardCacheService';
 import AppError from '../utils/AppError';
 
 interface PostCreateData {
   founderId: string;
   adminId: string;
+  createdByRole: UserRole;
   caption: string;
   images?: string[];
   scheduledDate?: Date | string;
-  status: PostStatus;
   feedback?: string;
 }
 
@@ -18,10 +24,42 @@ interface PostUpdateData {
   caption?: string;
   images?: string[];
   scheduledDate?: Date | string;
-  status?: PostStatus;
   feedback?: string;
 }
 
+// Fields that make up the content of a post and are kept in its revisions
+const CONTENT_FIELDS: (keyof PostUpdateData)[] = ['caption', 'images', 'scheduledDate'];
+
+export interface PostActor {
+  userId?: string;
+  role: ActivityRole;
+}
+
+/**
+ * Allowed status transitions and the roles that may perform them.
+ * Anything not listed here is rejected by PostService.transitionStatus.
+ */
+export const POST_TRANSITIONS: Record<PostStatus, Partial<Record<PostStatus, ActivityRole[]>>> = {
+  pending: {
+    approved: ['founder', 'super-admin'],
+    rejected: ['founder', 'super-admin']
+  },
+  rejected: {
+    pending: ['admin', 'super-admin']
+  },
+  approved: {
+    scheduled: ['admin', 'super-admin'],
+    rejected: ['founder', 'super-admin'],
+    posted: ['system', 'super-admin']
+  },
+  scheduled: {
+    approved: ['admin', 'super-admin'],
+    rejected: ['founder', 'super-admin'],
+    posted: ['system', 'super-admin']
+  },
+  posted: {}
+};
+
 export class PostService {
   /**
    * Create a new post
@@ -36,17 +74,39 @@ export class PostService {
         throw new AppError('Founder not found', 404);
       }
 
-      // Create the post
+      // Images must come from the founder's media library
+      const images = (postData.images || []).map(image => StorageService.toKey(image));
+      StorageService.assertFounderImageKeys(postData.founderId, images);
+      await MediaService.assertUsableImages(postData.founderId, images);
+
+      // Create the post - every post starts as pending and waits for the founder
       const post = await Post.create({
         founderId: postData.founderId,  // Use the Founder document ID
         adminId: postData.adminId,
         caption: postData.caption,
-        images: postData.images || [],  // Default to empty array if not provided
+        images,
         scheduledDate: postData.scheduledDate,
-        status: postData.status,
-        feedback: postData.feedback
+        status: 'pending',
+        feedback: postData.feedback,
+        statusHistory: [{
+          from: null,
+          to: 'pending',
+          changedBy: postData.adminId,
+          role: postData.createdByRole,
+          changedAt: new Date()
+        }]
       });
       
+      // The initial content is the first revision
+      await PostRevisionService.recordRevision(post, {
+        userId: postData.adminId,
+        role: postData.createdByRole
+      });
+
+      await MediaService.syncPostReferences(post.id, post.images);
+
+      await DashboardCacheService.invalidateFounder(postData.founderId);
+
       // Log the creation for debugging
       console.log(`Created post with ID: ${post._id}, founderId: ${post.founderId}, adminId: ${post.adminId}`);
 
@@ -85,6 +145,7 @@ export class PostService {
       
       // Build the query
       const query = Post.find(filters)
+        .select('-statusHistory')
         .populate('adminId', 'name email')
         .populate('founderId', 'userId companyName')
         .sort({ scheduledDate: 1, createdAt: -1 }) // Sort by scheduled date first, then creation date
@@ -131,17 +192,33 @@ export class PostService {
    * Update an existing post
    * @param postId ID of the post to update
    * @param updateData Data to update in the post
+   * @param actor User making the change; content changes are saved as a revision when given
    * @returns The updated post
    */
   static async updatePost(
     postId: string,
-    updateData: PostUpdateData
+    updateData: PostUpdateData,
+    actor?: PostActor
   ): Promise<IPost> {
     try {
       if (!mongoose.Types.ObjectId.isValid(postId)) {
         throw new AppError('Invalid post ID', 400);
       }
 
+      updateData = this.withImageKeys(updateData);
+
+      const contentChanged = !!actor && this.hasContentChanges(updateData);
+      if (contentChanged || updateData.images) {
+        const existingPost = await Post.findById(postId);
+        if (existingPost && updateData.images) {
+          StorageService.assertFounderImageKeys(existingPost.founderId.toString(), updateData.images, existingPost.images);
+          await MediaService.assertUsableImages(existingPost.founderId, updateData.images, existingPost.images);
+        }
+        if (existingPost && contentChanged) {
+          await PostRevisionService.ensureBaseline(existingPost);
+        }
+      }
+
       // Find and update the post
       const post = await Post.findByIdAndUpdate(
         postId,
@@ -154,6 +231,14 @@ export class PostService {
         throw new AppError('Post not found', 404);
       }
 
+      if (contentChanged) {
+        await PostRevisionService.recordRevision(post, actor!);
+      }
+
+      if (updateData.images) {
+        await MediaService.syncPostReferences(post.id, post.images);
+      }
+
       return post;
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -161,6 +246,333 @@ export class PostService {
     }
   }
 
+  /**
+   * Restore the content of a post from one of its revisions
+   * The restored content is saved as a new revision
+   * @param postId ID of the post
+   * @param revision Revision number to restore
+   * @param actor User restoring the revision
+   * @returns The updated post
+   */
+  static async restoreRevision(
+    postId: string,
+    revision: number,
+    actor: PostActor
+  ): Promise<IPost> {
+    const postRevision = await PostRevisionService.getRevision(postId, revision);
+
+    const existingPost = await this.getPostById(postId);
+    if (!existingPost) {
+      throw new AppError('Post not found', 404);
+    }
+
+    // Restored images go through the same checks as edited ones, so an image
+    // whose asset has since been deleted is rejected instead of left dangling
+    const images = postRevision.images.map(image => StorageService.toKey(image));
+    StorageService.assertFounderImageKeys(existingPost.founderId.toString(), images, existingPost.images);
+    await MediaService.assertUsableImages(existingPost.founderId, images, existingPost.images);
+
+    const post = await Post.findByIdAndUpdate(
+      postId,
+      {
+        $set: {
+          caption: postRevision.caption,
+          images,
+          scheduledDate: postRevision.scheduledDate
+        }
+      },
+      { new: true, runValidators: true }
+    ).populate('founderId', 'name email profile')
+      .populate('adminId', 'name email');
+
+    if (!post) {
+      throw new AppError('Post not found', 404);
+    }
+
+    await PostRevisionService.recordRevision(post, actor, revision);
+    await MediaService.syncPostReferences(post.id, post.images);
+
+    return post;
+  }
+
+  /**
+   * Check whether an update touches the content of a post
+   * @param updateData Data to update in the post
+   * @returns Whether caption, images or scheduledDate are being changed
+   */
+  private static hasContentChanges(updateData: PostUpdateData): boolean {
+    return CONTENT_FIELDS.some(field => updateData[field] !== undefined);
+  }
+
+  /**
+   * Check whether a status transition is allowed for a role
+   * @param from Current status
+   * @param to Requested status
+   * @param role Role of the actor
+   * @returns Whether the transition is allowed
+   */
+  static canTransition(from: PostStatus, to: PostStatus, role: ActivityRole): boolean {
+    const allowedRoles = POST_TRANSITIONS[from][to];
+    return !!allowedRoles && allowedRoles.includes(role);
+  }
+
+  /**
+   * Move a post to a new status through the transition table
+   * @param postId ID of the post
+   * @param to Requested status
+   * @param actor User (or the system) performing the change
+   * @param reason Optional reason recorded in the status history
+   * @param updateData Additional fields to set together with the status
+   * @returns The updated post
+   */
+  static async transitionStatus(
+    postId: string,
+    to: PostStatus,
+    actor: PostActor,
+    reason?: string,
+    updateData: PostUpdateData = {}
+  ): Promise<IPost> {
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new AppError('Invalid post ID', 400);
+    }
+
+    const post = await Post.findById(postId);
+    if (!post) {
+      throw new AppError('Post not found', 404);
+    }
+
+    const from = post.status;
+
+    if (!POST_TRANSITIONS[from][to]) {
+      throw new AppError(`Cannot move a post from ${from} to ${to}`, 400);
+    }
+
+    if (!this.canTransition(from, to, actor.role)) {
+      throw new AppError(`Role ${actor.role} cannot move a post from ${from} to ${to}`, 403);
+    }
+
+    updateData = this.withImageKeys(updateData);
+
+    if (updateData.images) {
+      StorageService.assertFounderImageKeys(post.founderId.toString(), updateData.images, post.images);
+      await MediaService.assertUsableImages(post.founderId, updateData.images, post.images);
+    }
+
+    if (to === 'scheduled' && !updateData.scheduledDate && !post.scheduledDate) {
+      throw new AppError('A scheduled date is required to schedule a post', 400);
+    }
+
+    const change: IPostStatusChange = {
+      from,
+      to,
+      changedBy: actor.userId ? new mongoose.Types.ObjectId(actor.userId) : undefined,
+      role: actor.role,
+      reason,
+      changedAt: new Date()
+    };
+
+    // Only apply the change if nobody else moved the post in the meantime
+    const updatedPost = await Post.findOneAndUpdate(
+      { _id: postId, status: from },
+      {
+        $set: { ...updateData, status: to },
+        $push: { statusHistory: change }
+      },
+      { new: true, runValidators: true }
+    ).populate('founderId', 'name email profile')
+      .populate('adminId', 'name email');
+
+    if (!updatedPost) {
+      throw new AppError('Post status was changed by someone else, please retry', 409);
+    }
+
+    if (this.hasContentChanges(updateData)) {
+      await PostRevisionService.ensureBaseline(post);
+      await PostRevisionService.recordRevision(updatedPost, actor);
+    }
+
+    if (updateData.images) {
+      await MediaService.syncPostReferences(updatedPost.id, updatedPost.images);
+    }
+
+    await DashboardCacheService.invalidateFounder(post.founderId.toString());
+
+    return updatedPost;
+  }
+
+  /**
+   * Move a post to a new date, e.g. when it is dragged in the content calendar
+   * Approved posts become scheduled; posted and rejected posts cannot be moved
+   * @param postId ID of the post
+   * @param scheduledDate New date of the post
+   * @param actor User moving the post
+   * @returns The updated post
+   */
+  static async reschedulePost(postId: string, scheduledDate: Date | string, actor: PostActor): Promise<IPost> {
+    const post = await this.getPostById(postId);
+    if (!post) {
+      throw new AppError('Post not found', 404);
+    }
+
+    if (post.status === 'posted' || post.status === 'rejected') {
+      throw new AppError(`Cannot reschedule a ${post.status} post`, 400);
+    }
+
+    return post.status === 'approved'
+      ? this.transitionStatus(postId, 'scheduled', actor, undefined, { scheduledDate })
+      : this.updatePost(postId, { scheduledDate }, actor);
+  }
+
+  /**
+   * Get the status history of a post
+   * @param postId ID of the post
+   * @returns Status changes, oldest first
+   */
+  static async getStatusHistory(postId: string): Promise<IPostStatusChange[]> {
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      throw new AppError('Invalid post ID', 400);
+    }
+
+    const post = await Post.findById(postId)
+      .select('statusHistory')
+      .populate('statusHistory.changedBy', 'name email')
+      .lean();
+
+    if (!post) {
+      throw new AppError('Post not found', 404);
+    }
+
+    return post.statusHistory || [];
+  }
+
+  /**
+   * Check whether a user may view a post
+   * Super admins see everything, admins see posts they created or posts of
+   * founders assigned to them, founders only see their own posts
+   * @param post The post
+   * @param userId ID of the user
+   * @param userRole Role of the user
+   * @returns Whether the user can view the post
+   */
+  static async canViewPost(post: IPost, userId: string, userRole: UserRole): Promise<boolean> {
+    if (userRole === 'super-admin') return true;
+
+    if (userRole === 'founder') {
+      return post.founderId.toString() === userId;
+    }
+
+    if (userRole === 'admin') {
+      if (post.adminId.toString() === userId) return true;
+      return AssignmentService.isAdminAssignedToFounder(userId, post.founderId.toString());
+    }
+
+    return false;
+  }
+
+  /**
+   * Get a post the user is allowed to view
+   * @param postId ID of the post
+   * @param userId ID of the user
+   * @param userRole Role of the user
+   * @returns The post
+   */
+  static async getAccessiblePost(postId: string, userId: string, userRole: UserRole): Promise<IPost> {
+    const post = await this.getPostById(postId);
+
+    if (!post) {
+      throw new AppError('Post not found', 404);
+    }
+
+    const canView = await this.canViewPost(post, userId, userRole);
+    if (!canView) {
+      throw new AppError('You are not authorized to access this post', 403);
+    }
+
+    return post;
+  }
+
+  /**
+   * Build the query filters that limit a post listing to what the user may see
+   * Admins see the posts they created, founders their own posts, super admins everything
+   * @param userId ID of the user
+   * @param userRole Role of the user
+   * @param requested founderId and adminId filters asked for by the user
+   * @returns Filters on founderId and adminId
+   */
+  static async getScopeFilters(
+    userId: string,
+    userRole: UserRole,
+    requested: { founderId?: string; adminId?: string } = {}
+  ): Promise<{ founderId?: any; adminId?: any }> {
+    const { founderId, adminId } = requested;
+    const filters: { founderId?: any; adminId?: any } = {};
+
+    if (userRole === 'admin') {
+      // If founderId is provided, check if admin is assigned to this founder
+      if (founderId) {
+        const isAssigned = await AssignmentService.isAdminAssignedToFounder(userId, founderId);
+
+        if (!isAssigned) {
+          throw new AppError('You are not assigned to this founder', 403);
+        }
+        filters.founderId = founderId;
+      }
+
+      // Admin can only filter by their own adminId, and defaults to it
+      if (adminId && adminId !== userId) {
+        throw new AppError('You can only filter by your own admin ID', 403);
+      }
+      filters.adminId = userId;
+    } else if (userRole === 'founder') {
+      // Founders can only see their own posts
+      const founder = await Founder.findOne({ userId });
+
+      if (!founder) {
+        throw new AppError('Founder profile not found', 404);
+      }
+
+      // If specific founderId was requested, verify it matches the logged-in founder
+      if (founderId && founder.userId.toString() !== founderId) {
+        throw new AppError('You can only view your own posts', 403);
+      }
+      filters.founderId = founder.userId;
+    } else if (userRole === 'super-admin') {
+      // Super admins can see all posts or filter by specific founder/admin
+      if (founderId) filters.founderId = founderId;
+      if (adminId) filters.adminId = adminId;
+    }
+
+    return filters;
+  }
+
+  /**
+   * Store images as storage keys, whatever form the client sent them in
+   * @param updateData Data to update in the post
+   * @returns The data with images converted to keys
+   */
+  private static withImageKeys(updateData: PostUpdateData): PostUpdateData {
+    if (!updateData.images) {
+      return updateData;
+    }
+
+    return { ...updateData, images: updateData.images.map(image => StorageService.toKey(image)) };
+  }
+
+  /**
+   * Prepare a post for a response by swapping its image keys for signed download URLs
+   * Only call once the requester's access to the post has been checked
+   * @param post Post document or plain object
+   * @returns Plain post object with signed image URLs
+   */
+  static async withSignedImages<T extends { images?: string[] }>(post: T): Promise<T> {
+    const plain = typeof (post as any).toObject === 'function' ? (post as any).toObject() : post;
+
+    return {
+      ...plain,
+      images: await StorageService.getSignedUrls(plain.images || [])
+    };
+  }
+
   /**
    * Delete a post
    * @param postId ID of the post to delete
@@ -176,6 +588,11 @@ export class PostService {
       if (!result) {
         throw new AppError('Post not found', 404);
       }
+
+      // Its images become collectable once no other post uses them
+      await MediaService.releasePost(postId);
+
+      await DashboardCacheService.invalidateFounder(result.founderId.toString());
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw new AppError('Error deleting post', 500);
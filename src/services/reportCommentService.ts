@@ -0,0 +1,185 @@
+import mongoose from 'mongoose';
+import { ReportComment, IReportComment } from '../models/ReportComment';
+import { IReport } from '../models/Report';
+import { UserRole } from '../models/User';
+import AppError from '../utils/AppError';
+
+interface CommentCreateData {
+  body: string;
+  parentId?: string;
+}
+
+export class ReportCommentService {
+  /**
+   * Add a comment (or a reply) to a report's discussion
+   * @param report The report being discussed
+   * @param authorId ID of the user writing the comment
+   * @param authorRole Role of the user writing the comment
+   * @param data Comment data
+   * @returns The created comment
+   */
+  static async addComment(
+    report: IReport,
+    authorId: string,
+    authorRole: UserRole,
+    data: CommentCreateData
+  ): Promise<IReportComment> {
+    let parentId: mongoose.Types.ObjectId | null = null;
+
+    if (data.parentId) {
+      const parent = await this.getComment(report.id, data.parentId);
+
+      // Replies always attach to the top-level comment of the thread
+      parentId = parent.parentId || parent._id as mongoose.Types.ObjectId;
+    }
+
+    const comment = await ReportComment.create({
+      reportId: report._id,
+      authorId,
+      authorRole,
+      body: data.body,
+      parentId
+    });
+
+    return comment.populate('authorId', 'name email');
+  }
+
+  /**
+   * Get the discussion of a report grouped into threads
+   * @param reportId ID of the report
+   * @param resolved Optionally only return resolved or unresolved threads
+   * @returns Top-level comments, each with its replies, oldest first
+   */
+  static async getThreads(reportId: string, resolved?: boolean): Promise<any[]> {
+    const comments = await ReportComment.find({ reportId })
+      .sort({ createdAt: 1 })
+      .populate('authorId', 'name email')
+      .populate('resolvedBy', 'name email')
+      .lean();
+
+    const threads = comments
+      .filter(comment => !comment.parentId)
+      .filter(comment => resolved === undefined || comment.resolved === resolved)
+      .map(comment => ({ ...comment, replies: [] as any[] }));
+
+    const threadMap = new Map(threads.map(thread => [thread._id.toString(), thread]));
+
+    for (const comment of comments) {
+      if (!comment.parentId) continue;
+      const thread = threadMap.get(comment.parentId.toString());
+      if (thread) {
+        thread.replies.push(comment);
+      }
+    }
+
+    return threads;
+  }
+
+  /**
+   * Get a single comment of a report
+   * @param reportId ID of the report
+   * @param commentId ID of the comment
+   * @returns The comment
+   */
+  static async getComment(reportId: string, commentId: string): Promise<IReportComment> {
+    if (!mongoose.Types.ObjectId.isValid(commentId)) {
+      throw new AppError('Invalid comment ID', 400);
+    }
+
+    const comment = await ReportComment.findOne({ _id: commentId, reportId });
+
+    if (!comment) {
+      throw new AppError('Comment not found', 404);
+    }
+
+    return comment;
+  }
+
+  /**
+   * Edit a comment, keeping the previous body in its edit history
+   * @param reportId ID of the report
+   * @param commentId ID of the comment
+   * @param userId ID of the user editing the comment (must be the author)
+   * @param body New comment body
+   * @returns The updated comment
+   */
+  static async editComment(
+    reportId: string,
+    commentId: string,
+    userId: string,
+    body: string
+  ): Promise<IReportComment> {
+    const comment = await this.getComment(reportId, commentId);
+
+    if (comment.authorId.toString() !== userId) {
+      throw new AppError('You can only edit your own comments', 403);
+    }
+
+    comment.edits.push({ body: comment.body, editedAt: new Date() });
+    comment.body = body;
+    comment.editedAt = new Date();
+    await comment.save();
+
+    return comment.populate('authorId', 'name email');
+  }
+
+  /**
+   * Mark a question thread as answered, or reopen it
+   * @param reportId ID of the report
+   * @param commentId ID of the top-level comment
+   * @param userId ID of the user resolving the thread
+   * @param resolved Whether the thread is resolved
+   * @returns The updated comment
+   */
+  static async setResolved(
+    reportId: string,
+    commentId: string,
+    userId: string,
+    resolved: boolean
+  ): Promise<IReportComment> {
+    const comment = await this.getComment(reportId, commentId);
+
+    if (comment.parentId) {
+      throw new AppError('Only top-level comments can be resolved', 400);
+    }
+
+    comment.resolved = resolved;
+    comment.resolvedBy = resolved ? new mongoose.Types.ObjectId(userId) : undefined;
+    comment.resolvedAt = resolved ? new Date() : undefined;
+    await comment.save();
+
+    return comment.populate('authorId', 'name email');
+  }
+
+  /**
+   * Delete a comment and, for top-level comments, all of its replies
+   * @param reportId ID of the report
+   * @param commentId ID of the comment
+   * @param userId ID of the user deleting the comment
+   * @param userRole Role of the user deleting the comment
+   */
+  static async deleteComment(
+    reportId: string,
+    commentId: string,
+    userId: string,
+    userRole: UserRole
+  ): Promise<void> {
+    const comment = await this.getComment(reportId, commentId);
+
+    if (userRole !== 'super-admin' && comment.authorId.toString() !== userId) {
+      throw new AppError('You can only delete your own comments', 403);
+    }
+
+    await ReportComment.deleteMany({
+      $or: [{ _id: comment._id }, { parentId: comment._id }]
+    });
+  }
+
+  /**
+   * Delete the whole discussion of a report
+   * @param reportId ID of the report
+   */
+  static async deleteReportComments(reportId: string): Promise<void> {
+    await ReportComment.deleteMany({ reportId });
+  }
+}
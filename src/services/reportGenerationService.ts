@@ -0,0 +1,307 @@
+import PDFDocument from 'pdfkit';
+import { FounderMetrics, IFounderMetrics } from '../models/FounderMetrics';
+import { Founder } from '../models/Founder';
+import { User } from '../models/User';
+import { Post } from '../models/Post';
+import { IReport } from '../models/Report';
+import { ReportService } from './reportService';
+import AppError from '../utils/AppError';
+import { getMonthRange, shiftMonth } from '../utils/timeUtils';
+
+type MetricsSnapshot = Pick<
+  IFounderMetrics,
+  'totalPosts' | 'totalImpressions' | 'totalCommentOutreach' | 'engagementRate' | 'comments' | 'reactions' | 'followerGrowth' | 'notes'
+>;
+
+export interface MetricDelta {
+  label: string;
+  current: number;
+  previous: number | null;
+  change: number | null;
+  changePercent: number | null;
+  unit?: '%';
+}
+
+export interface PublishedPostSummary {
+  caption: string;
+  publishedAt: Date;
+  imageCount: number;
+}
+
+export interface MonthlyReportData {
+  founder: {
+    name: string;
+    email: string;
+    companyName: string | null;
+    industry: string | null;
+  };
+  month: string;
+  metrics: MetricsSnapshot;
+  deltas: MetricDelta[];
+  posts: PublishedPostSummary[];
+  generatedAt: Date;
+}
+
+const BRAND_NAME = 'Blowlin';
+const BRAND_COLOR = '#1d4ed8';
+const MUTED_COLOR = '#6b7280';
+const POSITIVE_COLOR = '#15803d';
+const NEGATIVE_COLOR = '#b91c1c';
+
+// Metrics shown in the report, in order; optional ones are left out when the month has no value
+const REPORT_METRICS: { field: keyof MetricsSnapshot; label: string; unit?: '%' }[] = [
+  { field: 'totalPosts', label: 'Posts' },
+  { field: 'totalImpressions', label: 'Impressions' },
+  { field: 'totalCommentOutreach', label: 'Comment outreach' },
+  { field: 'engagementRate', label: 'Engagement rate', unit: '%' },
+  { field: 'comments', label: 'Comments' },
+  { field: 'reactions', label: 'Reactions' },
+  { field: 'followerGrowth', label: 'Follower growth' }
+];
+
+const formatMonthLabel = (month: string): string => {
+  return getMonthRange(month).start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+};
+
+const formatValue = (value: number | null, unit?: '%'): string => {
+  if (value === null) {
+    return '–';
+  }
+  return unit === '%' ? `${value.toFixed(2)}%` : value.toLocaleString('en-US');
+};
+
+const formatChange = (delta: MetricDelta): string => {
+  if (delta.change === null) {
+    return '–';
+  }
+
+  const sign = delta.change > 0 ? '+' : '';
+  // Rates change in percentage points, counts by a percentage of last month
+  if (delta.unit === '%') {
+    return `${sign}${delta.change.toFixed(2)} pts`;
+  }
+
+  const percent = delta.changePercent === null ? '' : ` (${sign}${delta.changePercent}%)`;
+  return `${sign}${delta.change.toLocaleString('en-US')}${percent}`;
+};
+
+export class ReportGenerationService {
+  /**
+   * Collect everything a founder's monthly report shows
+   * @param founderId User ID of the founder
+   * @param month Month in YYYY-MM format
+   * @returns Founder details, the month's metrics with month-over-month deltas and published posts
+   */
+  static async getReportData(founderId: string, month: string): Promise<MonthlyReportData> {
+    const [user, founder] = await Promise.all([
+      User.findOne({ _id: founderId, role: 'founder' }).select('name email').lean(),
+      Founder.findOne({ userId: founderId }).select('companyName industry').lean()
+    ]);
+
+    if (!user) {
+      throw new AppError('Founder not found', 404);
+    }
+
+    const [metrics, previous] = await Promise.all([
+      FounderMetrics.findOne({ founderId, month }).lean(),
+      FounderMetrics.findOne({ founderId, month: shiftMonth(month, -1) }).lean()
+    ]);
+
+    if (!metrics) {
+      throw new AppError(`No metrics have been uploaded for ${month}, so there is nothing to report`, 404);
+    }
+
+    const deltas = REPORT_METRICS
+      .filter(({ field }) => typeof metrics[field] === 'number')
+      .map(({ field, label, unit }) => {
+        const current = metrics[field] as number;
+        const before = previous && typeof previous[field] === 'number' ? previous[field] as number : null;
+        const change = before === null ? null : Math.round((current - before) * 100) / 100;
+
+        return {
+          label,
+          unit,
+          current,
+          previous: before,
+          change,
+          changePercent: change !== null && before ? Math.round((change / Math.abs(before)) * 100) : null
+        };
+      });
+
+    return {
+      founder: {
+        name: user.name,
+        email: user.email,
+        companyName: founder?.companyName ?? null,
+        industry: founder?.industry ?? null
+      },
+      month,
+      metrics,
+      deltas,
+      posts: await this.getPublishedPosts(founderId, month),
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Render a monthly report as a PDF
+   * @param data Report contents
+   * @returns The PDF
+   */
+  static renderPdf(data: MonthlyReportData): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: 50,
+        bufferPages: true,
+        info: {
+          Title: `${data.founder.companyName || data.founder.name} – ${formatMonthLabel(data.month)} report`,
+          Author: BRAND_NAME
+        }
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const left = doc.page.margins.left;
+      const width = doc.page.width - left - doc.page.margins.right;
+
+      // Header band
+      doc.rect(0, 0, doc.page.width, 90).fill(BRAND_COLOR);
+      doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(22).text(BRAND_NAME, left, 30);
+      doc.font('Helvetica').fontSize(12).text('Monthly performance report', left, 58);
+
+      // Founder and month
+      doc.fillColor('#111827').font('Helvetica-Bold').fontSize(18)
+        .text(data.founder.companyName || data.founder.name, left, 120);
+      doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(11)
+        .text([data.founder.name, data.founder.industry].filter(Boolean).join(' · '))
+        .text(formatMonthLabel(data.month));
+
+      // Metrics with month-over-month change
+      doc.moveDown(1.5);
+      doc.fillColor('#111827').font('Helvetica-Bold').fontSize(14).text('Results', left);
+      doc.moveDown(0.5);
+
+      const columns = [
+        { title: 'Metric', x: left, width: width * 0.34 },
+        { title: 'This month', x: left + width * 0.34, width: width * 0.2 },
+        { title: 'Last month', x: left + width * 0.54, width: width * 0.2 },
+        { title: 'Change', x: left + width * 0.74, width: width * 0.26 }
+      ];
+
+      let y = doc.y;
+      doc.font('Helvetica-Bold').fontSize(10).fillColor(MUTED_COLOR);
+      columns.forEach(column => doc.text(column.title, column.x, y, { width: column.width }));
+      y += 18;
+      doc.moveTo(left, y - 4).lineTo(left + width, y - 4).strokeColor('#e5e7eb').stroke();
+
+      for (const delta of data.deltas) {
+        doc.font('Helvetica').fontSize(11).fillColor('#111827');
+        doc.text(delta.label, columns[0].x, y, { width: columns[0].width });
+        doc.text(formatValue(delta.current, delta.unit), columns[1].x, y, { width: columns[1].width });
+        doc.fillColor(MUTED_COLOR).text(formatValue(delta.previous, delta.unit), columns[2].x, y, { width: columns[2].width });
+        doc.fillColor(delta.change === null || delta.change === 0 ? MUTED_COLOR : delta.change > 0 ? POSITIVE_COLOR : NEGATIVE_COLOR)
+          .text(formatChange(delta), columns[3].x, y, { width: columns[3].width });
+        y += 22;
+      }
+
+      doc.x = left;
+      doc.y = y;
+
+      if (data.metrics.notes) {
+        doc.moveDown(0.5);
+        doc.fillColor(MUTED_COLOR).font('Helvetica-Oblique').fontSize(10).text(data.metrics.notes, left, doc.y, { width });
+      }
+
+      // Posts published in the month
+      doc.moveDown(1.5);
+      doc.fillColor('#111827').font('Helvetica-Bold').fontSize(14).text(`Published posts (${data.posts.length})`, left);
+      doc.moveDown(0.5);
+
+      if (data.posts.length === 0) {
+        doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(11).text('No posts were published this month.');
+      }
+
+      for (const post of data.posts) {
+        const date = post.publishedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+        const images = post.imageCount > 0 ? ` · ${post.imageCount} image${post.imageCount === 1 ? '' : 's'}` : '';
+        const caption = post.caption.length > 280 ? `${post.caption.slice(0, 277)}...` : post.caption;
+
+        doc.fillColor(MUTED_COLOR).font('Helvetica-Bold').fontSize(9).text(`${date}${images}`, left, doc.y, { width });
+        doc.fillColor('#111827').font('Helvetica').fontSize(10).text(caption, { width });
+        doc.moveDown(0.8);
+      }
+
+      // Footer on every page
+      const generated = data.generatedAt.toISOString().slice(0, 10);
+      const range = doc.bufferedPageRange();
+      for (let page = range.start; page < range.start + range.count; page++) {
+        doc.switchToPage(page);
+        const bottom = doc.page.height - doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+        doc.fillColor(MUTED_COLOR).font('Helvetica').fontSize(8)
+          .text(`Generated by ${BRAND_NAME} on ${generated} · Page ${page + 1} of ${range.count}`, left, bottom + 20, { width, align: 'center' });
+      }
+
+      doc.end();
+    });
+  }
+
+  /**
+   * Generate a founder's monthly report and store it like an uploaded report
+   * An existing report for the month gets the PDF as its new version
+   * @param founderId User ID of the founder
+   * @param month Month in YYYY-MM format
+   * @param generatedBy ID of the user who asked for the report, or null for the monthly job
+   * @param changeNote Optional note on why the report was regenerated
+   * @returns The stored report
+   */
+  static async generateReport(
+    founderId: string,
+    month: string,
+    generatedBy: string | null,
+    changeNote?: string
+  ): Promise<IReport> {
+    const data = await this.getReportData(founderId, month);
+    const pdf = await this.renderPdf(data);
+
+    return ReportService.saveGeneratedReport(pdf, founderId, month, generatedBy, changeNote);
+  }
+
+  /**
+   * Posts of a founder that went live in a month, oldest first
+   * @param founderId User ID of the founder
+   * @param month Month in YYYY-MM format
+   * @returns Caption, publication time and image count of each post
+   */
+  private static async getPublishedPosts(founderId: string, month: string): Promise<PublishedPostSummary[]> {
+    const { start, end } = getMonthRange(month);
+
+    const posts = await Post.find({
+      founderId,
+      status: 'posted',
+      $or: [
+        { statusHistory: { $elemMatch: { to: 'posted', changedAt: { $gte: start, $lt: end } } } },
+        // Posts from before the status history existed
+        { 'statusHistory.to': { $ne: 'posted' }, scheduledDate: { $gte: start, $lt: end } }
+      ]
+    })
+      .select('caption images scheduledDate statusHistory updatedAt')
+      .lean();
+
+    return posts
+      .map(post => {
+        const postedAt = [...post.statusHistory].reverse().find(change => change.to === 'posted')?.changedAt;
+
+        return {
+          caption: post.caption,
+          publishedAt: postedAt || post.scheduledDate || post.updatedAt,
+          imageCount: post.images.length
+        };
+      })
+      .sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  }
+}
@@ -1,11 +1,48 @@
-import { Report, IReport } from '../models/Report';
+import { Report, IReport, IReportVersion, ReportSource } from '../models/Report';
 import { Founder } from '../models/Founder';
-import { User } from '../models/User';
-import { S3Service } from './s3Service';
+import { UserRole } from '../models/User';
+import { StorageService } from './storageService';
+import { AssignmentService } from './assignmentService';
+import { ReportCommentService } from './reportCommentService';
+import { DashboardCacheService } from './dashboardCacheService';
 import AppError from '../utils/AppError';
 import mongoose from 'mongoose';
 import fs from 'fs';
-import path from 'path';
+import crypto from 'crypto';
+
+const MAX_CHANGE_NOTE_LENGTH = 500;
+
+// Details recorded with every stored version of a report
+interface ReportVersionDetails {
+  size: number;
+  checksum: string;
+  changeNote?: string | null;
+}
+
+// Version of a report with a signed download URL
+export interface ReportVersionView extends IReportVersion {
+  url: string;
+  current: boolean;
+}
+
+const getChecksum = (contents: Buffer): string => {
+  return crypto.createHash('sha256').update(contents).digest('hex');
+};
+
+// Reports stored before versioning have no history; their current file is version 1
+const getVersions = (report: IReport): IReportVersion[] => {
+  if (report.versions && report.versions.length > 0) {
+    return report.versions;
+  }
+
+  return [{
+    version: report.currentVersion || 1,
+    key: report.key,
+    source: report.source,
+    uploadedBy: report.uploadedBy,
+    uploadedAt: report.updatedAt || report.createdAt
+  }];
+};
 
 // Interface for enhanced report with founder details
 interface EnhancedReport extends IReport {
@@ -26,13 +63,15 @@ export class ReportService {
    * @param founderId ID of the founder
    * @param adminId ID of the admin uploading the report
    * @param month Month in YYYY-MM format
+   * @param changeNote Optional note on what changed since the previous version
    * @returns The created report object
    */
   static async uploadReport(
     file: Express.Multer.File,
     founderId: string,
     adminId: string,
-    month: string
+    month: string,
+    changeNote?: string
   ): Promise<IReport> {
     // Validate month format
     if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
@@ -45,38 +84,214 @@ export class ReportService {
       throw new AppError('Only PDF files are allowed for reports', 400);
     }
 
+    if (changeNote && changeNote.length > MAX_CHANGE_NOTE_LENGTH) {
+      fs.unlinkSync(file.path); // Delete the uploaded file
+      throw new AppError(`Change note cannot exceed ${MAX_CHANGE_NOTE_LENGTH} characters`, 400);
+    }
+
+    // Checksum before the upload, which removes the local file
+    const contents = await fs.promises.readFile(file.path);
+
+    // Upload the file to storage
+    const fileKey = await StorageService.uploadFile(file, StorageService.getReportFolder(founderId));
+
+    return this.saveReport(founderId, month, fileKey, 'upload', adminId, {
+      size: contents.length,
+      checksum: getChecksum(contents),
+      changeNote
+    });
+  }
+
+  /**
+   * Store a generated PDF as the report of a founder-month
+   * @param pdf Contents of the PDF
+   * @param founderId ID of the founder
+   * @param month Month in YYYY-MM format
+   * @param generatedBy ID of the user who asked for the report, or null for the monthly job
+   * @param changeNote Optional note on what changed since the previous version
+   * @returns The created report, or the report with the generated PDF as its new version
+   */
+  static async saveGeneratedReport(
+    pdf: Buffer,
+    founderId: string,
+    month: string,
+    generatedBy: string | null,
+    changeNote?: string
+  ): Promise<IReport> {
+    if (changeNote && changeNote.length > MAX_CHANGE_NOTE_LENGTH) {
+      throw new AppError(`Change note cannot exceed ${MAX_CHANGE_NOTE_LENGTH} characters`, 400);
+    }
+
+    const fileKey = await StorageService.uploadBuffer(
+      pdf,
+      StorageService.getReportFolder(founderId),
+      '.pdf',
+      'application/pdf'
+    );
+
+    return this.saveReport(founderId, month, fileKey, 'generated', generatedBy, {
+      size: pdf.length,
+      checksum: getChecksum(pdf),
+      changeNote
+    });
+  }
+
+  /**
+   * Store a file as the new current version of a founder-month report
+   * Earlier versions and their files are kept
+   * @param founderId ID of the founder
+   * @param month Month in YYYY-MM format
+   * @param fileKey Storage key of the PDF
+   * @param source Whether the PDF was uploaded or generated
+   * @param uploadedBy ID of the user responsible for the report, if any
+   * @param details Size, checksum and change note of the PDF
+   * @returns The created or updated report, without its version history
+   */
+  private static async saveReport(
+    founderId: string,
+    month: string,
+    fileKey: string,
+    source: ReportSource,
+    uploadedBy: string | null,
+    details: ReportVersionDetails
+  ): Promise<IReport> {
+    const version = {
+      key: fileKey,
+      source,
+      uploadedBy,
+      uploadedAt: new Date(),
+      size: details.size,
+      checksum: details.checksum,
+      changeNote: details.changeNote || null
+    };
+
     // Check if report already exists for this founder and month
-    const existingReport = await Report.findOne({ founderId, month });
-    
-    // If report exists, delete the old file from S3
-    if (existingReport) {
-      try {
-        await S3Service.deleteFile(existingReport.url);
-      } catch (error) {
-        console.error('Error deleting existing report:', error);
-        // Continue with upload even if delete fails
-      }
+    const existingReport = await Report.findOne({ founderId, month }).select('+versions');
+
+    if (!existingReport) {
+      const report = await Report.create({
+        founderId,
+        month,
+        key: fileKey,
+        source,
+        uploadedBy,
+        uploadedAt: version.uploadedAt,
+        currentVersion: 1,
+        versions: [{ ...version, version: 1 }]
+      });
+
+      await DashboardCacheService.invalidateFounder(founderId);
+      return report;
     }
 
-    // Generate folder path for the report
-    const folder = S3Service.getReportFolder(founderId);
-    
-    // Upload the file to S3
-    const fileUrl = await S3Service.uploadFile(file, folder);
-
-    // Create or update the report record
-    const report = existingReport 
-      ? await Report.findByIdAndUpdate(
-          existingReport._id,
-          { url: fileUrl, uploadedBy: adminId },
-          { new: true }
-        )
-      : await Report.create({
-          founderId,
-          month,
-          url: fileUrl,
-          uploadedBy: adminId
-        });
+    const versions = getVersions(existingReport);
+    const next = Math.max(...versions.map(entry => entry.version)) + 1;
+
+    existingReport.set('versions', [...versions, { ...version, version: next }]);
+    this.applyVersion(existingReport, existingReport.versions[existingReport.versions.length - 1]);
+    await existingReport.save();
+    await DashboardCacheService.invalidateFounder(founderId);
+
+    return this.getCurrentReport(existingReport.id);
+  }
+
+  /**
+   * Get the version history of a report, newest first
+   * @param reportId ID of the report
+   * @returns Versions with signed download URLs
+   */
+  static async getReportVersions(reportId: string): Promise<ReportVersionView[]> {
+    const report = await this.getReportWithVersions(reportId);
+    await report.populate([
+      { path: 'versions.uploadedBy', select: 'name email' },
+      { path: 'uploadedBy', select: 'name email' }
+    ]);
+
+    const versions = [...getVersions(report)].sort((a, b) => b.version - a.version);
+
+    return Promise.all(versions.map(async entry => {
+      const plain = typeof (entry as any).toObject === 'function' ? (entry as any).toObject() : entry;
+
+      return {
+        ...plain,
+        url: await StorageService.getSignedUrl(entry.key),
+        current: entry.version === report.currentVersion
+      };
+    }));
+  }
+
+  /**
+   * Make an earlier version the one shown for a report
+   * @param reportId ID of the report
+   * @param version Number of the version to show
+   * @returns The report, without its version history
+   */
+  static async restoreReportVersion(reportId: string, version: number): Promise<IReport> {
+    const report = await this.getReportWithVersions(reportId);
+    const entry = getVersions(report).find(candidate => candidate.version === version);
+
+    if (!entry) {
+      throw new AppError('Report version not found', 404);
+    }
+    if (entry.version === report.currentVersion) {
+      throw new AppError(`Version ${version} is already the current version`, 400);
+    }
+
+    this.applyVersion(report, entry);
+    await report.save();
+    await DashboardCacheService.invalidateFounder(report.founderId.toString());
+
+    return this.getCurrentReport(report.id);
+  }
+
+  /**
+   * Permanently delete a version of a report and its file
+   * The current version cannot be purged; restore another one first
+   * @param reportId ID of the report
+   * @param version Number of the version to delete
+   * @returns The purged version
+   */
+  static async purgeReportVersion(reportId: string, version: number): Promise<IReportVersion> {
+    const report = await this.getReportWithVersions(reportId);
+    const versions = getVersions(report);
+    const entry = versions.find(candidate => candidate.version === version);
+
+    if (!entry) {
+      throw new AppError('Report version not found', 404);
+    }
+    if (entry.version === report.currentVersion) {
+      throw new AppError('The current version cannot be purged. Restore another version first.', 400);
+    }
+
+    try {
+      await StorageService.deleteFile(entry.key);
+    } catch (error) {
+      console.error('Error deleting report version from storage:', error);
+      // Continue with the purge even if the storage delete fails
+    }
+
+    report.set('versions', versions.filter(candidate => candidate.version !== version));
+    await report.save();
+
+    return entry;
+  }
+
+  private static async getReportWithVersions(reportId: string): Promise<IReport> {
+    if (!mongoose.Types.ObjectId.isValid(reportId)) {
+      throw new AppError('Invalid report ID', 400);
+    }
+
+    const report = await Report.findById(reportId).select('+versions');
+
+    if (!report) {
+      throw new AppError('Report not found', 404);
+    }
+
+    return report;
+  }
+
+  private static async getCurrentReport(reportId: string): Promise<IReport> {
+    const report = await Report.findById(reportId);
 
     if (!report) {
       throw new AppError('Failed to create or update report', 500);
@@ -85,6 +300,127 @@ export class ReportService {
     return report;
   }
 
+  // Show a version as the report; the top-level fields always mirror the current version
+  // The founder has not seen the newly shown PDF, so its read receipt and acknowledgement start over
+  private static applyVersion(report: IReport, version: IReportVersion): void {
+    report.key = version.key;
+    report.source = version.source;
+    report.uploadedBy = version.uploadedBy ?? null;
+    report.uploadedAt = version.uploadedAt;
+    report.currentVersion = version.version;
+    report.viewedAt = null;
+    report.acknowledgedAt = null;
+  }
+
+  /**
+   * Get a report the user may see
+   * @param reportId ID of the report
+   * @param userId ID of the requesting user
+   * @param userRole Role of the requesting user
+   * @returns The report
+   */
+  static async getAccessibleReport(reportId: string, userId: string, userRole: UserRole): Promise<IReport> {
+    if (!mongoose.Types.ObjectId.isValid(reportId)) {
+      throw new AppError('Invalid report ID', 400);
+    }
+
+    const report = await Report.findById(reportId);
+
+    if (!report) {
+      throw new AppError('Report not found', 404);
+    }
+
+    const founderId = report.founderId.toString();
+    const canView = userRole === 'super-admin'
+      || (userRole === 'founder' && founderId === userId)
+      || (userRole === 'admin' && await AssignmentService.isAdminAssignedToFounder(userId, founderId));
+
+    if (!canView) {
+      throw new AppError('You are not authorized to access this report', 403);
+    }
+
+    return report;
+  }
+
+  /**
+   * Record that the founder opened a report; only the first view is kept
+   * @param report The report being opened by its founder
+   * @returns The report with its read receipt
+   */
+  static async recordView(report: IReport): Promise<IReport> {
+    if (report.viewedAt) {
+      return report;
+    }
+
+    const viewedAt = new Date();
+
+    // Only set it if no other request got there first
+    await Report.updateOne({ _id: report._id, viewedAt: null }, { $set: { viewedAt } });
+    report.viewedAt = viewedAt;
+
+    return report;
+  }
+
+  /**
+   * Record that the founder read a report and has no open questions left
+   * @param report The report being acknowledged by its founder
+   * @returns Whether this call acknowledged the report; false if it already was
+   */
+  static async acknowledgeReport(report: IReport): Promise<boolean> {
+    if (report.acknowledgedAt) {
+      return false;
+    }
+
+    const now = new Date();
+    const result = await Report.updateOne(
+      { _id: report._id, acknowledgedAt: null },
+      { $set: { acknowledgedAt: now, viewedAt: report.viewedAt || now } }
+    );
+
+    report.acknowledgedAt = now;
+    report.viewedAt = report.viewedAt || now;
+
+    if (result.modifiedCount > 0) {
+      await DashboardCacheService.invalidateFounder(report.founderId.toString());
+    }
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Admins to tell about a founder's activity on a report
+   * @param report The report
+   * @returns The admin who uploaded the report, or every admin assigned to the founder for job-generated reports
+   */
+  static async getReportAdminIds(report: IReport): Promise<string[]> {
+    if (report.uploadedBy) {
+      return [report.uploadedBy.toString()];
+    }
+
+    try {
+      const admins = await AssignmentService.getAssignedAdmins(report.founderId.toString());
+      return admins.map(admin => admin.adminId.toString());
+    } catch (error) {
+      // No founder profile means nobody is assigned
+      return [];
+    }
+  }
+
+  /**
+   * Prepare a report for a response by adding a signed download URL
+   * Only call once the requester's access to the report has been checked
+   * @param report Report document or plain object
+   * @returns Plain report object with a short-lived url
+   */
+  static async withSignedUrl<T extends { key: string }>(report: T): Promise<T & { url: string }> {
+    const plain = typeof (report as any).toObject === 'function' ? (report as any).toObject() : report;
+
+    return {
+      ...plain,
+      url: await StorageService.getSignedUrl(plain.key)
+    };
+  }
+
   /**
    * Get all reports for a specific founder
    * @param founderId ID of the founder
@@ -147,7 +483,7 @@ export class ReportService {
    * @returns Enhanced reports with founder details
    */
   private static async enhanceReportsWithFounderDetails(reports: any[]): Promise<EnhancedReport[]> {
-    // Extract founder IDs from reports - either from founderId field or from URL
+    // Extract founder IDs from reports - either from founderId field or from the storage key
     const founderIdsMap = new Map<string, string>(); // Map of reportId -> founderId
     
     reports.forEach(report => {
@@ -155,11 +491,11 @@ export class ReportService {
       if (report.founderId) {
         const founderId = typeof report.founderId === 'object' ? report.founderId.toString() : report.founderId;
         founderIdsMap.set(report._id.toString(), founderId);
-      } else if (report.url) {
-        // If founderId is null, try to extract it from the URL
-        // URL format: https://blowlin-test-bucket.s3.us-east-1.amazonaws.com/reports/founders/{founderId}/filename.pdf
+      } else if (report.key) {
+        // If founderId is null, try to extract it from the key
+        // Key format: reports/founders/{founderId}/filename.pdf
         try {
-          const urlParts = report.url.split('/');
+          const urlParts = report.key.split('/');
           const founderIdIndex = urlParts.indexOf('founders') + 1;
           
           if (founderIdIndex > 0 && founderIdIndex < urlParts.length) {
@@ -169,7 +505,7 @@ export class ReportService {
             }
           }
         } catch (error) {
-          console.error(`Error extracting founderId from URL for report ${report._id}:`, error);
+          console.error(`Error extracting founderId from key for report ${report._id}:`, error);
         }
       }
     });
@@ -265,7 +601,7 @@ export class ReportService {
    * @returns Success message
    */
   /**
-   * Fix reports with null founderId by extracting the founderId from the URL
+   * Fix reports with null founderId by extracting the founderId from the storage key
    */
   /**
    * Fix a specific report that we know has a null founderId
@@ -296,10 +632,10 @@ export class ReportService {
     
     for (const report of reportsWithNullFounderId) {
       try {
-        console.log(`Processing report ${report._id} with URL: ${report.url}`);
-        // Try to extract founderId from the URL
-        // URL format: https://blowlin-test-bucket.s3.us-east-1.amazonaws.com/reports/founders/{founderId}/filename.pdf
-        const urlParts = report.url.split('/');
+        console.log(`Processing report ${report._id} with key: ${report.key}`);
+        // Try to extract founderId from the key
+        // Key format: reports/founders/{founderId}/filename.pdf
+        const urlParts = report.key.split('/');
         console.log('URL parts:', urlParts);
         const founderIdIndex = urlParts.indexOf('founders') + 1;
         console.log(`Founder ID index: ${founderIdIndex}`);
@@ -309,14 +645,14 @@ export class ReportService {
           console.log(`Extracted founderId: ${founderId}`);
           
           if (founderId && mongoose.Types.ObjectId.isValid(founderId)) {
-            console.log(`Fixing report ${report._id} with founderId ${founderId} extracted from URL`);
+            console.log(`Fixing report ${report._id} with founderId ${founderId} extracted from key`);
             const result = await Report.findByIdAndUpdate(report._id, { founderId });
             console.log('Update result:', result);
           } else {
             console.log(`Invalid founderId: ${founderId}`);
           }
         } else {
-          console.log('Could not find founders in URL path');
+          console.log('Could not find founders in key path');
         }
       } catch (error) {
         console.error(`Error fixing report ${report._id}:`, error);
@@ -325,22 +661,27 @@ export class ReportService {
   }
   
   static async deleteReport(reportId: string): Promise<{ message: string }> {
-    const report = await Report.findById(reportId);
+    const report = await Report.findById(reportId).select('+versions');
     
     if (!report) {
       throw new AppError('Report not found', 404);
     }
 
-    // Delete file from S3
-    try {
-      await S3Service.deleteFile(report.url);
-    } catch (error) {
-      console.error('Error deleting report file from S3:', error);
-      // Continue with deletion even if S3 delete fails
+    // Delete the files of every version from storage
+    const keys = new Set([report.key, ...getVersions(report).map(version => version.key)]);
+    for (const key of keys) {
+      try {
+        await StorageService.deleteFile(key);
+      } catch (error) {
+        console.error('Error deleting report file from storage:', error);
+        // Continue with deletion even if the storage delete fails
+      }
     }
 
-    // Delete report record
+    // Delete report record and its discussion
     await Report.findByIdAndDelete(reportId);
+    await ReportCommentService.deleteReportComments(reportId);
+    await DashboardCacheService.invalidateFounder(report.founderId.toString());
     
     return { message: 'Report deleted successfully' };
   }
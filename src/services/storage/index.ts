@@ -0,0 +1,43 @@
+import { config } from '../../config/config';
+import { StorageDriver, StorageDriverName } from './types';
+import { S3StorageDriver } from './s3Driver';
+import { LocalStorageDriver } from './localDriver';
+import { MemoryStorageDriver } from './memoryDriver';
+
+export { StorageDriver, StorageDriverName } from './types';
+export { S3StorageDriver } from './s3Driver';
+export { LocalStorageDriver } from './localDriver';
+export { MemoryStorageDriver } from './memoryDriver';
+
+export const createStorageDriver = (name: StorageDriverName): StorageDriver => {
+  switch (name) {
+    case 's3':
+      return new S3StorageDriver();
+    case 'local':
+      return new LocalStorageDriver();
+    case 'memory':
+      return new MemoryStorageDriver();
+    default:
+      throw new Error(`Unknown storage driver: ${name}`);
+  }
+};
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Driver selected by config.storage.driver, created on first use
+ */
+export const getStorageDriver = (): StorageDriver => {
+  if (!driver) {
+    driver = createStorageDriver(config.storage.driver);
+  }
+  return driver;
+};
+
+/**
+ * Swap the active driver, e.g. for a MemoryStorageDriver in tests
+ * @param next Driver to use from now on
+ */
+export const setStorageDriver = (next: StorageDriver): void => {
+  driver = next;
+};
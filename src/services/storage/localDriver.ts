@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../../config/config';
+import { StorageDriver } from './types';
+
+/**
+ * Stores objects on disk under config.storage.localDir
+ * Files are only served through HMAC-signed /uploads URLs, see uploadController.downloadUpload
+ */
+export class LocalStorageDriver implements StorageDriver {
+  /**
+   * Resolve a key to a path inside the storage directory
+   * @param key Object key
+   * @returns Absolute file path
+   */
+  resolve(key: string): string {
+    const root = path.resolve(config.storage.localDir);
+    const file = path.resolve(root, key);
+
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return file;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  getUrl(key: string): string {
+    return `${config.storage.publicUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return `${this.getUrl(key)}?expires=${expires}&signature=${this.sign(key, expires)}`;
+  }
+
+  /**
+   * Check a signature produced by getSignedUrl
+   * @param key Object key
+   * @param expires Expiry from the URL, in seconds since the epoch
+   * @param signature Signature from the URL
+   * @returns Whether the signature matches and has not expired
+   */
+  verifySignature(key: string, expires: number, signature: string): boolean {
+    if (!Number.isInteger(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const actual = Buffer.from(signature);
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    const [urlPath] = url.split('?');
+    const prefix = `${config.storage.publicUrl}/`;
+
+    if (!urlPath.startsWith(prefix) || urlPath.length === prefix.length) {
+      return null;
+    }
+
+    return decodeURIComponent(urlPath.substring(prefix.length));
+  }
+
+  private sign(key: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', config.storage.signingSecret)
+      .update(`${key}:${expires}`)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,38 @@
+import { StorageDriver } from './types';
+
+const URL_PREFIX = 'memory://';
+
+/**
+ * Keeps objects in process memory; for tests and throwaway local runs
+ */
+export class MemoryStorageDriver implements StorageDriver {
+  readonly objects = new Map<string, { body: Buffer; contentType: string }>();
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    this.objects.set(key, { body, contentType });
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    return this.objects.get(key)?.body || null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  getUrl(key: string): string {
+    return `${URL_PREFIX}${key}`;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    return `${this.getUrl(key)}?expires=${expires}`;
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    const [path] = url.split('?');
+    return path.startsWith(URL_PREFIX) && path.length > URL_PREFIX.length
+      ? path.substring(URL_PREFIX.length)
+      : null;
+  }
+}
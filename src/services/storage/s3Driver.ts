@@ -0,0 +1,77 @@
+import { DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { config } from '../../config/config';
+import { s3Client } from '../../config/aws';
+import { StorageDriver } from './types';
+
+export class S3StorageDriver implements StorageDriver {
+  private get host(): string {
+    return `${config.aws.bucketName}.s3.${config.aws.region}.amazonaws.com`;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    // Multipart upload handles large files transparently
+    const upload = new Upload({
+      client: s3Client,
+      params: {
+        Bucket: config.aws.bucketName,
+        Key: key,
+        Body: body,
+        ContentType: contentType
+      }
+    });
+
+    await upload.done();
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const result = await s3Client.send(new GetObjectCommand({
+        Bucket: config.aws.bucketName,
+        Key: key
+      }));
+
+      return result.Body ? Buffer.from(await result.Body.transformToByteArray()) : null;
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await s3Client.send(new DeleteObjectCommand({
+      Bucket: config.aws.bucketName,
+      Key: key
+    }));
+  }
+
+  getUrl(key: string): string {
+    return `https://${this.host}/${key}`;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(
+      s3Client,
+      new GetObjectCommand({ Bucket: config.aws.bucketName, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+
+    if (parsed.host !== this.host || parsed.pathname.length <= 1) {
+      return null;
+    }
+
+    return decodeURIComponent(parsed.pathname.substring(1));
+  }
+}
@@ -0,0 +1,44 @@
+export type StorageDriverName = 's3' | 'local' | 'memory';
+
+export interface StorageDriver {
+  /**
+   * Store an object, replacing any existing object under the same key
+   * @param key Object key, e.g. 'reports/founders/123/abc.pdf'
+   * @param body Object contents
+   * @param contentType MIME type of the contents
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Read an object
+   * @param key Object key
+   * @returns Object contents, or null if there is no such object
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  /**
+   * Delete an object; deleting a missing object is not an error
+   * @param key Object key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Unsigned URL of an object; objects are private, so this only identifies it
+   * @param key Object key
+   */
+  getUrl(key: string): string;
+
+  /**
+   * Short-lived URL that grants read access to an object
+   * @param key Object key
+   * @param expiresInSeconds How long the URL stays valid
+   */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+
+  /**
+   * Reverse of getUrl and getSignedUrl; any query string is ignored
+   * @param url URL previously returned by this driver
+   * @returns Object key, or null if the URL does not belong to this driver
+   */
+  getKeyFromUrl(url: string): string | null;
+}
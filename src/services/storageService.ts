@@ -0,0 +1,192 @@
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/config';
+import AppError from '../utils/AppError';
+import logger from '../utils/logger';
+import { parseDuration } from '../utils/timeUtils';
+import { getStorageDriver } from './storage';
+
+const isUrl = (value: string): boolean => /^[a-z][a-z0-9+.-]*:\/\//i.test(value);
+
+// Key of a stored reference, or null for URLs of some other host
+const resolveKey = (value: string): string | null => {
+  return isUrl(value) ? getStorageDriver().getKeyFromUrl(value) : value;
+};
+
+export class StorageService {
+  /**
+   * Upload a file to storage
+   * Objects are private: persist the returned key and hand out getSignedUrl links
+   * @param file File object from multer
+   * @param folder Folder path in storage (e.g., 'images/founders/123')
+   * @returns Key of the uploaded file
+   */
+  static async uploadFile(file: Express.Multer.File, folder: string): Promise<string> {
+    try {
+      // Generate a unique file name
+      const fileExtension = path.extname(file.originalname);
+      const fileName = `${uuidv4()}${fileExtension}`;
+      const key = `${folder}/${fileName}`;
+
+      await getStorageDriver().put(key, await fs.promises.readFile(file.path), file.mimetype);
+
+      // Delete the local file after successful upload
+      fs.unlinkSync(file.path);
+
+      return key;
+    } catch (error) {
+      console.error('Error uploading file to storage:', error);
+      throw new AppError('Failed to upload file', 500);
+    }
+  }
+
+  /**
+   * Upload generated content to storage
+   * @param body File contents
+   * @param folder Folder path in storage (e.g., 'reports/founders/123')
+   * @param extension File extension including the dot (e.g., '.pdf')
+   * @param contentType MIME type of the contents
+   * @returns Key of the uploaded file
+   */
+  static async uploadBuffer(body: Buffer, folder: string, extension: string, contentType: string): Promise<string> {
+    const key = `${folder}/${uuidv4()}${extension}`;
+
+    try {
+      await getStorageDriver().put(key, body, contentType);
+      return key;
+    } catch (error) {
+      console.error('Error uploading file to storage:', error);
+      throw new AppError('Failed to upload file', 500);
+    }
+  }
+
+  /**
+   * Upload multiple files to storage
+   * @param files Array of file objects from multer
+   * @param folder Folder path in storage (e.g., 'images/founders/123')
+   * @returns Array of keys of the uploaded files
+   */
+  static async uploadMultipleFiles(files: Express.Multer.File[], folder: string): Promise<string[]> {
+    try {
+      // Upload each file and collect the promises
+      const uploadPromises = files.map(file => this.uploadFile(file, folder));
+
+      // Wait for all uploads to complete
+      return await Promise.all(uploadPromises);
+    } catch (error) {
+      console.error('Error uploading multiple files to storage:', error);
+      throw new AppError('Failed to upload files', 500);
+    }
+  }
+
+  /**
+   * Normalise a stored reference to a storage key
+   * Accepts keys, and URLs of the active driver (legacy records, or signed URLs sent back by clients)
+   * @param value Key or URL
+   * @returns The key, or the value unchanged if it is a URL of some other host
+   */
+  static toKey(value: string): string {
+    return resolveKey(value) || value;
+  }
+
+  /**
+   * Mint a short-lived download URL
+   * Call only after the caller's access to the owning record has been checked
+   * @param value Key, or legacy URL, of the file
+   * @returns Signed URL; URLs that do not belong to the active driver are returned unchanged
+   */
+  static async getSignedUrl(value: string): Promise<string> {
+    const key = resolveKey(value);
+    if (!key) {
+      return value;
+    }
+
+    const expiresInSeconds = Math.floor(parseDuration(config.storage.signedUrlExpiresIn) / 1000);
+    return getStorageDriver().getSignedUrl(key, expiresInSeconds);
+  }
+
+  /**
+   * Mint short-lived download URLs for several files
+   * @param values Keys, or legacy URLs, of the files
+   * @returns Signed URLs in the same order
+   */
+  static async getSignedUrls(values: string[]): Promise<string[]> {
+    return Promise.all(values.map(value => this.getSignedUrl(value)));
+  }
+
+  /**
+   * Delete a file from storage
+   * URLs that do not belong to the active driver (e.g. S3 files after switching to local) are skipped
+   * @param value Key, or legacy URL, of the file to delete
+   */
+  static async deleteFile(value: string): Promise<void> {
+    const key = resolveKey(value);
+    if (!key) {
+      logger.warn(`Not deleting ${value}: it does not belong to the configured storage`);
+      return;
+    }
+
+    try {
+      await getStorageDriver().delete(key);
+    } catch (error) {
+      console.error('Error deleting file from storage:', error);
+      throw new AppError('Failed to delete file', 500);
+    }
+  }
+
+  /**
+   * Generate a folder path for a specific founder's images
+   * @param founderId ID of the founder
+   * @param adminId ID of the admin uploading the image
+   * @returns Folder path in storage
+   */
+  static getFounderImageFolder(founderId: string, adminId: string): string {
+    return `images/founders/${founderId}/admin-${adminId}`;
+  }
+  
+  /**
+   * Make sure images only point at files in a founder's image folder
+   * Stops a post from pointing at another founder's images or at a report, which
+   * would otherwise be handed out as a signed URL. Images the post already has and
+   * external URLs are always allowed.
+   * @param founderId User ID of the post's founder
+   * @param images Images the post is about to use, as keys
+   * @param currentImages Images the post uses now
+   */
+  static assertFounderImageKeys(founderId: string, images: string[], currentImages: string[] = []): void {
+    const prefix = `images/founders/${founderId}/`;
+    const foreign = images.filter(image => !isUrl(image)
+      && !currentImages.includes(image)
+      && (!image.startsWith(prefix) || image.split(/[/\\]/).includes('..')));
+
+    if (foreign.length > 0) {
+      throw new AppError(`Images must be uploaded for this founder: ${foreign.join(', ')}`, 400);
+    }
+  }
+
+  /**
+   * Generate a folder path for a specific post's images
+   * @param founderId ID of the founder
+   * @param adminId ID of the admin uploading the image
+   * @param postId ID of the post (optional, for draft uploads)
+   * @returns Folder path in storage
+   */
+  static getPostImageFolder(founderId: string, adminId: string, postId?: string): string {
+    if (postId) {
+      return `images/founders/${founderId}/admin-${adminId}/posts/${postId}`;
+    }
+    return `images/founders/${founderId}/admin-${adminId}/drafts`;
+  }
+
+  /**
+   * Generate a folder path for reports
+   * @param founderId ID of the founder (optional)
+   * @returns Folder path in storage
+   */
+  static getReportFolder(founderId?: string): string {
+    return founderId 
+      ? `reports/founders/${founderId}` 
+      : 'reports';
+  }
+}
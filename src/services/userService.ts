@@ -2,8 +2,9 @@ import { User, IUser } from '../models/User';
 import { Admin, IAdmin } from '../models/Admin';
 import { Founder, IFounder } from '../models/Founder';
 import { TokenBlacklist } from '../models/TokenBlacklist';
-import { RefreshToken, IRefreshToken } from '../models/RefreshToken';
+import { RefreshToken } from '../models/RefreshToken';
 import { EmailService } from './emailService';
+import { DashboardCacheService } from './dashboardCacheService';
 import AppError from '../utils/AppError';
 import { RegisterFounderData, RegisterAdminData } from '../types/auth';
 import { DurationType } from '../types/common';
@@ -13,8 +14,6 @@ import crypto from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
 import { config } from '../config/config';
 
-type StringValue = `${number}${string}`;
-
 type FounderResult = {
   user: IUser;
   founder: IFounder;
@@ -65,6 +64,7 @@ export class UserService {
       }], { session });
 
       await session.commitTransaction();
+      await DashboardCacheService.invalidatePlatform();
       return { user: user[0], founder: founder[0] };
     } catch (error) {
       await session.abortTransaction();
@@ -97,6 +97,7 @@ export class UserService {
       }], { session });
 
       await session.commitTransaction();
+      await DashboardCacheService.invalidatePlatform();
       return { user: user[0], admin: admin[0] };
     } catch (error) {
       await session.abortTransaction();
@@ -308,8 +309,8 @@ export class UserService {
       .update(welcomeToken)
       .digest('hex');
     
-    // Set expiration to 24 hours (longer than the regular password reset)
-    user.resetPasswordExpires = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    // Welcome links live longer than the regular password reset
+    user.resetPasswordExpires = new Date(Date.now() + parseDuration(config.passwordReset.welcomeExpiresIn));
     
     // Set verified to false until they set their password
     user.verified = false;
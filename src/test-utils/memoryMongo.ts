@@ -0,0 +1,105 @@
+import mongoose from 'mongoose';
+import { Aggregator, Query } from 'mingo';
+import 'mingo/init/system';
+
+export interface RecordedQuery {
+  collection: string;
+  op: string;
+}
+
+/**
+ * In-memory stand-in for MongoDB in tests
+ * Query and Aggregate execution is intercepted and evaluated with mingo against
+ * seeded documents, and every round trip is recorded so tests can count them.
+ * Only reads are supported.
+ */
+export class MemoryMongo {
+  readonly queries: RecordedQuery[] = [];
+  private readonly collections = new Map<string, any[]>();
+  private spies: jest.SpyInstance[] = [];
+
+  /**
+   * Start intercepting mongoose queries and aggregations
+   */
+  install(): void {
+    const runQuery = (query: any) => this.runQuery(query);
+    const runAggregate = (aggregate: any) => this.runAggregate(aggregate);
+
+    this.spies = [
+      jest.spyOn(mongoose.Query.prototype, 'exec').mockImplementation(async function(this: any) {
+        return runQuery(this);
+      }),
+      jest.spyOn(mongoose.Aggregate.prototype, 'exec').mockImplementation(async function(this: any) {
+        return runAggregate(this);
+      })
+    ];
+  }
+
+  /**
+   * Stop intercepting and forget all documents and recorded queries
+   */
+  restore(): void {
+    this.spies.forEach(spy => spy.mockRestore());
+    this.spies = [];
+    this.reset();
+  }
+
+  /**
+   * Forget all documents and recorded queries
+   */
+  reset(): void {
+    this.collections.clear();
+    this.queries.length = 0;
+  }
+
+  /**
+   * Add documents to the collection of a model
+   * @param model Mongoose model
+   * @param docs Plain documents; an _id is added when missing
+   */
+  seed(model: mongoose.Model<any>, docs: Record<string, any>[]): void {
+    const name = model.collection.collectionName;
+    const collection = this.collections.get(name) || [];
+    collection.push(...docs.map(doc => ({ _id: new mongoose.Types.ObjectId(), ...doc })));
+    this.collections.set(name, collection);
+  }
+
+  private documents(model: mongoose.Model<any>): any[] {
+    return this.collections.get(model.collection.collectionName) || [];
+  }
+
+  private record(model: mongoose.Model<any>, op: string): void {
+    this.queries.push({ collection: model.collection.collectionName, op });
+  }
+
+  private async runQuery(query: any): Promise<any> {
+    const model: mongoose.Model<any> = query.model;
+    this.record(model, query.op);
+
+    const projection = query._fields && Object.keys(query._fields).length > 0 ? query._fields : undefined;
+    let cursor = new Query(query.getFilter()).find(this.documents(model), projection);
+    const options = query.getOptions();
+    if (options.sort) cursor = cursor.sort(options.sort);
+    if (options.skip) cursor = cursor.skip(options.skip);
+    if (options.limit) cursor = cursor.limit(options.limit);
+    const results = cursor.all();
+
+    switch (query.op) {
+      case 'countDocuments':
+        return results.length;
+      case 'findOne':
+        return results[0] ?? null;
+      case 'find':
+        return results;
+      default:
+        throw new Error(`MemoryMongo does not support ${query.op}`);
+    }
+  }
+
+  private async runAggregate(aggregate: any): Promise<any[]> {
+    const model: mongoose.Model<any> = aggregate._model;
+    this.record(model, 'aggregate');
+
+    return new Aggregator(aggregate.pipeline()).run(this.documents(model));
+  }
+}
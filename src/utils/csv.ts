@@ -0,0 +1,82 @@
+/**
+ * Parse CSV text into rows of fields (RFC 4180)
+ * Handles quoted fields with commas, escaped quotes and line breaks, CRLF line
+ * endings and a leading byte order mark. Blank lines come back as a row with
+ * one empty field, so row positions match the lines of the file.
+ * @param text CSV text
+ * @returns Rows of raw field values
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Format one CSV line (RFC 4180), without the line break
+ * Text that a spreadsheet would run as a formula is prefixed with a quote
+ * @param values Field values; null and undefined become empty fields
+ * @returns The CSV line
+ */
+export const toCsvRow = (values: unknown[]): string => {
+  return values.map(value => {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',');
+};
@@ -0,0 +1,103 @@
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  // When the event last changed
+  updatedAt?: Date;
+}
+
+/**
+ * Escape text for an iCalendar property value (RFC 5545 3.3.11)
+ * @param text Raw text
+ * @returns Escaped text
+ */
+export const escapeIcalText = (text: string): string => {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+};
+
+/**
+ * Format an instant as an iCalendar UTC date-time, e.g. 20250614T093000Z
+ * @param date Instant to format
+ * @returns The date-time value
+ */
+export const formatIcalDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 3.1)
+ * Continuation lines start with a space; multi-byte characters are never split
+ * @param line Unfolded content line
+ * @returns The folded line, joined with CRLF
+ */
+const foldLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // The first line holds 75 octets, continuation lines 74 after the leading space
+    const limit = lines.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+};
+
+/**
+ * Build an iCalendar (.ics) document with one VEVENT per event
+ * @param name Name calendar apps show for the feed
+ * @param events Events of the calendar
+ * @param generatedAt Time stamp of the document
+ * @returns The calendar text, with CRLF line endings
+ */
+export const buildIcalCalendar = (name: string, events: CalendarEvent[], generatedAt: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Blowlin//Content Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcalText(name)}`
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatIcalDate(generatedAt)}`,
+      `DTSTART:${formatIcalDate(event.start)}`,
+      `DTEND:${formatIcalDate(event.end)}`,
+      `SUMMARY:${escapeIcalText(event.summary)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeIcalText(event.description)}`);
+    }
+    if (event.status) {
+      lines.push(`STATUS:${event.status}`);
+    }
+    if (event.updatedAt) {
+      lines.push(`LAST-MODIFIED:${formatIcalDate(event.updatedAt)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
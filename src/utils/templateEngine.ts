@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Minimal mustache-style template engine
+ *
+ * {{ value }}              escaped value, dot paths allowed (user.name)
+ * {{{ value }}}            raw value, only for trusted HTML
+ * {{> partial }}           include partials/<partial>.html
+ * {{#if value}}...{{/if}}  also {{#unless}}; empty arrays count as false
+ * {{#each list}}...{{/each}}  {{ this }} is the current item, its fields resolve directly
+ */
+
+export type TemplateData = Record<string, any>;
+
+// 'html' escapes {{ value }} output; 'text' is for plain text such as email subjects
+export type RenderMode = 'html' | 'text';
+
+type Node =
+  | { kind: 'text'; value: string }
+  | { kind: 'value'; path: string; raw: boolean }
+  | { kind: 'partial'; name: string }
+  | { kind: 'block'; helper: BlockHelper; path: string; children: Node[] };
+
+type BlockHelper = 'if' | 'unless' | 'each';
+
+const TAG = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*\/(if|unless|each)\s*\}\}|\{\{\s*(#if|#unless|#each|>)?\s*([\w.-]+)\s*\}\}/g;
+
+export const escapeHtml = (value: unknown): string => {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const parse = (source: string): Node[] => {
+  const root: Node[] = [];
+  const stack: { helper: BlockHelper | null; children: Node[] }[] = [{ helper: null, children: root }];
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const current = stack[stack.length - 1];
+
+    if (match.index! > lastIndex) {
+      current.children.push({ kind: 'text', value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index! + match[0].length;
+
+    const [, rawPath, closing, sigil, name] = match;
+
+    if (closing) {
+      if (current.helper !== closing) {
+        throw new Error(`Unexpected {{/${closing}}} in template`);
+      }
+      stack.pop();
+    } else if (rawPath) {
+      current.children.push({ kind: 'value', path: rawPath, raw: true });
+    } else if (!sigil) {
+      current.children.push({ kind: 'value', path: name, raw: false });
+    } else if (sigil === '>') {
+      current.children.push({ kind: 'partial', name });
+    } else {
+      const block: Node = { kind: 'block', helper: sigil.slice(1) as BlockHelper, path: name, children: [] };
+      current.children.push(block);
+      stack.push({ helper: block.helper, children: block.children });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed {{#${stack[stack.length - 1].helper}}} in template`);
+  }
+
+  if (lastIndex < source.length) {
+    root.push({ kind: 'text', value: source.slice(lastIndex) });
+  }
+
+  return root;
+};
+
+// Resolve a dot path against the innermost scope that defines its first segment
+const lookup = (valuePath: string, scopes: any[]): any => {
+  if (valuePath === 'this') {
+    return scopes[scopes.length - 1];
+  }
+
+  const [head, ...rest] = valuePath.split('.');
+  const scope = [...scopes].reverse().find(s => s !== null && typeof s === 'object' && head in s);
+  if (!scope) {
+    return undefined;
+  }
+
+  return rest.reduce((value, key) => (value == null ? undefined : value[key]), scope[head]);
+};
+
+const isTruthy = (value: any): boolean => {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+};
+
+export class TemplateEngine {
+  private cache = new Map<string, Node[]>();
+
+  /**
+   * @param root Directory holding the templates, with partials in root/partials
+   * @param useCache Keep compiled templates in memory; turn off to pick up edits without a restart
+   */
+  constructor(private root: string, private useCache = true) {}
+
+  /**
+   * Render a template file
+   * @param name Template path relative to the root, without the .html extension
+   * @param data Values available to the template
+   * @returns Rendered output
+   */
+  render(name: string, data: TemplateData): string {
+    return this.renderNodes(this.load(name), [data]);
+  }
+
+  /**
+   * Render a template string
+   * @param source Template source
+   * @param data Values available to the template
+   * @param mode 'text' leaves values unescaped; never use it for HTML
+   * @returns Rendered output
+   */
+  renderString(source: string, data: TemplateData, mode: RenderMode = 'html'): string {
+    return this.renderNodes(parse(source), [data], mode);
+  }
+
+  private resolve(name: string): string {
+    const file = path.resolve(this.root, `${name}.html`);
+
+    // Names come from code, but never let one escape the template directory
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid template name: ${name}`);
+    }
+
+    return file;
+  }
+
+  private load(name: string): Node[] {
+    const file = this.resolve(name);
+
+    const cached = this.useCache ? this.cache.get(file) : undefined;
+    if (cached) {
+      return cached;
+    }
+
+    const nodes = parse(fs.readFileSync(file, 'utf8'));
+    if (this.useCache) {
+      this.cache.set(file, nodes);
+    }
+
+    return nodes;
+  }
+
+  private renderNodes(nodes: Node[], scopes: any[], mode: RenderMode = 'html'): string {
+    return nodes.map(node => {
+      switch (node.kind) {
+        case 'text':
+          return node.value;
+        case 'value': {
+          const value = lookup(node.path, scopes);
+          return node.raw || mode === 'text' ? String(value ?? '') : escapeHtml(value);
+        }
+        case 'partial':
+          return this.renderNodes(this.load(`partials/${node.name}`), scopes, mode);
+        case 'block': {
+          const value = lookup(node.path, scopes);
+
+          if (node.helper === 'each') {
+            return Array.isArray(value)
+              ? value.map(item => this.renderNodes(node.children, [...scopes, item], mode)).join('')
+              : '';
+          }
+
+          const show = node.helper === 'if' ? isTruthy(value) : !isTruthy(value);
+          return show ? this.renderNodes(node.children, scopes, mode) : '';
+        }
+      }
+    }).join('');
+  }
+}
+
+/**
+ * Build a plain-text alternative of an HTML email
+ * Links keep their target, paragraphs and list items become lines
+ * @param html Rendered HTML
+ * @returns Plain text
+ */
+export const htmlToText = (html: string): string => {
+  return html
+    .replace(/<(style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+      const text = label.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+      return text && text !== href ? `${text}: ${href}` : href;
+    })
+    .replace(/<br\s*\/?>\s*/gi, '\n')
+    .replace(/<hr[^>]*>/gi, '\n----\n')
+    .replace(/<li[^>]*>\s*/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|blockquote|ul|ol|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,63 @@
+export type DiffPartType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffPartType;
+  value: string;
+}
+
+// Split text into words, each keeping its trailing whitespace,
+// so joining the parts of a diff reproduces the original text
+const tokenize = (text: string): string[] => {
+  return text.match(/\s+|\S+\s*/g) || [];
+};
+
+/**
+ * Word-level diff of two texts based on the longest common subsequence
+ * @param oldText Previous text
+ * @param newText New text
+ * @returns Consecutive equal, removed and added parts
+ */
+export function diffWords(oldText: string, newText: string): DiffPart[] {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  // lcs[i][j] is the length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPartType, value: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ type, value });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i]);
+      i++;
+    } else {
+      push('added', b[j]);
+      j++;
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
@@ -0,0 +1,171 @@
+import {
+  formatMonthInTimeZone,
+  getDaysLeftInMonth,
+  getPreviousDateRange,
+  getZonedDayStart,
+  getZonedMonthStart,
+  listMonths,
+  resolveDateRange,
+  shiftMonth
+} from './timeUtils';
+
+describe('listMonths', () => {
+  it('lists every month between two months, both included', () => {
+    expect(listMonths('2024-11', '2025-02')).toEqual(['2024-11', '2024-12', '2025-01', '2025-02']);
+  });
+
+  it('lists a single month when both ends are equal', () => {
+    expect(listMonths('2025-06', '2025-06')).toEqual(['2025-06']);
+  });
+
+  it('is empty when from is after to', () => {
+    expect(listMonths('2025-06', '2025-05')).toEqual([]);
+  });
+});
+
+describe('shiftMonth', () => {
+  it('moves across year boundaries', () => {
+    expect(shiftMonth('2025-01', -1)).toBe('2024-12');
+    expect(shiftMonth('2024-12', 13)).toBe('2026-01');
+  });
+});
+
+describe('month boundaries in a time zone', () => {
+  it('is still the last month at 23:30 on its last day in a zone behind UTC', () => {
+    // 2025-01-31 23:30 in New York is already February in UTC
+    const now = new Date('2025-02-01T04:30:00Z');
+
+    expect(formatMonthInTimeZone(now, 'America/New_York')).toBe('2025-01');
+    expect(formatMonthInTimeZone(now, 'UTC')).toBe('2025-02');
+    expect(getDaysLeftInMonth('2025-01', 'America/New_York', now)).toBe(0);
+
+    const range = resolveDateRange({ tz: 'America/New_York' }, 1, now);
+    expect(range.from).toBe('2025-01');
+    expect(range.to).toBe('2025-01');
+    expect(range.start.toISOString()).toBe('2025-01-01T05:00:00.000Z');
+    expect(range.end.toISOString()).toBe('2025-02-01T05:00:00.000Z');
+  });
+
+  it('is still the last month at 23:30 on its last day in a zone ahead of UTC', () => {
+    // 2025-01-31 23:30 in Tokyo is 14:30 UTC the same day
+    const now = new Date('2025-01-31T14:30:00Z');
+
+    expect(formatMonthInTimeZone(now, 'Asia/Tokyo')).toBe('2025-01');
+    expect(getDaysLeftInMonth('2025-01', 'Asia/Tokyo', now)).toBe(0);
+
+    const range = resolveDateRange({ tz: 'Asia/Tokyo' }, 1, now);
+    expect(range.from).toBe('2025-01');
+    expect(range.start.toISOString()).toBe('2024-12-31T15:00:00.000Z');
+    expect(range.end.toISOString()).toBe('2025-01-31T15:00:00.000Z');
+  });
+
+  it('is the next month half an hour later in a zone ahead of UTC', () => {
+    // 2025-02-01 00:30 in Berlin is still January in UTC
+    const now = new Date('2025-01-31T23:30:00Z');
+
+    expect(formatMonthInTimeZone(now, 'Europe/Berlin')).toBe('2025-02');
+    expect(formatMonthInTimeZone(now, 'UTC')).toBe('2025-01');
+    expect(resolveDateRange({ tz: 'Europe/Berlin' }, 1, now).to).toBe('2025-02');
+  });
+
+  it('follows daylight saving changes in March and November', () => {
+    // New York is UTC-5 in winter and UTC-4 in summer; DST starts 2025-03-09 and ends 2025-11-02
+    expect(getZonedMonthStart('2025-03', 'America/New_York').toISOString()).toBe('2025-03-01T05:00:00.000Z');
+    expect(getZonedMonthStart('2025-04', 'America/New_York').toISOString()).toBe('2025-04-01T04:00:00.000Z');
+    expect(getZonedMonthStart('2025-11', 'America/New_York').toISOString()).toBe('2025-11-01T04:00:00.000Z');
+    expect(getZonedMonthStart('2025-12', 'America/New_York').toISOString()).toBe('2025-12-01T05:00:00.000Z');
+
+    expect(getZonedDayStart('2025-03-09', 'America/New_York').toISOString()).toBe('2025-03-09T05:00:00.000Z');
+    expect(getZonedDayStart('2025-03-10', 'America/New_York').toISOString()).toBe('2025-03-10T04:00:00.000Z');
+    expect(getZonedDayStart('2025-11-02', 'America/New_York').toISOString()).toBe('2025-11-02T04:00:00.000Z');
+    expect(getZonedDayStart('2025-11-03', 'America/New_York').toISOString()).toBe('2025-11-03T05:00:00.000Z');
+
+    const march = resolveDateRange({ from: '2025-03', to: '2025-03', tz: 'America/New_York' }, 1);
+    expect(march.end.getTime() - march.start.getTime()).toBe((31 * 24 - 1) * 60 * 60 * 1000);
+
+    const november = resolveDateRange({ from: '2025-11', to: '2025-11', tz: 'America/New_York' }, 1);
+    expect(november.end.getTime() - november.start.getTime()).toBe((30 * 24 + 1) * 60 * 60 * 1000);
+  });
+});
+
+describe('resolveDateRange', () => {
+  const now = new Date('2025-06-15T12:00:00Z');
+
+  it('defaults to the last 12 months up to the current month', () => {
+    const range = resolveDateRange({}, 12, now);
+
+    expect(range.from).toBe('2024-07');
+    expect(range.to).toBe('2025-06');
+    expect(range.granularity).toBe('month');
+    expect(range.timeZone).toBe('UTC');
+    expect(range.months).toHaveLength(12);
+    expect(range.periods.map(period => period.label)).toEqual(listMonths('2024-07', '2025-06'));
+    expect(range.referenceMonth).toBe('2025-06');
+    expect(range.start.toISOString()).toBe('2024-07-01T00:00:00.000Z');
+    expect(range.end.toISOString()).toBe('2025-07-01T00:00:00.000Z');
+  });
+
+  it('widens from and to to whole quarters', () => {
+    const range = resolveDateRange({ from: '2025-02', to: '2025-05', granularity: 'quarter' }, 4, now);
+
+    expect(range.from).toBe('2025-01');
+    expect(range.to).toBe('2025-06');
+    expect(range.periods).toEqual([
+      { label: '2025-Q1', months: ['2025-01', '2025-02', '2025-03'] },
+      { label: '2025-Q2', months: ['2025-04', '2025-05', '2025-06'] }
+    ]);
+  });
+
+  it('widens from and to to whole years', () => {
+    const range = resolveDateRange({ from: '2024-03', to: '2025-02', granularity: 'year' }, 3, now);
+
+    expect(range.from).toBe('2024-01');
+    expect(range.to).toBe('2025-12');
+    expect(range.months).toHaveLength(24);
+    expect(range.periods.map(period => period.label)).toEqual(['2024', '2025']);
+    // The range reaches into the future, so the current month is the reference
+    expect(range.referenceMonth).toBe('2025-06');
+  });
+
+  it('counts default periods in the granularity', () => {
+    const range = resolveDateRange({ granularity: 'quarter' }, 4, now);
+
+    expect(range.from).toBe('2024-07');
+    expect(range.to).toBe('2025-06');
+    expect(range.periods.map(period => period.label)).toEqual(['2024-Q3', '2024-Q4', '2025-Q1', '2025-Q2']);
+  });
+
+  it('ends a range with only a from after the current period with that period', () => {
+    const range = resolveDateRange({ from: '2025-09' }, 12, now);
+
+    expect(range.from).toBe('2025-09');
+    expect(range.to).toBe('2025-09');
+    expect(range.referenceMonth).toBe('2025-09');
+  });
+});
+
+describe('getPreviousDateRange', () => {
+  const now = new Date('2025-06-15T12:00:00Z');
+
+  it('is the quarter before a one-quarter range', () => {
+    const range = resolveDateRange({ from: '2025-04', to: '2025-06', granularity: 'quarter' }, 1, now);
+    const previous = getPreviousDateRange(range, now);
+
+    expect(previous.from).toBe('2025-01');
+    expect(previous.to).toBe('2025-03');
+    expect(previous.granularity).toBe('quarter');
+    expect(previous.periods).toEqual([{ label: '2025-Q1', months: ['2025-01', '2025-02', '2025-03'] }]);
+    expect(previous.referenceMonth).toBe('2025-03');
+  });
+
+  it('has the same length as a multi-quarter range and keeps its time zone', () => {
+    const range = resolveDateRange({ from: '2025-01', to: '2025-06', granularity: 'quarter', tz: 'Europe/Berlin' }, 2, now);
+    const previous = getPreviousDateRange(range, now);
+
+    expect(previous.from).toBe('2024-07');
+    expect(previous.to).toBe('2024-12');
+    expect(previous.periods.map(period => period.label)).toEqual(['2024-Q3', '2024-Q4']);
+    expect(previous.timeZone).toBe('Europe/Berlin');
+    expect(previous.end.toISOString()).toBe(range.start.toISOString());
+  });
+});
@@ -18,4 +18,255 @@ export function parseDuration(duration: DurationType): number {
   }
   
   return result;
-}
\ No newline at end of file
+}
+
+export function formatDuration(duration: DurationType): string {
+  // Human readable form for user-facing copy, e.g. '1h' -> '1 hour'
+  return ms(parseDuration(duration), { long: true });
+}
+
+export function formatMonth(date: Date): string {
+  // Calendar month of a date in UTC, as YYYY-MM
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+export function shiftMonth(month: string, offset: number): string {
+  // Move a YYYY-MM month by a number of months, e.g. ('2025-01', -1) -> '2024-12'
+  const [year, monthIndex] = month.split('-').map(Number);
+  return formatMonth(new Date(Date.UTC(year, monthIndex - 1 + offset, 1)));
+}
+
+export function getMonthRange(month: string): { start: Date; end: Date } {
+  // UTC bounds of a YYYY-MM month; end is exclusive
+  const [year, monthIndex] = month.split('-').map(Number);
+  return {
+    start: new Date(Date.UTC(year, monthIndex - 1, 1)),
+    end: new Date(Date.UTC(year, monthIndex, 1))
+  };
+}
+
+export function getQuarter(month: string): { label: string; months: string[] } {
+  // Calendar quarter of a YYYY-MM month, e.g. '2025-05' -> 2025-Q2 with months 2025-04 to 2025-06
+  const [year, monthIndex] = month.split('-').map(Number);
+  const quarter = Math.floor((monthIndex - 1) / 3);
+  const first = `${year}-${String(quarter * 3 + 1).padStart(2, '0')}`;
+  return {
+    label: `${year}-Q${quarter + 1}`,
+    months: [0, 1, 2].map(offset => shiftMonth(first, offset))
+  };
+}
+
+export const GRANULARITIES = ['month', 'quarter', 'year'] as const;
+export type Granularity = typeof GRANULARITIES[number];
+
+const MONTHS_PER_PERIOD: Record<Granularity, number> = {
+  month: 1,
+  quarter: 3,
+  year: 12
+};
+
+// Longest range the dashboards accept, in months
+export const MAX_RANGE_MONTHS = 120;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  // IANA names such as 'Europe/Berlin', as understood by Intl
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getZonedParts(date: Date, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)!.value);
+
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+export function formatMonthInTimeZone(date: Date, timeZone: string): string {
+  // Calendar month of a date on the wall clock of a time zone, as YYYY-MM
+  const { year, month } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  // Milliseconds the time zone is ahead of UTC at an instant
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+export function formatDayInTimeZone(date: Date, timeZone: string): string {
+  // Calendar day of a date on the wall clock of a time zone, as YYYY-MM-DD
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function shiftDay(day: string, offset: number): string {
+  // Move a YYYY-MM-DD day by a number of days, e.g. ('2025-03-01', -1) -> '2025-02-28'
+  const [year, monthIndex, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, date + offset)).toISOString().substring(0, 10);
+}
+
+export function getZonedDayStart(day: string, timeZone: string): Date {
+  // Instant a YYYY-MM-DD day begins in a time zone; the second pass settles DST changes
+  const [year, monthIndex, date] = day.split('-').map(Number);
+  const wallClock = Date.UTC(year, monthIndex - 1, date);
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+export function getZonedMonthStart(month: string, timeZone: string): Date {
+  // Instant a YYYY-MM month begins in a time zone
+  return getZonedDayStart(`${month}-01`, timeZone);
+}
+
+export function getDaysLeftInMonth(month: string, timeZone: string, now: Date = new Date()): number {
+  // Whole days left in a YYYY-MM month after today in a time zone; 0 once the month is over
+  const current = formatMonthInTimeZone(now, timeZone);
+  if (month < current) {
+    return 0;
+  }
+
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return month === current ? lastDay - getZonedParts(now, timeZone).day : lastDay;
+}
+
+export function listMonths(from: string, to: string): string[] {
+  // Every YYYY-MM month from one month to another, both included
+  const months: string[] = [];
+  for (let month = from; month <= to; month = shiftMonth(month, 1)) {
+    months.push(month);
+  }
+  return months;
+}
+
+export function getPeriodStart(month: string, granularity: Granularity): string {
+  // First month of the month, quarter or year a YYYY-MM month falls in
+  const [year, monthIndex] = month.split('-').map(Number);
+  const size = MONTHS_PER_PERIOD[granularity];
+  const first = Math.floor((monthIndex - 1) / size) * size + 1;
+  return `${year}-${String(first).padStart(2, '0')}`;
+}
+
+export function getPeriodLabel(month: string, granularity: Granularity): string {
+  // Label of the period a YYYY-MM month falls in: 2025-05, 2025-Q2 or 2025
+  switch (granularity) {
+    case 'quarter':
+      return getQuarter(month).label;
+    case 'year':
+      return month.substring(0, 4);
+    default:
+      return month;
+  }
+}
+
+export interface DateRangeOptions {
+  from?: string;
+  to?: string;
+  granularity?: Granularity;
+  tz?: string;
+}
+
+export function pickDateRangeOptions(query: Record<string, unknown>): DateRangeOptions {
+  // Date range query parameters of a validated request
+  const text = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+  return {
+    from: text(query.from),
+    to: text(query.to),
+    granularity: text(query.granularity) as Granularity | undefined,
+    tz: text(query.tz)
+  };
+}
+
+export interface DatePeriod {
+  label: string;
+  months: string[];
+}
+
+export interface DateRange {
+  // First and last month, widened to whole periods
+  from: string;
+  to: string;
+  granularity: Granularity;
+  timeZone: string;
+  months: string[];
+  periods: DatePeriod[];
+  // Latest month of the range that has begun, e.g. the current month of a range reaching into the future
+  referenceMonth: string;
+  // Instants the range begins and ends in its time zone; end is exclusive
+  start: Date;
+  end: Date;
+}
+
+function buildDateRange(from: string, to: string, granularity: Granularity, timeZone: string, now: Date): DateRange {
+  const months = listMonths(from, to);
+  const currentMonth = formatMonthInTimeZone(now, timeZone);
+
+  const periods: DatePeriod[] = [];
+  for (const month of months) {
+    const label = getPeriodLabel(month, granularity);
+    const last = periods[periods.length - 1];
+    if (last && last.label === label) {
+      last.months.push(month);
+    } else {
+      periods.push({ label, months: [month] });
+    }
+  }
+
+  return {
+    from,
+    to,
+    granularity,
+    timeZone,
+    months,
+    periods,
+    referenceMonth: to <= currentMonth ? to : from <= currentMonth ? currentMonth : from,
+    start: getZonedMonthStart(from, timeZone),
+    end: getZonedMonthStart(shiftMonth(to, 1), timeZone)
+  };
+}
+
+export function resolveDateRange(options: DateRangeOptions, defaultPeriods: number, now: Date = new Date()): DateRange {
+  // Range of whole periods for dashboard query parameters
+  // Without 'to' the range ends with the current period in the time zone; without 'from' it spans defaultPeriods periods
+  const granularity = options.granularity || 'month';
+  const timeZone = options.tz || 'UTC';
+  const size = MONTHS_PER_PERIOD[granularity];
+
+  const toStart = getPeriodStart(options.to || formatMonthInTimeZone(now, timeZone), granularity);
+  const from = options.from
+    ? getPeriodStart(options.from, granularity)
+    : shiftMonth(toStart, -(defaultPeriods - 1) * size);
+  const to = shiftMonth(from > toStart ? from : toStart, size - 1);
+
+  return buildDateRange(from, to, granularity, timeZone, now);
+}
+
+export function getPreviousDateRange(range: DateRange, now: Date = new Date()): DateRange {
+  // Range of the same length right before a range, to compare against
+  const length = range.months.length;
+  return buildDateRange(
+    shiftMonth(range.from, -length),
+    shiftMonth(range.to, -length),
+    range.granularity,
+    range.timeZone,
+    now
+  );
+}
+
+export function describeDateRange(range: DateRange): string {
+  // Stable text form of a range, e.g. for cache keys
+  return `${range.from}:${range.to}:${range.granularity}:${range.timeZone}`;
+}
@@ -0,0 +1,9 @@
+import { query } from 'express-validator';
+
+// Validation for the unacknowledged reports widget
+export const unacknowledgedReportsValidation = [
+  query('olderThanDays')
+    .optional()
+    .isInt({ min: 0, max: 365 })
+    .withMessage('olderThanDays must be a number between 0 and 365')
+];
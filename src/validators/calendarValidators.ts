@@ -0,0 +1,58 @@
+import { query, param } from 'express-validator';
+import { POST_STATUSES } from '../models/Post';
+import { MAX_CALENDAR_DAYS } from '../services/calendarService';
+import { isValidTimeZone, shiftDay } from '../utils/timeUtils';
+
+const DAY_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+// Validation for the content calendar
+export const getCalendarValidation = [
+  query('from')
+    .optional()
+    .matches(DAY_PATTERN)
+    .withMessage('from must be in format YYYY-MM-DD'),
+
+  query('to')
+    .optional()
+    .matches(DAY_PATTERN)
+    .withMessage('to must be in format YYYY-MM-DD')
+    .custom((to, { req }) => {
+      const from = req.query?.from;
+      if (typeof from === 'string' && DAY_PATTERN.test(from)) {
+        if (from > to) {
+          throw new Error('from must not be after to');
+        }
+        if (shiftDay(from, MAX_CALENDAR_DAYS - 1) < to) {
+          throw new Error(`The calendar cannot span more than ${MAX_CALENDAR_DAYS} days`);
+        }
+      }
+      return true;
+    }),
+
+  query('founderId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid founder ID format'),
+
+  query('adminId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid admin ID format'),
+
+  query('status')
+    .optional()
+    .isIn(POST_STATUSES)
+    .withMessage('Invalid status value'),
+
+  query('tz')
+    .optional()
+    .custom(value => typeof value === 'string' && isValidTimeZone(value))
+    .withMessage('tz must be an IANA time zone, e.g. Europe/Berlin')
+];
+
+// Validation for routes under /founders/:founderId/calendar-feed
+export const calendarFeedTokenValidation = [
+  param('founderId')
+    .isMongoId()
+    .withMessage('Invalid founder ID format')
+];
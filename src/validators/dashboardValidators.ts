@@ -0,0 +1,46 @@
+import { query } from 'express-validator';
+import { GRANULARITIES, MAX_RANGE_MONTHS, formatMonth, isValidTimeZone, listMonths } from '../utils/timeUtils';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Validation for the date range of the super admin and admin dashboards
+export const dashboardRangeValidation = [
+  query('from')
+    .optional()
+    .matches(MONTH_PATTERN)
+    .withMessage('from must be in format YYYY-MM')
+    .custom((from, { req }) => {
+      // Without 'to' the range runs up to the current month
+      if (req.query?.to === undefined && listMonths(from, formatMonth(new Date())).length > MAX_RANGE_MONTHS) {
+        throw new Error(`A date range cannot span more than ${MAX_RANGE_MONTHS} months`);
+      }
+      return true;
+    }),
+
+  query('to')
+    .optional()
+    .matches(MONTH_PATTERN)
+    .withMessage('to must be in format YYYY-MM')
+    .custom((to, { req }) => {
+      const from = req.query?.from;
+      if (typeof from === 'string' && MONTH_PATTERN.test(from)) {
+        if (from > to) {
+          throw new Error('from must not be after to');
+        }
+        if (listMonths(from, to).length > MAX_RANGE_MONTHS) {
+          throw new Error(`A date range cannot span more than ${MAX_RANGE_MONTHS} months`);
+        }
+      }
+      return true;
+    }),
+
+  query('granularity')
+    .optional()
+    .isIn(GRANULARITIES)
+    .withMessage(`granularity must be one of: ${GRANULARITIES.join(', ')}`),
+
+  query('tz')
+    .optional()
+    .custom(value => typeof value === 'string' && isValidTimeZone(value))
+    .withMessage('tz must be an IANA time zone, e.g. Europe/Berlin')
+];
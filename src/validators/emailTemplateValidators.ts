@@ -0,0 +1,13 @@
+import { param, query } from 'express-validator';
+import { EMAIL_TEMPLATES } from '../services/emailService';
+
+export const previewEmailTemplateValidation = [
+  param('name')
+    .isIn(Object.keys(EMAIL_TEMPLATES))
+    .withMessage(`Template must be one of ${Object.keys(EMAIL_TEMPLATES).join(', ')}`),
+
+  query('format')
+    .optional()
+    .isIn(['json', 'html', 'text'])
+    .withMessage('Format must be json, html or text')
+];
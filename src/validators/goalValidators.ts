@@ -0,0 +1,111 @@
+import { body, query, param } from 'express-validator';
+import { GOAL_METRICS, GOAL_PERIODS } from '../models/FounderGoal';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const founderIdParam = param('founderId')
+  .isMongoId()
+  .withMessage('Invalid founder ID format');
+
+const goalIdParam = param('goalId')
+  .isMongoId()
+  .withMessage('Invalid goal ID format');
+
+const endMonthRule = body('endMonth')
+  .optional({ values: 'null' })
+  .matches(MONTH_PATTERN)
+  .withMessage('End month must be in YYYY-MM format');
+
+const notesRule = body('notes')
+  .optional()
+  .isString()
+  .withMessage('Notes must be a string')
+  .trim()
+  .isLength({ max: 500 })
+  .withMessage('Notes cannot exceed 500 characters');
+
+// Engagement rate is a percentage; every other target is a count
+const isValidTarget = (metric: string, value: unknown): boolean => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    return false;
+  }
+  return metric !== 'engagementRate' || value <= 100;
+};
+
+// Validation for listing the goals of a founder
+export const getGoalsValidation = [
+  founderIdParam,
+
+  query('month')
+    .optional()
+    .matches(MONTH_PATTERN)
+    .withMessage('Month must be in YYYY-MM format')
+];
+
+// Validation for setting targets
+export const setGoalsValidation = [
+  founderIdParam,
+
+  body('period')
+    .isIn(GOAL_PERIODS)
+    .withMessage(`Period must be one of: ${GOAL_PERIODS.join(', ')}`),
+
+  body('startMonth')
+    .matches(MONTH_PATTERN)
+    .withMessage('Start month must be in YYYY-MM format'),
+
+  endMonthRule,
+
+  body('targets')
+    .isObject()
+    .withMessage('Targets must be an object of metric names and target values')
+    .custom((targets: Record<string, unknown>) => {
+      const metrics = Object.keys(targets);
+      if (metrics.length === 0) {
+        throw new Error('At least one target is required');
+      }
+      for (const metric of metrics) {
+        if (!GOAL_METRICS.includes(metric as any)) {
+          throw new Error(`Unknown metric ${metric}. Use one of: ${GOAL_METRICS.join(', ')}`);
+        }
+        if (!isValidTarget(metric, targets[metric])) {
+          throw new Error(`Target for ${metric} must be a non-negative number${metric === 'engagementRate' ? ' up to 100' : ''}`);
+        }
+      }
+      return true;
+    }),
+
+  notesRule
+];
+
+// Validation for changing a goal
+export const updateGoalValidation = [
+  founderIdParam,
+  goalIdParam,
+
+  body('target')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Target must be a non-negative number')
+    .toFloat(),
+
+  endMonthRule,
+
+  notesRule
+];
+
+// Validation for routes that act on a single goal
+export const goalIdValidation = [
+  founderIdParam,
+  goalIdParam
+];
+
+// Validation for a founder's progress towards their goals
+export const goalProgressValidation = [
+  founderIdParam,
+
+  query('month')
+    .optional()
+    .matches(MONTH_PATTERN)
+    .withMessage('Month must be in YYYY-MM format')
+];
@@ -0,0 +1,40 @@
+import { query, param } from 'express-validator';
+
+// Validation for browsing a founder's media library
+export const getFounderMediaValidation = [
+  param('founderId')
+    .isMongoId()
+    .withMessage('Invalid founder ID format'),
+
+  query('search')
+    .optional()
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('Search cannot exceed 200 characters'),
+
+  query('unused')
+    .optional()
+    .isBoolean()
+    .withMessage('Unused must be true or false'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be a number between 1 and 100'),
+
+  query('offset')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Offset must be a non-negative number')
+];
+
+// Validation for getting a single media asset
+export const getMediaAssetValidation = [
+  param('founderId')
+    .isMongoId()
+    .withMessage('Invalid founder ID format'),
+
+  param('assetId')
+    .isMongoId()
+    .withMessage('Invalid media asset ID format')
+];
@@ -0,0 +1,105 @@
+import { body, param, query } from 'express-validator';
+import { METRICS_EXPORT_FORMATS } from '../services/metricsExportService';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Validation for uploading metrics of a founder
+export const uploadMetricsValidation = [
+  param('founderId')
+    .isMongoId()
+    .withMessage('Invalid founder ID format'),
+
+  body('month')
+    .notEmpty()
+    .withMessage('Month is required')
+    .matches(MONTH_PATTERN)
+    .withMessage('Month must be in format YYYY-MM'),
+
+  body('totalPosts')
+    .notEmpty()
+    .withMessage('Total posts is required')
+    .isInt({ min: 0 })
+    .withMessage('Total posts must be a non-negative whole number'),
+
+  body('totalImpressions')
+    .notEmpty()
+    .withMessage('Total impressions is required')
+    .isInt({ min: 0 })
+    .withMessage('Total impressions must be a non-negative whole number'),
+
+  body('totalCommentOutreach')
+    .notEmpty()
+    .withMessage('Total comment outreach is required')
+    .isInt({ min: 0 })
+    .withMessage('Total comment outreach must be a non-negative whole number'),
+
+  body('engagementRate')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Engagement rate must be a percentage between 0 and 100'),
+
+  body('comments')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Comments must be a non-negative whole number'),
+
+  body('reactions')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Reactions must be a non-negative whole number'),
+
+  body('followerGrowth')
+    .optional()
+    .isInt()
+    .withMessage('Follower growth must be a whole number'),
+
+  body('notes')
+    .optional()
+    .isString()
+    .withMessage('Notes must be a string')
+    .isLength({ max: 2000 })
+    .withMessage('Notes cannot exceed 2000 characters'),
+
+  body('confirm')
+    .optional()
+    .isBoolean()
+    .withMessage('confirm must be true or false')
+];
+
+// Validation for importing metrics from a file
+export const importMetricsValidation = [
+  query('dryRun')
+    .optional()
+    .isBoolean()
+    .withMessage('dryRun must be true or false'),
+
+  query('confirm')
+    .optional()
+    .isBoolean()
+    .withMessage('confirm must be true or false')
+];
+
+// Validation for exporting metrics
+export const exportMetricsValidation = [
+  query('format')
+    .optional()
+    .isIn(METRICS_EXPORT_FORMATS)
+    .withMessage(`Format must be one of: ${METRICS_EXPORT_FORMATS.join(', ')}`),
+
+  query('from')
+    .optional()
+    .matches(MONTH_PATTERN)
+    .withMessage('From must be in format YYYY-MM'),
+
+  query('to')
+    .optional()
+    .matches(MONTH_PATTERN)
+    .withMessage('To must be in format YYYY-MM')
+    .custom((to, { req }) => !req.query?.from || req.query.from <= to)
+    .withMessage('To cannot be before from'),
+
+  query('founderId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid founder ID format')
+];
@@ -0,0 +1,112 @@
+import { body, query, param } from 'express-validator';
+import { NOTE_VISIBILITIES } from '../models/Notes';
+
+const founderIdParam = param('founderId')
+  .isMongoId()
+  .withMessage('Invalid founder ID format');
+
+const noteIdParam = param('noteId')
+  .isMongoId()
+  .withMessage('Invalid note ID format');
+
+const contentRules = (field: ReturnType<typeof body>) => field
+  .isString()
+  .withMessage('Note content must be a string')
+  .trim()
+  .isLength({ min: 1, max: 5000 })
+  .withMessage('Note must be between 1 and 5000 characters');
+
+const tagRules = [
+  body('tags')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Tags must be an array of at most 20 tags'),
+
+  body('tags.*')
+    .isString()
+    .withMessage('Each tag must be a string')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Each tag must be between 1 and 50 characters')
+];
+
+const visibilityRule = body('visibility')
+  .optional()
+  .isIn(NOTE_VISIBILITIES)
+  .withMessage(`Visibility must be one of: ${NOTE_VISIBILITIES.join(', ')}`);
+
+// Validation for listing and searching the notes of a founder
+export const getNotesValidation = [
+  founderIdParam,
+
+  query('search')
+    .optional()
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('Search cannot exceed 200 characters'),
+
+  query('tag')
+    .optional()
+    .isString()
+    .isLength({ max: 50 })
+    .withMessage('Tag cannot exceed 50 characters'),
+
+  query('pinned')
+    .optional()
+    .isBoolean()
+    .withMessage('Pinned must be true or false'),
+
+  query('visibility')
+    .optional()
+    .isIn(NOTE_VISIBILITIES)
+    .withMessage(`Visibility must be one of: ${NOTE_VISIBILITIES.join(', ')}`),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be a number between 1 and 100'),
+
+  query('offset')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Offset must be a non-negative number')
+];
+
+// Validation for adding a note
+export const createNoteValidation = [
+  founderIdParam,
+
+  contentRules(body('content').notEmpty().withMessage('Note content is required')),
+
+  ...tagRules,
+
+  body('pinned')
+    .optional()
+    .isBoolean()
+    .withMessage('Pinned must be true or false'),
+
+  visibilityRule
+];
+
+// Validation for editing a note
+export const updateNoteValidation = [
+  founderIdParam,
+  noteIdParam,
+
+  contentRules(body('content').optional()),
+
+  ...tagRules,
+
+  visibilityRule
+];
+
+// Validation for routes that act on the notes of a founder
+export const founderNotesValidation = [
+  founderIdParam
+];
+
+// Validation for routes that act on a single note
+export const noteIdValidation = [
+  founderIdParam,
+  noteIdParam
+];
@@ -0,0 +1,54 @@
+import { body, query, param } from 'express-validator';
+import { NOTIFICATION_TYPES } from '../models/Notification';
+import { EMAIL_DELIVERY_OPTIONS } from '../models/NotificationPreference';
+
+// Validation for listing notifications
+export const getNotificationsValidation = [
+  query('unread')
+    .optional()
+    .isBoolean()
+    .withMessage('Unread must be true or false'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be a number between 1 and 100'),
+
+  query('offset')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Offset must be a non-negative number')
+];
+
+// Validation for marking a notification as read
+export const markAsReadValidation = [
+  param('notificationId')
+    .isMongoId()
+    .withMessage('Invalid notification ID format')
+];
+
+// Validation for updating notification preferences
+export const updatePreferencesValidation = [
+  body('mutedTypes')
+    .optional()
+    .isArray()
+    .withMessage('Muted types must be an array'),
+
+  body('mutedTypes.*')
+    .isIn(NOTIFICATION_TYPES)
+    .withMessage(`Each muted type must be one of ${NOTIFICATION_TYPES.join(', ')}`),
+
+  body('emailDelivery')
+    .optional()
+    .isIn(EMAIL_DELIVERY_OPTIONS)
+    .withMessage(`Email delivery must be one of ${EMAIL_DELIVERY_OPTIONS.join(', ')}`),
+
+  body('emailMutedTypes')
+    .optional()
+    .isArray()
+    .withMessage('Muted email types must be an array'),
+
+  body('emailMutedTypes.*')
+    .isIn(NOTIFICATION_TYPES)
+    .withMessage(`Each muted email type must be one of ${NOTIFICATION_TYPES.join(', ')}`)
+];
@@ -0,0 +1,68 @@
+import { body, query, param } from 'express-validator';
+
+// Validation for listing comments of a post
+export const getPostCommentsValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid post ID format'),
+
+  query('resolved')
+    .optional()
+    .isBoolean()
+    .withMessage('Resolved must be true or false')
+];
+
+// Validation for adding a comment to a post
+export const addPostCommentValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid post ID format'),
+
+  body('body')
+    .notEmpty()
+    .withMessage('Comment body is required')
+    .isString()
+    .withMessage('Comment body must be a string')
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Comment must be between 1 and 2000 characters'),
+
+  body('imageIndex')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Image index must be a non-negative number'),
+
+  body('parentId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid parent comment ID format')
+];
+
+// Validation for editing a comment
+export const editPostCommentValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid post ID format'),
+
+  param('commentId')
+    .isMongoId()
+    .withMessage('Invalid comment ID format'),
+
+  body('body')
+    .notEmpty()
+    .withMessage('Comment body is required')
+    .isString()
+    .withMessage('Comment body must be a string')
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Comment must be between 1 and 2000 characters')
+];
+
+// Validation for routes that act on a single comment
+export const postCommentIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid post ID format'),
+
+  param('commentId')
+    .isMongoId()
+    .withMessage('Invalid comment ID format')
+];
@@ -1,4 +1,6 @@
 import { body, query, param } from 'express-validator';
+import { POST_STATUSES } from '../models/Post';
+import { isValidTimeZone } from '../utils/timeUtils';
 
 // Validation for creating a new post
 export const createPostValidation = [
@@ -24,9 +26,9 @@ export const createPostValidation = [
   body('images.*')
     .optional()
     .isString()
-    .withMessage('Each image must be a string URL')
-    .isURL()
-    .withMessage('Each image must be a valid URL'),
+    .withMessage('Each image must be a storage key or URL')
+    .notEmpty()
+    .withMessage('Image cannot be empty'),
   
   body('images')
     .optional()
@@ -82,9 +84,9 @@ export const updatePostValidation = [
   body('images.*')
     .optional()
     .isString()
-    .withMessage('Each image must be a string URL')
-    .isURL()
-    .withMessage('Each image must be a valid URL'),
+    .withMessage('Each image must be a storage key or URL')
+    .notEmpty()
+    .withMessage('Image cannot be empty'),
   
   body('images')
     .optional()
@@ -118,7 +120,7 @@ export const updatePostValidation = [
   
   body('status')
     .optional()
-    .isIn(['pending', 'approved', 'rejected', 'scheduled', 'published'])
+    .isIn(POST_STATUSES)
     .withMessage('Invalid status value')
 ];
 
@@ -136,7 +138,7 @@ export const getPostsValidation = [
   
   query('status')
     .optional()
-    .isIn(['pending', 'approved', 'scheduled', 'published', 'rejected'])
+    .isIn(POST_STATUSES)
     .withMessage('Invalid status value'),
   
   query('startDate')
@@ -160,7 +162,14 @@ export const getPostsValidation = [
     .withMessage('Offset must be a non-negative number')
 ];
 
-// Validation for updating post status (approve/reject/post)
+// Validation for routes that only take a post ID
+export const postIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid post ID format')
+];
+
+// Validation for updating post status (approve/reject/schedule/post)
 export const updatePostStatusValidation = [
   param('id')
     .isMongoId()
@@ -169,8 +178,20 @@ export const updatePostStatusValidation = [
   body('status')
     .notEmpty()
     .withMessage('Status is required')
-    .isIn(['approved', 'rejected', 'posted'])
-    .withMessage('Status must be approved, rejected, or posted'),
+    .isIn(POST_STATUSES)
+    .withMessage(`Status must be one of ${POST_STATUSES.join(', ')}`),
+  
+  body('reason')
+    .optional()
+    .isString()
+    .withMessage('Reason must be a string')
+    .isLength({ max: 1000 })
+    .withMessage('Reason cannot exceed 1000 characters'),
+  
+  body('scheduledDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Scheduled date must be a valid ISO date'),
   
   body('feedback')
     .custom((value, { req }) => {
@@ -180,6 +201,40 @@ export const updatePostStatusValidation = [
       }
       return true;
     })
+    .if(body('feedback').exists())
+    .isString()
+    .withMessage('Feedback must be a string')
+    .isLength({ max: 1000 })
+    .withMessage('Feedback cannot exceed 1000 characters')
+];
+
+// Validation for moving a post to a new date
+export const reschedulePostValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid post ID format'),
+  
+  body('scheduledDate')
+    .notEmpty()
+    .withMessage('Scheduled date is required')
+    .isISO8601()
+    .withMessage('Scheduled date must be a valid ISO date')
+    .custom((value) => {
+      // Get today's date with time set to start of day (midnight)
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      
+      // Check if scheduled date is before today (not allowing past dates)
+      if (new Date(value) < today) {
+        throw new Error('Scheduled date cannot be in the past');
+      }
+      return true;
+    }),
+  
+  body('tz')
+    .optional()
+    .custom(value => typeof value === 'string' && isValidTimeZone(value))
+    .withMessage('tz must be an IANA time zone, e.g. Europe/Berlin')
 ];
 
 // Validation for adding feedback to a post
@@ -209,9 +264,9 @@ export const updatePostImagesValidation = [
   
   body('images.*')
     .isString()
-    .withMessage('Each image must be a string URL')
-    .isURL()
-    .withMessage('Each image must be a valid URL'),
+    .withMessage('Each image must be a storage key or URL')
+    .notEmpty()
+    .withMessage('Image cannot be empty'),
   
   body('images')
     .custom((images) => {
@@ -221,3 +276,33 @@ export const updatePostImagesValidation = [
       return true;
     })
 ];
+
+// Validation for routes that take a post ID and a revision number
+export const postRevisionValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid post ID format'),
+  
+  param('rev')
+    .isInt({ min: 1 })
+    .withMessage('Revision must be a positive number')
+];
+
+// Validation for comparing two revisions of a post
+export const postRevisionDiffValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid post ID format'),
+  
+  query('from')
+    .notEmpty()
+    .withMessage('From revision is required')
+    .isInt({ min: 1 })
+    .withMessage('From revision must be a positive number'),
+  
+  query('to')
+    .notEmpty()
+    .withMessage('To revision is required')
+    .isInt({ min: 1 })
+    .withMessage('To revision must be a positive number')
+];
@@ -0,0 +1,63 @@
+import { body, query, param } from 'express-validator';
+
+// Validation for listing the discussion of a report
+export const getReportCommentsValidation = [
+  param('reportId')
+    .isMongoId()
+    .withMessage('Invalid report ID format'),
+
+  query('resolved')
+    .optional()
+    .isBoolean()
+    .withMessage('Resolved must be true or false')
+];
+
+// Validation for adding a comment to a report
+export const addReportCommentValidation = [
+  param('reportId')
+    .isMongoId()
+    .withMessage('Invalid report ID format'),
+
+  body('body')
+    .notEmpty()
+    .withMessage('Comment body is required')
+    .isString()
+    .withMessage('Comment body must be a string')
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Comment must be between 1 and 2000 characters'),
+
+  body('parentId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid parent comment ID format')
+];
+
+// Validation for editing a comment
+export const editReportCommentValidation = [
+  param('reportId')
+    .isMongoId()
+    .withMessage('Invalid report ID format'),
+
+  param('commentId')
+    .isMongoId()
+    .withMessage('Invalid comment ID format'),
+
+  body('body')
+    .notEmpty()
+    .withMessage('Comment body is required')
+    .isString()
+    .withMessage('Comment body must be a string')
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Comment must be between 1 and 2000 characters')
+];
+
+// Validation for routes that act on a single comment
+export const reportCommentIdValidation = [
+  param('reportId')
+    .isMongoId()
+    .withMessage('Invalid report ID format'),
+
+  param('commentId')
+    .isMongoId()
+    .withMessage('Invalid comment ID format')
+];
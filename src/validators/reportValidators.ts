@@ -0,0 +1,39 @@
+import { body, param } from 'express-validator';
+
+const reportIdParam = param('reportId')
+  .isMongoId()
+  .withMessage('Invalid report ID format');
+
+// Validation for generating a founder's monthly report
+export const generateReportValidation = [
+  param('founderId')
+    .isMongoId()
+    .withMessage('Invalid founder ID format'),
+
+  param('month')
+    .matches(/^\d{4}-(0[1-9]|1[0-2])$/)
+    .withMessage('Invalid month format. Use YYYY-MM format.'),
+
+  body('changeNote')
+    .optional()
+    .isString()
+    .withMessage('Change note must be a string')
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Change note cannot exceed 500 characters')
+];
+
+// Validation for routes that act on a single report
+export const reportIdValidation = [
+  reportIdParam
+];
+
+// Validation for restoring or purging a version of a report
+export const reportVersionValidation = [
+  reportIdParam,
+
+  param('version')
+    .isInt({ min: 1 })
+    .withMessage('Version must be a positive number')
+    .toInt()
+];